@@ -1,10 +1,47 @@
-// Using CO5 (Composition) - Bookmarks screen using shared hook
+// Using CO5 (Composition) - Bookmarks screen with collections, using shared hook
 
-import { View, Text, ScrollView, StyleSheet, Pressable } from 'react-native';
-import { Link } from 'expo-router';
+import { useEffect, useMemo, useState, type ReactNode } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  Modal,
+  Alert,
+} from 'react-native';
+import { Link, Tabs } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, layout, typography } from '../../theme';
-import { useBookmarks } from '@hummbl/shared';
+import {
+  BookmarkEditModal,
+  BookmarkStorageBanner,
+  EmptyState as MessageState,
+  ExportBookmarksModal,
+  HighlightedText,
+  ImportBookmarksModal,
+  Loading,
+  RelinkBookmarkModal,
+  Toast,
+} from '../../components';
+import {
+  useBookmarks,
+  useContent,
+  filterBookmarks,
+  getBookmarkTargets,
+  previewBookmarkImport,
+  reconcileBookmarks,
+  resolveContentRoute,
+  serializeBookmarks,
+} from '@hummbl/shared';
+import type {
+  Bookmark,
+  BookmarkCollection,
+  BookmarkType,
+  MatchRanges,
+  UnavailableBookmark,
+} from '@hummbl/shared';
 
 function EmptyState() {
   return (
@@ -23,99 +60,731 @@ function EmptyState() {
   );
 }
 
-function BookmarkItem({ bookmark, onRemove }: {
-  bookmark: { id: string; type: string; title: string; description?: string; createdAt: string };
-  onRemove: () => void;
+function IconButton({
+  name,
+  onPress,
+  disabled,
+  color = colors.text.secondary,
+}: {
+  name: keyof typeof Ionicons.glyphMap;
+  onPress: () => void;
+  disabled?: boolean;
+  color?: string;
 }) {
-  const href = bookmark.type === 'mental-model'
-    ? `/mental-models/${bookmark.id}`
-    : `/narratives/${bookmark.id}`;
+  return (
+    <Pressable
+      onPress={onPress}
+      disabled={disabled}
+      style={[styles.iconButton, disabled && styles.iconButtonDisabled]}
+      hitSlop={4}
+    >
+      <Ionicons name={name} size={20} color={color} />
+    </Pressable>
+  );
+}
 
+function CollectionChip({
+  label,
+  selected,
+  onPress,
+}: {
+  label: string;
+  selected: boolean;
+  onPress: () => void;
+}) {
   return (
-    <View style={styles.bookmarkCard}>
-      <Link href={href as any} asChild>
-        <Pressable style={styles.bookmarkContent}>
-          <View style={styles.bookmarkIcon}>
-            <Ionicons
-              name={bookmark.type === 'mental-model' ? 'grid' : 'document-text'}
-              size={20}
-              color={colors.primary[500]}
-            />
-          </View>
-          <View style={styles.bookmarkInfo}>
-            <Text style={styles.bookmarkTitle}>{bookmark.title}</Text>
-            {bookmark.description && (
-              <Text style={styles.bookmarkDescription} numberOfLines={2}>
-                {bookmark.description}
-              </Text>
-            )}
-            <Text style={styles.bookmarkMeta}>
-              {bookmark.type === 'mental-model' ? 'Mental Model' : 'Narrative'} ·{' '}
-              {new Date(bookmark.createdAt).toLocaleDateString()}
+    <Pressable
+      style={[styles.collectionChip, selected && styles.collectionChipActive]}
+      onPress={onPress}
+    >
+      <Text style={[styles.collectionChipText, selected && styles.collectionChipTextActive]}>
+        {label}
+      </Text>
+    </Pressable>
+  );
+}
+
+function BookmarkItem({
+  bookmark,
+  ranges = {},
+  collectionNames = [],
+  unavailable,
+  onResolve,
+  actions,
+}: {
+  bookmark: Bookmark;
+  /** Search hits in the title and note */
+  ranges?: MatchRanges;
+  collectionNames?: string[];
+  /** Set when the bookmarked content no longer exists */
+  unavailable?: UnavailableBookmark;
+  /** Opens the remove or re-link choice for unavailable content */
+  onResolve: () => void;
+  actions: ReactNode;
+}) {
+  const content = (
+    <Pressable style={styles.bookmarkContent} onPress={unavailable ? onResolve : undefined}>
+      <View style={styles.bookmarkIcon}>
+        <Ionicons
+          name={bookmark.type === 'mental-model' ? 'grid' : 'document-text'}
+          size={20}
+          color={colors.primary[500]}
+        />
+      </View>
+      <View style={styles.bookmarkInfo}>
+        <HighlightedText text={bookmark.title} ranges={ranges.title} style={styles.bookmarkTitle} />
+        {bookmark.note ? (
+          <HighlightedText
+            text={bookmark.note}
+            ranges={ranges.note}
+            style={styles.bookmarkNote}
+            numberOfLines={3}
+          />
+        ) : (
+          bookmark.description && (
+            <Text style={styles.bookmarkDescription} numberOfLines={2}>
+              {bookmark.description}
             </Text>
-          </View>
-        </Pressable>
-      </Link>
-      <Pressable onPress={onRemove} style={styles.removeButton} hitSlop={8}>
-        <Ionicons name="close-circle" size={24} color={colors.text.secondary} />
-      </Pressable>
+          )
+        )}
+        {bookmark.tags && bookmark.tags.length > 0 && (
+          <Text style={styles.bookmarkTags} numberOfLines={1}>
+            {bookmark.tags.map((tag) => `#${tag}`).join(' ')}
+          </Text>
+        )}
+        <Text style={styles.bookmarkMeta}>
+          {bookmark.type === 'mental-model' ? 'Mental Model' : 'Narrative'} ·{' '}
+          {new Date(bookmark.createdAt).toLocaleDateString()}
+        </Text>
+        {collectionNames.length > 0 && (
+          <Text style={styles.bookmarkCollections} numberOfLines={1}>
+            <Ionicons name="folder-outline" size={12} /> {collectionNames.join(', ')}
+          </Text>
+        )}
+        {unavailable && (
+          <Text style={styles.bookmarkUnavailable}>
+            <Ionicons name="alert-circle-outline" size={12} />{' '}
+            {unavailable.reason === 'renamed' ? 'Content moved' : 'Content unavailable'}
+          </Text>
+        )}
+      </View>
+    </Pressable>
+  );
+
+  return (
+    <View style={styles.bookmarkCard}>
+      {unavailable ? (
+        content
+      ) : (
+        <Link href={resolveContentRoute(bookmark.type, bookmark.itemId)} asChild>
+          {content}
+        </Link>
+      )}
+      <View style={styles.bookmarkActions}>{actions}</View>
     </View>
   );
 }
 
-export default function BookmarksScreen() {
-  const { bookmarks, modelBookmarks, narrativeBookmarks, removeBookmark } = useBookmarks();
+// Using IN1 (Inversion) - Alert.prompt is iOS-only, so names are typed into our own modal
+function CollectionNameModal({
+  visible,
+  title,
+  initialName = '',
+  error,
+  onSubmit,
+  onClose,
+}: {
+  visible: boolean;
+  title: string;
+  initialName?: string;
+  error: string | null;
+  /** Returns false when the store rejected the name */
+  onSubmit: (name: string) => boolean;
+  onClose: () => void;
+}) {
+  const [name, setName] = useState(initialName);
+  const [rejected, setRejected] = useState(false);
 
-  if (bookmarks.length === 0) {
-    return <EmptyState />;
-  }
+  useEffect(() => {
+    if (visible) {
+      setName(initialName);
+      setRejected(false);
+    }
+  }, [visible, initialName]);
+
+  const submit = () => {
+    if (onSubmit(name)) {
+      onClose();
+    } else {
+      setRejected(true);
+    }
+  };
 
   return (
-    <ScrollView
-      style={styles.container}
-      contentContainerStyle={styles.content}
-      showsVerticalScrollIndicator={false}
-    >
-      {/* Stats */}
-      <View style={styles.statsRow}>
-        <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{modelBookmarks.length}</Text>
-          <Text style={styles.statLabel}>Models</Text>
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalCard}>
+          <Text style={styles.modalTitle}>{title}</Text>
+          <TextInput
+            style={styles.nameInput}
+            value={name}
+            onChangeText={(text) => {
+              setName(text);
+              setRejected(false);
+            }}
+            placeholder="Collection name"
+            placeholderTextColor={colors.text.disabled}
+            autoFocus
+            returnKeyType="done"
+            onSubmitEditing={submit}
+          />
+          {rejected && error && <Text style={styles.errorText}>{error}</Text>}
+          <View style={styles.modalButtons}>
+            <Pressable onPress={onClose} style={styles.modalButton}>
+              <Text style={styles.modalButtonText}>Cancel</Text>
+            </Pressable>
+            <Pressable onPress={submit} style={[styles.modalButton, styles.modalButtonPrimary]}>
+              <Text style={styles.modalButtonPrimaryText}>Save</Text>
+            </Pressable>
+          </View>
         </View>
-        <View style={styles.statCard}>
-          <Text style={styles.statNumber}>{narrativeBookmarks.length}</Text>
-          <Text style={styles.statLabel}>Narratives</Text>
+      </View>
+    </Modal>
+  );
+}
+
+function CollectionPickerModal({
+  bookmark,
+  collections,
+  onToggle,
+  onNew,
+  onClose,
+}: {
+  bookmark: Bookmark | null;
+  collections: BookmarkCollection[];
+  onToggle: (collection: BookmarkCollection) => void;
+  onNew: () => void;
+  onClose: () => void;
+}) {
+  return (
+    <Modal visible={bookmark !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.modalBackdrop}>
+        <View style={styles.modalCard}>
+          <Text style={styles.modalTitle}>Add to collections</Text>
+          <Text style={styles.modalSubtitle} numberOfLines={1}>
+            {bookmark?.title}
+          </Text>
+          {collections.map((collection) => {
+            const member = bookmark ? collection.bookmarkIds.includes(bookmark.id) : false;
+            return (
+              <Pressable
+                key={collection.id}
+                style={styles.pickerRow}
+                onPress={() => onToggle(collection)}
+              >
+                <Ionicons
+                  name={member ? 'checkbox' : 'square-outline'}
+                  size={22}
+                  color={member ? colors.primary[500] : colors.text.secondary}
+                />
+                <Text style={styles.pickerLabel}>{collection.name}</Text>
+              </Pressable>
+            );
+          })}
+          <Pressable style={styles.pickerRow} onPress={onNew}>
+            <Ionicons name="add" size={22} color={colors.primary[500]} />
+            <Text style={[styles.pickerLabel, styles.pickerNew]}>New collection</Text>
+          </Pressable>
+          <View style={styles.modalButtons}>
+            <Pressable onPress={onClose} style={[styles.modalButton, styles.modalButtonPrimary]}>
+              <Text style={styles.modalButtonPrimaryText}>Done</Text>
+            </Pressable>
+          </View>
         </View>
       </View>
+    </Modal>
+  );
+}
 
-      {/* Model bookmarks */}
-      {modelBookmarks.length > 0 && (
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Mental Models</Text>
-          {modelBookmarks.map((bookmark) => (
-            <BookmarkItem
-              key={bookmark.id}
-              bookmark={bookmark}
-              onRemove={() => removeBookmark(bookmark.id)}
-            />
-          ))}
+type UndoToast = { id: number; message: string; actionLabel: string; onAction: () => void };
+
+type NameDialog = { mode: 'create'; addBookmarkId?: string } | { mode: 'rename'; id: string };
+
+export default function BookmarksScreen() {
+  const {
+    bookmarks,
+    modelBookmarks,
+    narrativeBookmarks,
+    collections,
+    tags,
+    isLoading,
+    error,
+    failedOperation,
+    collectionError,
+    retryStorage,
+    removeBookmark,
+    updateBookmark,
+    relinkBookmark,
+    importBookmarks,
+    createCollection,
+    renameCollection,
+    deleteCollection,
+    moveCollection,
+    addToCollection,
+    removeFromCollection,
+    moveInCollection,
+    getCollectionBookmarks,
+    getBookmarkCollections,
+    undo,
+    redo,
+  } = useBookmarks();
+  const {
+    models,
+    narratives,
+    isLoading: contentLoading,
+    error: contentError,
+    getModelById,
+    getNarrativeById,
+  } = useContent();
+
+  // null shows every bookmark grouped by type
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [pickerBookmarkId, setPickerBookmarkId] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [transfer, setTransfer] = useState<'export' | 'import' | null>(null);
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [toast, setToast] = useState<UndoToast | null>(null);
+
+  // Using RE2 (Feedback Loops) - Removing is one tap, so it can be taken back from the toast
+  const undoRemove = () => {
+    const undone = undo();
+    if (undone !== 'remove') {
+      // Something else changed since; put it back rather than undo the wrong step
+      if (undone) redo();
+      return;
+    }
+    setToast({ id: Date.now(), message: 'Restored', actionLabel: 'Redo', onAction: redo });
+  };
+  const remove = (id: string) => {
+    removeBookmark(id);
+    setToast({ id: Date.now(), message: 'Removed', actionLabel: 'Undo', onAction: undoRemove });
+  };
+
+  // Using IN2 (Premortem) - Bookmarks whose content was removed or renamed, once content has loaded
+  // A failed load would make every bookmark look removed and offer them all for deletion
+  const unavailable = useMemo(
+    () =>
+      contentLoading || contentError
+        ? new Map<string, UnavailableBookmark>()
+        : reconcileBookmarks(bookmarks, { models, narratives }),
+    [contentLoading, contentError, bookmarks, models, narratives]
+  );
+  const resolving = (resolvingId && unavailable.get(resolvingId)) || null;
+  const relinkTargets = useMemo(
+    () => (resolving ? getBookmarkTargets({ models, narratives }, resolving.bookmark.type) : []),
+    [resolving, models, narratives]
+  );
+
+  // A tag deleted from its last bookmark can't stay selected
+  const activeTags = useMemo(
+    () => selectedTags.filter((tag) => tags.some((t) => t.tag === tag)),
+    [selectedTags, tags]
+  );
+  const results = useMemo(
+    () => filterBookmarks(bookmarks, { tags: activeTags, query }),
+    [bookmarks, activeTags, query]
+  );
+  const filtering = activeTags.length > 0 || query.trim().length > 0;
+
+  const activeIndex = collections.findIndex((c) => c.id === activeId);
+  const active = activeIndex === -1 ? null : collections[activeIndex];
+  const pickerBookmark = bookmarks.find((b) => b.id === pickerBookmarkId) ?? null;
+  const editingBookmark = bookmarks.find((b) => b.id === editingId) ?? null;
+
+  // Export what is on screen: the open collection, the filtered list, or everything
+  const exportScope = active
+    ? { label: active.name, bookmarks: getCollectionBookmarks(active.id), collections: [active] }
+    : filtering
+      ? { label: 'Filtered bookmarks', bookmarks: results.map((r) => r.item), collections: [] }
+      : { label: 'All bookmarks', bookmarks, collections };
+
+  const isKnownItem = (type: BookmarkType, itemId: string) =>
+    type === 'mental-model' ? !!getModelById(itemId) : !!getNarrativeById(itemId);
+
+  const transferScreen = (
+    <>
+      <Tabs.Screen
+        options={{
+          headerRight: () => (
+            <View style={styles.headerActions}>
+              <IconButton
+                name="share-outline"
+                color={colors.text.inverse}
+                disabled={exportScope.bookmarks.length === 0}
+                onPress={() => setTransfer('export')}
+              />
+              <IconButton
+                name="download-outline"
+                color={colors.text.inverse}
+                onPress={() => setTransfer('import')}
+              />
+            </View>
+          ),
+        }}
+      />
+      <ExportBookmarksModal
+        visible={transfer === 'export'}
+        scope={exportScope.label}
+        count={exportScope.bookmarks.length}
+        serialize={(format) =>
+          serializeBookmarks(format, exportScope.bookmarks, {
+            collections: exportScope.collections,
+          })
+        }
+        onClose={() => setTransfer(null)}
+      />
+      <ImportBookmarksModal
+        visible={transfer === 'import'}
+        preview={(json) => previewBookmarkImport(json, { existing: bookmarks, isKnownItem })}
+        onImport={importBookmarks}
+        onClose={() => setTransfer(null)}
+      />
+    </>
+  );
+
+  // Shown over every state below; removing the last bookmark switches to the empty one
+  const undoToast = toast && (
+    <Toast
+      key={toast.id}
+      message={toast.message}
+      actionLabel={toast.actionLabel}
+      onAction={toast.onAction}
+      onHide={() => setToast((current) => (current?.id === toast.id ? null : current))}
+    />
+  );
+
+  // Using IN2 (Premortem) - "No bookmarks yet" only once they have actually been read
+  if (isLoading) {
+    return (
+      <>
+        <Loading message="Loading bookmarks..." fullScreen />
+        {undoToast}
+      </>
+    );
+  }
+
+  // No import or export either: nothing would be saved over bookmarks that couldn't be read
+  if (failedOperation === 'read') {
+    return (
+      <>
+        <MessageState
+          icon="alert-circle-outline"
+          title="Couldn't load bookmarks"
+          message={error ?? undefined}
+          actionLabel="Try again"
+          onAction={() => void retryStorage()}
+        />
+        {undoToast}
+      </>
+    );
+  }
+
+  if (bookmarks.length === 0 && collections.length === 0) {
+    return (
+      <>
+        <EmptyState />
+        {transferScreen}
+        {undoToast}
+      </>
+    );
+  }
+
+  const submitName = (name: string): boolean => {
+    if (!nameDialog) return false;
+    if (nameDialog.mode === 'rename') return renameCollection(nameDialog.id, name);
+
+    const id = createCollection(name);
+    if (!id) return false;
+    if (nameDialog.addBookmarkId) {
+      addToCollection(id, nameDialog.addBookmarkId);
+    } else {
+      setActiveId(id);
+    }
+    return true;
+  };
+
+  const confirmDelete = (collection: BookmarkCollection) => {
+    Alert.alert(
+      'Delete collection?',
+      `"${collection.name}" will be removed. The bookmarks in it stay saved.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => {
+            deleteCollection(collection.id);
+            setActiveId(null);
+          },
+        },
+      ]
+    );
+  };
+
+  const toggleTag = (tag: string) =>
+    setSelectedTags(
+      activeTags.includes(tag) ? activeTags.filter((t) => t !== tag) : [...activeTags, tag]
+    );
+
+  const renderGrouped = (title: string, items: typeof results) =>
+    items.length > 0 && (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>{title}</Text>
+        {items.map(({ item: bookmark, ranges }) => (
+          <BookmarkItem
+            key={bookmark.id}
+            bookmark={bookmark}
+            ranges={ranges}
+            collectionNames={getBookmarkCollections(bookmark.id).map((c) => c.name)}
+            unavailable={unavailable.get(bookmark.id)}
+            onResolve={() => setResolvingId(bookmark.id)}
+            actions={
+              <>
+                <IconButton name="pricetag-outline" onPress={() => setEditingId(bookmark.id)} />
+                <IconButton
+                  name="folder-open-outline"
+                  onPress={() => setPickerBookmarkId(bookmark.id)}
+                />
+                <IconButton name="close-circle" onPress={() => remove(bookmark.id)} />
+              </>
+            }
+          />
+        ))}
+      </View>
+    );
+
+  const renderCollection = (collection: BookmarkCollection) => {
+    const items = getCollectionBookmarks(collection.id);
+    return (
+      <View style={styles.section}>
+        <View style={styles.collectionHeader}>
+          <Text style={[styles.sectionTitle, styles.collectionTitle]} numberOfLines={1}>
+            {collection.name}
+          </Text>
+          <IconButton
+            name="chevron-back"
+            disabled={activeIndex === 0}
+            onPress={() => moveCollection(collection.id, activeIndex - 1)}
+          />
+          <IconButton
+            name="chevron-forward"
+            disabled={activeIndex === collections.length - 1}
+            onPress={() => moveCollection(collection.id, activeIndex + 1)}
+          />
+          <IconButton
+            name="create-outline"
+            onPress={() => setNameDialog({ mode: 'rename', id: collection.id })}
+          />
+          <IconButton
+            name="trash-outline"
+            color={colors.error}
+            onPress={() => confirmDelete(collection)}
+          />
         </View>
-      )}
 
-      {/* Narrative bookmarks */}
-      {narrativeBookmarks.length > 0 && (
-        <View style={styles.section}>
-          <Text style={styles.sectionTitle}>Narratives</Text>
-          {narrativeBookmarks.map((bookmark) => (
+        {items.length === 0 ? (
+          <Text style={styles.collectionEmpty}>
+            This collection is empty. Use the folder button on a bookmark under All to add it here.
+          </Text>
+        ) : (
+          items.map((bookmark, index) => (
             <BookmarkItem
               key={bookmark.id}
               bookmark={bookmark}
-              onRemove={() => removeBookmark(bookmark.id)}
+              unavailable={unavailable.get(bookmark.id)}
+              onResolve={() => setResolvingId(bookmark.id)}
+              actions={
+                <>
+                  <IconButton
+                    name="arrow-up"
+                    disabled={index === 0}
+                    onPress={() => moveInCollection(collection.id, bookmark.id, index - 1)}
+                  />
+                  <IconButton
+                    name="arrow-down"
+                    disabled={index === items.length - 1}
+                    onPress={() => moveInCollection(collection.id, bookmark.id, index + 1)}
+                  />
+                  <IconButton
+                    name="remove-circle-outline"
+                    onPress={() => removeFromCollection(collection.id, bookmark.id)}
+                  />
+                </>
+              }
             />
-          ))}
-        </View>
-      )}
-    </ScrollView>
+          ))
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {/* Collection picker */}
+      <ScrollView
+        horizontal
+        style={styles.collectionBar}
+        contentContainerStyle={styles.collectionBarContent}
+        showsHorizontalScrollIndicator={false}
+      >
+        <CollectionChip
+          label={`All ${bookmarks.length}`}
+          selected={activeId === null}
+          onPress={() => setActiveId(null)}
+        />
+        {collections.map((collection) => (
+          <CollectionChip
+            key={collection.id}
+            label={`${collection.name} ${collection.bookmarkIds.length}`}
+            selected={collection.id === activeId}
+            onPress={() => setActiveId(collection.id)}
+          />
+        ))}
+        <Pressable style={styles.collectionChip} onPress={() => setNameDialog({ mode: 'create' })}>
+          <Text style={[styles.collectionChipText, styles.pickerNew]}>+ New</Text>
+        </Pressable>
+      </ScrollView>
+
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.content}
+        showsVerticalScrollIndicator={false}
+      >
+        <BookmarkStorageBanner
+          error={failedOperation === 'write' ? error : null}
+          onRetry={retryStorage}
+        />
+        {active ? (
+          renderCollection(active)
+        ) : (
+          <>
+            {/* Stats */}
+            <View style={styles.statsRow}>
+              <View style={styles.statCard}>
+                <Text style={styles.statNumber}>{modelBookmarks.length}</Text>
+                <Text style={styles.statLabel}>Models</Text>
+              </View>
+              <View style={styles.statCard}>
+                <Text style={styles.statNumber}>{narrativeBookmarks.length}</Text>
+                <Text style={styles.statLabel}>Narratives</Text>
+              </View>
+            </View>
+
+            {/* Search titles and notes */}
+            <View style={styles.searchInputContainer}>
+              <Ionicons name="search" size={20} color={colors.text.secondary} />
+              <TextInput
+                style={styles.searchInput}
+                placeholder="Search titles and notes"
+                placeholderTextColor={colors.text.secondary}
+                value={query}
+                onChangeText={setQuery}
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              {query.length > 0 && (
+                <Pressable onPress={() => setQuery('')} hitSlop={8}>
+                  <Ionicons name="close-circle" size={20} color={colors.text.secondary} />
+                </Pressable>
+              )}
+            </View>
+
+            {/* Tag filter */}
+            {tags.length > 0 && (
+              <ScrollView horizontal style={styles.tagBar} showsHorizontalScrollIndicator={false}>
+                {tags.map(({ tag, count }) => (
+                  <CollectionChip
+                    key={tag}
+                    label={`#${tag} ${count}`}
+                    selected={activeTags.includes(tag)}
+                    onPress={() => toggleTag(tag)}
+                  />
+                ))}
+              </ScrollView>
+            )}
+
+            {filtering && results.length === 0 && (
+              <Text style={styles.collectionEmpty}>No saved items match.</Text>
+            )}
+            {renderGrouped(
+              'Mental Models',
+              results.filter((r) => r.item.type === 'mental-model')
+            )}
+            {renderGrouped(
+              'Narratives',
+              results.filter((r) => r.item.type === 'narrative')
+            )}
+          </>
+        )}
+      </ScrollView>
+
+      <CollectionPickerModal
+        bookmark={pickerBookmark}
+        collections={collections}
+        onToggle={(collection) => {
+          if (!pickerBookmark) return;
+          if (collection.bookmarkIds.includes(pickerBookmark.id)) {
+            removeFromCollection(collection.id, pickerBookmark.id);
+          } else {
+            addToCollection(collection.id, pickerBookmark.id);
+          }
+        }}
+        onNew={() => {
+          setNameDialog({ mode: 'create', addBookmarkId: pickerBookmarkId ?? undefined });
+          setPickerBookmarkId(null);
+        }}
+        onClose={() => setPickerBookmarkId(null)}
+      />
+
+      {transferScreen}
+
+      <BookmarkEditModal
+        bookmark={editingBookmark}
+        bookmarks={bookmarks}
+        onSave={(edit) => {
+          if (editingBookmark) updateBookmark(editingBookmark.id, edit);
+        }}
+        onClose={() => setEditingId(null)}
+      />
+
+      <RelinkBookmarkModal
+        unavailable={resolving}
+        targets={relinkTargets}
+        onRelink={(target) => {
+          if (resolving) relinkBookmark(resolving.bookmark.id, target);
+          setResolvingId(null);
+        }}
+        onRemove={() => {
+          if (resolving) remove(resolving.bookmark.id);
+          setResolvingId(null);
+        }}
+        onClose={() => setResolvingId(null)}
+      />
+
+      <CollectionNameModal
+        visible={nameDialog !== null}
+        title={nameDialog?.mode === 'rename' ? 'Rename collection' : 'New collection'}
+        initialName={nameDialog?.mode === 'rename' ? active?.name : ''}
+        error={collectionError}
+        onSubmit={submitName}
+        onClose={() => setNameDialog(null)}
+      />
+
+      {undoToast}
+    </View>
   );
 }
 
@@ -156,6 +825,65 @@ const styles = StyleSheet.create({
     ...typography.labelLarge,
     color: colors.text.inverse,
   },
+  collectionBar: {
+    flexGrow: 0,
+    backgroundColor: colors.background.primary,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  collectionBarContent: {
+    paddingHorizontal: layout.screenPadding,
+    paddingVertical: spacing.sm,
+  },
+  collectionChip: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.md,
+    borderRadius: 16,
+    backgroundColor: colors.background.secondary,
+    marginRight: spacing.xs,
+  },
+  collectionChipActive: {
+    backgroundColor: colors.primary[500],
+  },
+  collectionChipText: {
+    ...typography.labelMedium,
+    color: colors.text.primary,
+  },
+  collectionChipTextActive: {
+    color: colors.text.inverse,
+  },
+  searchInputContainer: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.background.primary,
+    borderRadius: layout.inputBorderRadius,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.sm,
+    gap: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  searchInput: {
+    flex: 1,
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  tagBar: {
+    flexGrow: 0,
+    marginBottom: spacing.md,
+  },
+  collectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: spacing.sm,
+  },
+  collectionTitle: {
+    flex: 1,
+    marginBottom: 0,
+  },
+  collectionEmpty: {
+    ...typography.bodyMedium,
+    color: colors.text.secondary,
+  },
   statsRow: {
     flexDirection: 'row',
     gap: spacing.sm,
@@ -224,7 +952,111 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     marginTop: spacing.xxs,
   },
-  removeButton: {
-    padding: spacing.md,
+  bookmarkNote: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    fontStyle: 'italic',
+    marginTop: spacing.xxs,
+  },
+  bookmarkUnavailable: {
+    ...typography.caption,
+    color: colors.warning,
+    marginTop: spacing.xxs,
+  },
+  bookmarkTags: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    marginTop: spacing.xxs,
+  },
+  bookmarkCollections: {
+    ...typography.caption,
+    color: colors.primary[500],
+    marginTop: spacing.xxs,
+  },
+  bookmarkActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingRight: spacing.sm,
+  },
+  headerActions: {
+    flexDirection: 'row',
+    marginRight: spacing.sm,
+  },
+  iconButton: {
+    padding: spacing.xs,
+  },
+  iconButtonDisabled: {
+    opacity: 0.3,
+  },
+  modalBackdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: layout.screenPadding,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  modalCard: {
+    backgroundColor: colors.background.primary,
+    borderRadius: layout.cardBorderRadius,
+    padding: layout.cardPadding,
+  },
+  modalTitle: {
+    ...typography.headingSmall,
+    color: colors.text.primary,
+    marginBottom: spacing.sm,
+  },
+  modalSubtitle: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginTop: -spacing.xs,
+    marginBottom: spacing.sm,
+  },
+  nameInput: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: layout.inputBorderRadius,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.error,
+    marginTop: spacing.xs,
+  },
+  pickerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  pickerLabel: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+  },
+  pickerNew: {
+    color: colors.primary[500],
+  },
+  modalButtons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  modalButton: {
+    paddingVertical: layout.buttonPaddingVertical,
+    paddingHorizontal: layout.buttonPaddingHorizontal,
+    borderRadius: layout.buttonBorderRadius,
+  },
+  modalButtonText: {
+    ...typography.labelLarge,
+    color: colors.text.secondary,
+  },
+  modalButtonPrimary: {
+    backgroundColor: colors.primary[500],
+  },
+  modalButtonPrimaryText: {
+    ...typography.labelLarge,
+    color: colors.text.inverse,
   },
 });
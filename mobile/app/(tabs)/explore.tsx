@@ -1,48 +1,200 @@
-// Using DE3 (Decomposition) - Explore screen with filtering
+// Using DE3 (Decomposition) - Explore screen with faceted filtering
 
 import { useState, useMemo } from 'react';
 import { View, Text, ScrollView, StyleSheet, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, layout, typography } from '../../theme';
-import { MentalModelCard, NarrativeCard } from '../../components';
-import { SAMPLE_MODELS, SAMPLE_NARRATIVES } from '../../services/data';
-import type { TransformationKey, EvidenceQuality } from '@hummbl/shared';
+import { MentalModelCard, NarrativeCard, EmptyState } from '../../components';
+import { useContent, applyModelFilters, applyNarrativeFilters } from '@hummbl/shared';
+import type {
+  FacetCount,
+  ModelFilterOptions,
+  NarrativeFilterOptions,
+  TransformationKey,
+  EvidenceQuality,
+} from '@hummbl/shared';
 
 type ContentType = 'models' | 'narratives';
-type TransformationFilter = TransformationKey | 'all';
-type EvidenceFilter = EvidenceQuality | 'all';
-
-const TRANSFORMATIONS: { key: TransformationFilter; label: string; color: string }[] = [
-  { key: 'all', label: 'All', color: colors.primary[500] },
-  { key: 'P', label: 'P', color: colors.transformations.P },
-  { key: 'IN', label: 'IN', color: colors.transformations.IN },
-  { key: 'CO', label: 'CO', color: colors.transformations.CO },
-  { key: 'DE', label: 'DE', color: colors.transformations.DE },
-  { key: 'RE', label: 'RE', color: colors.transformations.RE },
-  { key: 'SY', label: 'SY', color: colors.transformations.SY },
+type SortOrder = 'asc' | 'desc';
+
+const EVIDENCE_LABELS: Record<EvidenceQuality, string> = {
+  A: 'Strong (A)',
+  B: 'Moderate (B)',
+  C: 'Limited (C)',
+};
+
+const COMPLEXITY_LABELS: Record<string, string> = {
+  low: 'Low',
+  medium: 'Medium',
+  high: 'High',
+};
+
+const MODEL_SORTS: { key: NonNullable<ModelFilterOptions['sortBy']>; label: string }[] = [
+  { key: 'code', label: 'Code' },
+  { key: 'name', label: 'Name' },
+  { key: 'complexity', label: 'Complexity' },
 ];
 
-const EVIDENCE_FILTERS: { key: EvidenceFilter; label: string; color: string }[] = [
-  { key: 'all', label: 'All', color: colors.primary[500] },
-  { key: 'A', label: 'Strong (A)', color: colors.evidence.A },
-  { key: 'B', label: 'Moderate (B)', color: colors.evidence.B },
-  { key: 'C', label: 'Limited (C)', color: colors.evidence.C },
+const NARRATIVE_SORTS: { key: NonNullable<NarrativeFilterOptions['sortBy']>; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'confidence', label: 'Confidence' },
+  { key: 'evidence_quality', label: 'Evidence' },
 ];
 
+// Add the value if missing, remove it if present
+const toggle = <V extends string>(values: V[] | undefined, value: V): V[] =>
+  values?.includes(value) ? values.filter((v) => v !== value) : [...(values ?? []), value];
+
+interface FilterChipProps {
+  label: string;
+  count?: number;
+  selected: boolean;
+  color?: string;
+  icon?: keyof typeof Ionicons.glyphMap;
+  onPress: () => void;
+}
+
+function FilterChip({
+  label,
+  count,
+  selected,
+  color = colors.primary[500],
+  icon,
+  onPress,
+}: FilterChipProps) {
+  // Using IN1 (Inversion) - A value that would empty the list can't be added, only removed
+  const disabled = !selected && count === 0;
+  return (
+    <Pressable
+      style={[
+        styles.filterChip,
+        selected && { backgroundColor: color },
+        disabled && styles.filterChipDisabled,
+      ]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Text style={[styles.filterChipText, selected && styles.filterChipTextActive]}>
+        {label}
+        {count !== undefined ? ` ${count}` : ''}
+      </Text>
+      {icon && (
+        <Ionicons
+          name={icon}
+          size={12}
+          color={selected ? colors.text.inverse : colors.text.secondary}
+        />
+      )}
+    </Pressable>
+  );
+}
+
+interface FacetRowProps<V extends string> {
+  title: string;
+  facets: FacetCount<V>[];
+  onToggle: (value: V) => void;
+  labelFor?: (value: V) => string;
+  colorFor?: (value: V) => string;
+}
+
+function FacetRow<V extends string>({
+  title,
+  facets,
+  onToggle,
+  labelFor = (value) => value,
+  colorFor,
+}: FacetRowProps<V>) {
+  if (facets.length === 0) return null;
+  return (
+    <View style={styles.filterRow}>
+      <Text style={styles.filterRowTitle}>{title}</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filterScroll}
+      >
+        {facets.map((facet) => (
+          <FilterChip
+            key={facet.value}
+            label={labelFor(facet.value)}
+            count={facet.count}
+            selected={facet.selected}
+            color={colorFor?.(facet.value)}
+            onPress={() => onToggle(facet.value)}
+          />
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+interface SortRowProps<K extends string> {
+  options: { key: K; label: string }[];
+  sortBy: K | undefined;
+  sortOrder: SortOrder | undefined;
+  onChange: (sortBy: K, sortOrder: SortOrder) => void;
+}
+
+// Tapping the active sort flips its direction; tapping another starts ascending
+function SortRow<K extends string>({ options, sortBy, sortOrder, onChange }: SortRowProps<K>) {
+  return (
+    <View style={styles.filterRow}>
+      <Text style={styles.filterRowTitle}>Sort</Text>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filterScroll}
+      >
+        {options.map((option) => {
+          const active = option.key === sortBy;
+          return (
+            <FilterChip
+              key={option.key}
+              label={option.label}
+              selected={active}
+              icon={active ? (sortOrder === 'desc' ? 'arrow-down' : 'arrow-up') : undefined}
+              onPress={() => onChange(option.key, active && sortOrder !== 'desc' ? 'desc' : 'asc')}
+            />
+          );
+        })}
+      </ScrollView>
+    </View>
+  );
+}
+
+const hasActiveFilters = (options: ModelFilterOptions | NarrativeFilterOptions): boolean =>
+  Object.values(options).some((value) => Array.isArray(value) && value.length > 0);
+
 export default function ExploreScreen() {
   const [contentType, setContentType] = useState<ContentType>('models');
-  const [transformationFilter, setTransformationFilter] = useState<TransformationFilter>('all');
-  const [evidenceFilter, setEvidenceFilter] = useState<EvidenceFilter>('all');
+  const [modelFilters, setModelFilters] = useState<ModelFilterOptions>({ sortBy: 'code' });
+  const [narrativeFilters, setNarrativeFilters] = useState<NarrativeFilterOptions>({});
+  const { models, narratives } = useContent();
+
+  const modelResult = useMemo(
+    () => applyModelFilters(models, modelFilters),
+    [models, modelFilters]
+  );
+
+  const narrativeResult = useMemo(
+    () => applyNarrativeFilters(narratives, narrativeFilters),
+    [narratives, narrativeFilters]
+  );
 
-  const filteredModels = useMemo(() => {
-    if (transformationFilter === 'all') return SAMPLE_MODELS;
-    return SAMPLE_MODELS.filter((m) => m.transformation === transformationFilter);
-  }, [transformationFilter]);
+  const isFiltered =
+    contentType === 'models' ? hasActiveFilters(modelFilters) : hasActiveFilters(narrativeFilters);
 
-  const filteredNarratives = useMemo(() => {
-    if (evidenceFilter === 'all') return SAMPLE_NARRATIVES;
-    return SAMPLE_NARRATIVES.filter((n) => n.evidenceQuality === evidenceFilter);
-  }, [evidenceFilter]);
+  // Sorting survives a clear; only the facet selections are reset
+  const clearFilters = () => {
+    if (contentType === 'models') {
+      setModelFilters(({ sortBy, sortOrder }) => ({ sortBy, sortOrder }));
+    } else {
+      setNarrativeFilters(({ sortBy, sortOrder }) => ({ sortBy, sortOrder }));
+    }
+  };
+
+  const resultCount =
+    contentType === 'models' ? modelResult.items.length : narrativeResult.items.length;
 
   return (
     <View style={styles.container}>
@@ -78,98 +230,122 @@ export default function ExploreScreen() {
 
       {/* Filters */}
       <View style={styles.filterContainer}>
-        <ScrollView
-          horizontal
-          showsHorizontalScrollIndicator={false}
-          contentContainerStyle={styles.filterScroll}
-        >
-          {contentType === 'models'
-            ? TRANSFORMATIONS.map((t) => (
-                <Pressable
-                  key={t.key}
-                  style={[
-                    styles.filterChip,
-                    transformationFilter === t.key && { backgroundColor: t.color },
-                  ]}
-                  onPress={() => setTransformationFilter(t.key)}
-                >
-                  <Text
-                    style={[
-                      styles.filterChipText,
-                      transformationFilter === t.key && styles.filterChipTextActive,
-                    ]}
-                  >
-                    {t.label}
-                  </Text>
-                </Pressable>
-              ))
-            : EVIDENCE_FILTERS.map((e) => (
-                <Pressable
-                  key={e.key}
-                  style={[
-                    styles.filterChip,
-                    evidenceFilter === e.key && { backgroundColor: e.color },
-                  ]}
-                  onPress={() => setEvidenceFilter(e.key)}
-                >
-                  <Text
-                    style={[
-                      styles.filterChipText,
-                      evidenceFilter === e.key && styles.filterChipTextActive,
-                    ]}
-                  >
-                    {e.label}
-                  </Text>
-                </Pressable>
-              ))}
-        </ScrollView>
+        {contentType === 'models' ? (
+          <>
+            <FacetRow
+              title="Transformation"
+              facets={modelResult.facets.transformations}
+              colorFor={(key: TransformationKey) => colors.transformations[key]}
+              onToggle={(key) =>
+                setModelFilters((f) => ({ ...f, transformations: toggle(f.transformations, key) }))
+              }
+            />
+            <FacetRow
+              title="Complexity"
+              facets={modelResult.facets.complexity}
+              labelFor={(level) => COMPLEXITY_LABELS[level]}
+              onToggle={(level) =>
+                setModelFilters((f) => ({ ...f, complexity: toggle(f.complexity, level) }))
+              }
+            />
+            <FacetRow
+              title="Tags"
+              facets={modelResult.facets.tags}
+              onToggle={(tag) => setModelFilters((f) => ({ ...f, tags: toggle(f.tags, tag) }))}
+            />
+            <SortRow
+              options={MODEL_SORTS}
+              sortBy={modelFilters.sortBy}
+              sortOrder={modelFilters.sortOrder}
+              onChange={(sortBy, sortOrder) =>
+                setModelFilters((f) => ({ ...f, sortBy, sortOrder }))
+              }
+            />
+          </>
+        ) : (
+          <>
+            <FacetRow
+              title="Evidence"
+              facets={narrativeResult.facets.evidenceQuality}
+              labelFor={(grade: EvidenceQuality) => EVIDENCE_LABELS[grade]}
+              colorFor={(grade: EvidenceQuality) => colors.evidence[grade]}
+              onToggle={(grade) =>
+                setNarrativeFilters((f) => ({
+                  ...f,
+                  evidenceQuality: toggle(f.evidenceQuality, grade),
+                }))
+              }
+            />
+            <FacetRow
+              title="Category"
+              facets={narrativeResult.facets.categories}
+              onToggle={(category) =>
+                setNarrativeFilters((f) => ({ ...f, categories: toggle(f.categories, category) }))
+              }
+            />
+            <FacetRow
+              title="Domain"
+              facets={narrativeResult.facets.domains}
+              onToggle={(domain) =>
+                setNarrativeFilters((f) => ({ ...f, domains: toggle(f.domains, domain) }))
+              }
+            />
+            <SortRow
+              options={NARRATIVE_SORTS}
+              sortBy={narrativeFilters.sortBy}
+              sortOrder={narrativeFilters.sortOrder}
+              onChange={(sortBy, sortOrder) =>
+                setNarrativeFilters((f) => ({ ...f, sortBy, sortOrder }))
+              }
+            />
+          </>
+        )}
       </View>
 
       {/* Results count */}
       <View style={styles.resultsHeader}>
         <Text style={styles.resultsCount}>
           {contentType === 'models'
-            ? `${filteredModels.length} model${filteredModels.length !== 1 ? 's' : ''}`
-            : `${filteredNarratives.length} narrative${filteredNarratives.length !== 1 ? 's' : ''}`}
+            ? `${resultCount} model${resultCount !== 1 ? 's' : ''}`
+            : `${resultCount} narrative${resultCount !== 1 ? 's' : ''}`}
         </Text>
+        {isFiltered && (
+          <Pressable onPress={clearFilters} hitSlop={8}>
+            <Text style={styles.clearText}>Clear filters</Text>
+          </Pressable>
+        )}
       </View>
 
       {/* Content */}
-      <ScrollView
-        style={styles.scrollView}
-        contentContainerStyle={styles.scrollContent}
-        showsVerticalScrollIndicator={false}
-      >
-        {contentType === 'models' ? (
-          <View style={styles.list}>
-            {filteredModels.map((model) => (
-              <MentalModelCard
-                key={model.id}
-                id={model.id}
-                code={model.code}
-                name={model.name}
-                description={model.description}
-                transformation={model.transformation}
-                difficulty={model.difficulty}
-              />
-            ))}
-          </View>
-        ) : (
-          <View style={styles.list}>
-            {filteredNarratives.map((narrative) => (
-              <NarrativeCard
-                key={narrative.id}
-                id={narrative.id}
-                title={narrative.title}
-                summary={narrative.summary}
-                category={narrative.category}
-                evidenceQuality={narrative.evidenceQuality}
-                confidence={narrative.confidence}
-              />
-            ))}
-          </View>
-        )}
-      </ScrollView>
+      {resultCount === 0 ? (
+        <EmptyState
+          icon="funnel-outline"
+          title="No matches"
+          message="No content matches every selected filter."
+          actionLabel={isFiltered ? 'Clear filters' : undefined}
+          onAction={clearFilters}
+        />
+      ) : (
+        <ScrollView
+          style={styles.scrollView}
+          contentContainerStyle={styles.scrollContent}
+          showsVerticalScrollIndicator={false}
+        >
+          {contentType === 'models' ? (
+            <View style={styles.list}>
+              {modelResult.items.map((model) => (
+                <MentalModelCard key={model.id} model={model} />
+              ))}
+            </View>
+          ) : (
+            <View style={styles.list}>
+              {narrativeResult.items.map((narrative) => (
+                <NarrativeCard key={narrative.id} narrative={narrative} />
+              ))}
+            </View>
+          )}
+        </ScrollView>
+      )}
     </View>
   );
 }
@@ -213,18 +389,33 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: colors.border.light,
   },
+  filterRow: {
+    paddingTop: spacing.sm,
+  },
+  filterRowTitle: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    paddingHorizontal: layout.screenPadding,
+    marginBottom: spacing.xs,
+  },
   filterScroll: {
     paddingHorizontal: layout.screenPadding,
-    paddingVertical: spacing.sm,
+    paddingBottom: spacing.xs,
     gap: spacing.xs,
   },
   filterChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
     paddingVertical: spacing.xs,
     paddingHorizontal: spacing.md,
     borderRadius: 16,
     backgroundColor: colors.background.secondary,
     marginRight: spacing.xs,
   },
+  filterChipDisabled: {
+    opacity: 0.4,
+  },
   filterChipText: {
     ...typography.labelSmall,
     color: colors.text.secondary,
@@ -233,6 +424,9 @@ const styles = StyleSheet.create({
     color: colors.text.inverse,
   },
   resultsHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
     paddingHorizontal: layout.screenPadding,
     paddingVertical: spacing.sm,
   },
@@ -240,6 +434,10 @@ const styles = StyleSheet.create({
     ...typography.caption,
     color: colors.text.secondary,
   },
+  clearText: {
+    ...typography.labelSmall,
+    color: colors.primary[500],
+  },
   scrollView: {
     flex: 1,
   },
@@ -4,8 +4,14 @@ import { View, Text, ScrollView, StyleSheet, Pressable } from 'react-native';
 import { Link } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, layout, typography } from '../../theme';
-import { SAMPLE_MODELS, SAMPLE_NARRATIVES } from '../../services/data';
-import { useBookmarks } from '@hummbl/shared';
+import { BookmarkStorageBanner, Loading } from '../../components';
+import {
+  getPrimaryTransformation,
+  useBookmarkCount,
+  useBookmarkStatus,
+  useContent,
+} from '@hummbl/shared';
+import type { MentalModel, Narrative } from '@hummbl/shared';
 
 interface QuickActionProps {
   icon: keyof typeof Ionicons.glyphMap;
@@ -33,21 +39,42 @@ function QuickAction({ icon, title, description, href, color }: QuickActionProps
 }
 
 // Featured model of the day (rotates based on date)
-const getFeaturedModel = () => {
-  const dayIndex = new Date().getDate() % SAMPLE_MODELS.length;
-  return SAMPLE_MODELS[dayIndex];
+const getFeaturedModel = (models: MentalModel[]): MentalModel | undefined => {
+  const dayIndex = new Date().getDate() % models.length;
+  return models[dayIndex];
 };
 
 // Featured narrative
-const getFeaturedNarrative = () => {
-  const dayIndex = new Date().getDate() % SAMPLE_NARRATIVES.length;
-  return SAMPLE_NARRATIVES[dayIndex];
+const getFeaturedNarrative = (narratives: Narrative[]): Narrative | undefined => {
+  const dayIndex = new Date().getDate() % narratives.length;
+  return narratives[dayIndex];
 };
 
 export default function HomeScreen() {
-  const { bookmarks } = useBookmarks();
-  const featuredModel = getFeaturedModel();
-  const featuredNarrative = getFeaturedNarrative();
+  const bookmarkCount = useBookmarkCount();
+  const {
+    isLoading: bookmarksLoading,
+    error: bookmarksError,
+    failedOperation,
+    retryStorage,
+  } = useBookmarkStatus();
+  const { models, narratives, isLoading } = useContent();
+
+  if (isLoading) {
+    return <Loading message="Loading content..." fullScreen />;
+  }
+
+  const featuredModel = getFeaturedModel(models);
+  const featuredNarrative = getFeaturedNarrative(narratives);
+
+  // Using IN2 (Premortem) - Don't claim nothing is saved before bookmarks have been read
+  const bookmarksDescription = bookmarksLoading
+    ? 'Loading saved items…'
+    : failedOperation === 'read'
+      ? "Saved items couldn't be loaded"
+      : bookmarkCount > 0
+        ? `${bookmarkCount} saved items`
+        : 'Your saved items';
 
   return (
     <ScrollView style={styles.container} contentContainerStyle={styles.content}>
@@ -60,24 +87,26 @@ export default function HomeScreen() {
       </View>
 
       {/* Daily Insight */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Today's Model</Text>
-        <Link href={`/mental-models/${featuredModel.id}` as any} asChild>
-          <Pressable style={styles.featuredCard}>
-            <View style={[styles.featuredBadge, { backgroundColor: colors.transformations[featuredModel.transformation] }]}>
-              <Text style={styles.featuredBadgeText}>{featuredModel.code}</Text>
-            </View>
-            <Text style={styles.featuredTitle}>{featuredModel.name}</Text>
-            <Text style={styles.featuredDescription} numberOfLines={2}>
-              {featuredModel.description}
-            </Text>
-            <View style={styles.featuredFooter}>
-              <Text style={styles.featuredCategory}>{featuredModel.category}</Text>
-              <Ionicons name="arrow-forward" size={16} color={colors.primary[500]} />
-            </View>
-          </Pressable>
-        </Link>
-      </View>
+      {featuredModel && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Today's Model</Text>
+          <Link href={`/mental-models/${featuredModel.id}` as any} asChild>
+            <Pressable style={styles.featuredCard}>
+              <View style={[styles.featuredBadge, { backgroundColor: colors.transformations[getPrimaryTransformation(featuredModel)] }]}>
+                <Text style={styles.featuredBadgeText}>{featuredModel.code}</Text>
+              </View>
+              <Text style={styles.featuredTitle}>{featuredModel.name}</Text>
+              <Text style={styles.featuredDescription} numberOfLines={2}>
+                {featuredModel.description}
+              </Text>
+              <View style={styles.featuredFooter}>
+                <Text style={styles.featuredCategory}>{featuredModel.category}</Text>
+                <Ionicons name="arrow-forward" size={16} color={colors.primary[500]} />
+              </View>
+            </Pressable>
+          </Link>
+        </View>
+      )}
 
       {/* Quick actions */}
       <View style={styles.section}>
@@ -86,7 +115,7 @@ export default function HomeScreen() {
         <QuickAction
           icon="grid"
           title="Mental Models"
-          description={`${SAMPLE_MODELS.length} thinking frameworks`}
+          description={`${models.length} thinking frameworks`}
           href="/explore"
           color={colors.transformations.DE}
         />
@@ -94,7 +123,7 @@ export default function HomeScreen() {
         <QuickAction
           icon="document-text"
           title="Narratives"
-          description={`${SAMPLE_NARRATIVES.length} evidence-based insights`}
+          description={`${narratives.length} evidence-based insights`}
           href="/explore"
           color={colors.transformations.SY}
         />
@@ -110,41 +139,47 @@ export default function HomeScreen() {
         <QuickAction
           icon="bookmark"
           title="Bookmarks"
-          description={bookmarks.length > 0 ? `${bookmarks.length} saved items` : 'Your saved items'}
+          description={bookmarksDescription}
           href="/bookmarks"
           color={colors.transformations.P}
         />
+        <BookmarkStorageBanner
+          error={failedOperation ? bookmarksError : null}
+          onRetry={retryStorage}
+        />
       </View>
 
       {/* Featured Narrative */}
-      <View style={styles.section}>
-        <Text style={styles.sectionTitle}>Featured Narrative</Text>
-        <Link href={`/narratives/${featuredNarrative.id}` as any} asChild>
-          <Pressable style={styles.narrativeCard}>
-            <View style={styles.narrativeHeader}>
-              <View style={[styles.evidenceBadge, { backgroundColor: colors.evidence[featuredNarrative.evidenceQuality] }]}>
-                <Text style={styles.evidenceBadgeText}>
-                  {featuredNarrative.evidenceQuality === 'A' ? 'Strong' : featuredNarrative.evidenceQuality === 'B' ? 'Moderate' : 'Limited'}
+      {featuredNarrative && (
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Featured Narrative</Text>
+          <Link href={`/narratives/${featuredNarrative.id}` as any} asChild>
+            <Pressable style={styles.narrativeCard}>
+              <View style={styles.narrativeHeader}>
+                <View style={[styles.evidenceBadge, { backgroundColor: colors.evidence[featuredNarrative.evidence_quality] }]}>
+                  <Text style={styles.evidenceBadgeText}>
+                    {featuredNarrative.evidence_quality === 'A' ? 'Strong' : featuredNarrative.evidence_quality === 'B' ? 'Moderate' : 'Limited'}
+                  </Text>
+                </View>
+                <Text style={styles.confidenceText}>
+                  {Math.round(featuredNarrative.confidence * 100)}% confidence
                 </Text>
               </View>
-              <Text style={styles.confidenceText}>
-                {Math.round(featuredNarrative.confidence * 100)}% confidence
+              <Text style={styles.narrativeTitle}>{featuredNarrative.title}</Text>
+              <Text style={styles.narrativeDescription} numberOfLines={2}>
+                {featuredNarrative.summary}
               </Text>
-            </View>
-            <Text style={styles.narrativeTitle}>{featuredNarrative.title}</Text>
-            <Text style={styles.narrativeDescription} numberOfLines={2}>
-              {featuredNarrative.summary}
-            </Text>
-          </Pressable>
-        </Link>
-      </View>
+            </Pressable>
+          </Link>
+        </View>
+      )}
 
       {/* Stats section */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>At a Glance</Text>
         <View style={styles.statsRow}>
           <View style={styles.statCard}>
-            <Text style={styles.statNumber}>{SAMPLE_MODELS.length}</Text>
+            <Text style={styles.statNumber}>{models.length}</Text>
             <Text style={styles.statLabel}>Models</Text>
           </View>
           <View style={styles.statCard}>
@@ -152,7 +187,7 @@ export default function HomeScreen() {
             <Text style={styles.statLabel}>Domains</Text>
           </View>
           <View style={styles.statCard}>
-            <Text style={styles.statNumber}>{SAMPLE_NARRATIVES.length}</Text>
+            <Text style={styles.statNumber}>{narratives.length}</Text>
             <Text style={styles.statLabel}>Narratives</Text>
           </View>
         </View>
@@ -1,10 +1,11 @@
 // Using P1 (First Principles) - Profile and settings screen
 
-import { View, Text, ScrollView, StyleSheet, Pressable, Switch } from 'react-native';
+import { View, Text, ScrollView, StyleSheet, Pressable, Switch, Alert } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { useState } from 'react';
 import { colors, spacing, layout, typography } from '../../theme';
-import { useBookmarks } from '@hummbl/shared';
+import { BookmarkStorageBanner } from '../../components';
+import { useBookmarkCount, useBookmarkStatus, useOfflineContent } from '@hummbl/shared';
 
 interface SettingRowProps {
   icon: keyof typeof Ionicons.glyphMap;
@@ -38,10 +39,51 @@ function SettingRow({ icon, title, subtitle, onPress, rightElement }: SettingRow
 }
 
 export default function ProfileScreen() {
-  const { bookmarks, modelBookmarks, narrativeBookmarks } = useBookmarks();
+  const counts = {
+    all: useBookmarkCount(),
+    models: useBookmarkCount('mental-model'),
+    narratives: useBookmarkCount('narrative'),
+  };
+  const {
+    isLoading: bookmarksLoading,
+    error: bookmarksError,
+    failedOperation,
+    retryStorage,
+  } = useBookmarkStatus();
+  // Counts are unknown, not zero, until bookmarks have been read
+  const countsUnknown = bookmarksLoading || failedOperation === 'read';
+  const count = (value: number) => (countsUnknown ? '–' : value);
   const [darkMode, setDarkMode] = useState(false);
   const [notifications, setNotifications] = useState(true);
-  const [offlineMode, setOfflineMode] = useState(false);
+  const {
+    offlineMode,
+    setOfflineMode,
+    isDownloading,
+    progress,
+    storageSize,
+    cachedModels,
+    cachedNarratives,
+    hasOfflineContent,
+    error: offlineError,
+    downloadAll,
+    clearCache,
+  } = useOfflineContent();
+
+  // Using RE2 (Feedback Loops) - Rows describe what is actually on the device
+  const downloadSubtitle = isDownloading
+    ? `Downloading ${progress.phase ?? 'content'}… ${Math.round(progress.fraction * 100)}%`
+    : offlineError
+      ? offlineError
+      : hasOfflineContent
+        ? `${cachedModels} models, ${cachedNarratives} narratives saved`
+        : 'Make all content available offline';
+
+  const handleClearCache = () => {
+    Alert.alert('Clear Cache', `Remove ${storageSize} of downloaded content?`, [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Clear', style: 'destructive', onPress: () => void clearCache() },
+    ]);
+  };
 
   return (
     <ScrollView
@@ -61,21 +103,27 @@ export default function ProfileScreen() {
       {/* Stats */}
       <View style={styles.statsSection}>
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{bookmarks.length}</Text>
+          <Text style={styles.statNumber}>{count(counts.all)}</Text>
           <Text style={styles.statLabel}>Bookmarks</Text>
         </View>
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{modelBookmarks.length}</Text>
+          <Text style={styles.statNumber}>{count(counts.models)}</Text>
           <Text style={styles.statLabel}>Models</Text>
         </View>
         <View style={styles.statDivider} />
         <View style={styles.statItem}>
-          <Text style={styles.statNumber}>{narrativeBookmarks.length}</Text>
+          <Text style={styles.statNumber}>{count(counts.narratives)}</Text>
           <Text style={styles.statLabel}>Narratives</Text>
         </View>
       </View>
 
+      {failedOperation && (
+        <View style={styles.section}>
+          <BookmarkStorageBanner error={bookmarksError} onRetry={retryStorage} />
+        </View>
+      )}
+
       {/* Preferences */}
       <View style={styles.section}>
         <Text style={styles.sectionTitle}>Preferences</Text>
@@ -112,7 +160,7 @@ export default function ProfileScreen() {
           <SettingRow
             icon="cloud-offline"
             title="Offline Mode"
-            subtitle="Save content for offline access"
+            subtitle={offlineMode ? 'Using downloaded content only' : 'Never use the network'}
             rightElement={
               <Switch
                 value={offlineMode}
@@ -132,15 +180,15 @@ export default function ProfileScreen() {
           <SettingRow
             icon="download"
             title="Download All Content"
-            subtitle="Make all models available offline"
-            onPress={() => {}}
+            subtitle={downloadSubtitle}
+            onPress={isDownloading ? undefined : () => void downloadAll()}
           />
           <View style={styles.settingDivider} />
           <SettingRow
             icon="trash"
             title="Clear Cache"
-            subtitle="Free up storage space"
-            onPress={() => {}}
+            subtitle={hasOfflineContent ? `${storageSize} used` : 'Nothing downloaded'}
+            onPress={hasOfflineContent ? handleClearCache : undefined}
           />
         </View>
       </View>
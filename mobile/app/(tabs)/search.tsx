@@ -1,49 +1,132 @@
-// Using SY8 (Systems) - Search screen with fuzzy matching
+// Using SY8 (Systems) - Search screen backed by prebuilt search indexes
 
 import { useState, useMemo, useCallback } from 'react';
 import { View, Text, TextInput, ScrollView, StyleSheet, Pressable } from 'react-native';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, layout, typography } from '../../theme';
-import { MentalModelCard, NarrativeCard } from '../../components';
-import { SAMPLE_MODELS, SAMPLE_NARRATIVES } from '../../services/data';
-import { fuzzySearch } from '@hummbl/shared';
+import { SearchResultCard } from '../../components';
+import {
+  createAutocompleteProvider,
+  createSearchIndex,
+  evaluateQuery,
+  extractSnippet,
+  getNestedValue,
+  getPrimaryTransformation,
+  isPlainTextQuery,
+  parseQuery,
+  useContent,
+  useSearchHistory,
+  MODEL_QUERY_SCHEMA,
+  NARRATIVE_QUERY_SCHEMA,
+  SEARCH_QUERY_FIELDS,
+} from '@hummbl/shared';
+import type { MatchRanges, Snippet } from '@hummbl/shared';
 
-const SUGGESTIONS = ['First Principles', 'Systems', 'Decision Making', 'Risk', 'Feedback'];
+// Long text gets a snippet; the first of these with a hit is shown under the title
+const SNIPPET_FIELDS = [
+  'description',
+  'summary',
+  'content',
+  'example',
+  'tags',
+  'domain',
+  'category',
+];
+
+function snippetFor(item: object, ranges: MatchRanges, fallbackKey: string): Snippet {
+  const key = SNIPPET_FIELDS.find((field) => ranges[field]?.length) ?? fallbackKey;
+  const text = getNestedValue(item, key);
+  return extractSnippet(text, ranges[key] ?? [], { maxLength: 140 });
+}
+
+// `type:` filters every result, so it says nothing about where this one matched
+const describeMatches = (matches: string[]): string[] =>
+  Array.from(new Set(matches.filter((m) => m !== 'type').map((m) => (m === 'tag' ? 'tags' : m))));
 
 export default function SearchScreen() {
   const [query, setQuery] = useState('');
-  const [recentSearches, setRecentSearches] = useState(['systems', 'cognitive', 'decision']);
+  const { models, narratives } = useContent();
+  const { entries, recentSearches, recordSearch, removeSearch, clearHistory } = useSearchHistory();
+
+  // Using SY8 (Systems) - Index once per content load; each keystroke is then a lookup, not a scan
+  const modelIndex = useMemo(
+    () =>
+      createSearchIndex(models, {
+        fields: [
+          { key: 'code', boost: 3 },
+          { key: 'name', boost: 2 },
+          { key: 'tags', boost: 1.5 },
+          'description',
+          'example',
+        ],
+      }),
+    [models]
+  );
+
+  const narrativeIndex = useMemo(
+    () =>
+      createSearchIndex(narratives, {
+        fields: [
+          { key: 'title', boost: 3 },
+          { key: 'tags', boost: 1.5 },
+          { key: 'category', boost: 1.5 },
+          'summary',
+          'domain',
+          'content',
+        ],
+      }),
+    [narratives]
+  );
+
+  const autocomplete = useMemo(
+    () => createAutocompleteProvider({ models, narratives }),
+    [models, narratives]
+  );
+
+  // Using IN3 (Avoiding Stupidity) - Surface query mistakes instead of quietly searching for the wrong thing
+  const parsed = useMemo(() => parseQuery(query, { fields: SEARCH_QUERY_FIELDS }), [query]);
+
+  // Completions only make sense while typing plain words; an empty query gets popular topics
+  const suggestions = useMemo(() => {
+    if (query.trim() && !(parsed.ok && isPlainTextQuery(parsed.ast))) return [];
+    return autocomplete.suggest(query, { history: entries, limit: query.trim() ? 5 : 8 });
+  }, [query, parsed, autocomplete, entries]);
 
   const results = useMemo(() => {
-    if (!query.trim()) return [];
+    if (!query.trim() || !parsed.ok) return [];
 
-    // Search both models and narratives
-    const modelResults = fuzzySearch(
-      SAMPLE_MODELS.map((m) => ({ ...m, searchText: `${m.code} ${m.name} ${m.description}` })),
-      query,
-      { keys: ['name', 'code', 'description', 'tags'], threshold: 0.4, limit: 10 }
-    ).map((r) => ({ type: 'model' as const, item: r.item, score: r.score }));
+    // Plain words use the index; field filters, phrases and operators go through the evaluator
+    const plain = isPlainTextQuery(parsed.ast);
+    const modelResults = (
+      plain
+        ? modelIndex.search(query, { limit: 20 })
+        : evaluateQuery(models, parsed.ast, MODEL_QUERY_SCHEMA, { threshold: 0.4, limit: 20 })
+    ).map((r) => ({ type: 'model' as const, ...r, ranges: r.ranges ?? {} }));
 
-    const narrativeResults = fuzzySearch(
-      SAMPLE_NARRATIVES.map((n) => ({ ...n, searchText: `${n.title} ${n.summary}` })),
-      query,
-      { keys: ['title', 'summary', 'category', 'tags'], threshold: 0.4, limit: 10 }
-    ).map((r) => ({ type: 'narrative' as const, item: r.item, score: r.score }));
+    const narrativeResults = (
+      plain
+        ? narrativeIndex.search(query, { limit: 20 })
+        : evaluateQuery(narratives, parsed.ast, NARRATIVE_QUERY_SCHEMA, {
+            threshold: 0.4,
+            limit: 20,
+          })
+    ).map((r) => ({ type: 'narrative' as const, ...r, ranges: r.ranges ?? {} }));
 
     // Combine and sort by score
     return [...modelResults, ...narrativeResults].sort((a, b) => b.score - a.score);
-  }, [query]);
+  }, [query, parsed, models, narratives, modelIndex, narrativeIndex]);
 
   const clearSearch = useCallback(() => {
     setQuery('');
   }, []);
 
-  const handleSearch = useCallback((searchQuery: string) => {
-    setQuery(searchQuery);
-    if (searchQuery.trim() && !recentSearches.includes(searchQuery.toLowerCase())) {
-      setRecentSearches((prev) => [searchQuery.toLowerCase(), ...prev.slice(0, 4)]);
-    }
-  }, [recentSearches]);
+  const handleSearch = useCallback(
+    (searchQuery: string) => {
+      setQuery(searchQuery);
+      recordSearch(searchQuery);
+    },
+    [recordSearch]
+  );
 
   return (
     <View style={styles.container}>
@@ -53,7 +136,7 @@ export default function SearchScreen() {
           <Ionicons name="search" size={20} color={colors.text.secondary} />
           <TextInput
             style={styles.searchInput}
-            placeholder="Search models, narratives..."
+            placeholder='Search, or try tag:risk "feedback loop"'
             placeholderTextColor={colors.text.secondary}
             value={query}
             onChangeText={setQuery}
@@ -68,6 +151,17 @@ export default function SearchScreen() {
             </Pressable>
           )}
         </View>
+        {!parsed.ok && (
+          <View style={styles.queryError}>
+            <Ionicons name="alert-circle" size={16} color={colors.error} />
+            <Text style={styles.queryErrorText}>
+              {parsed.errors[0].message}
+              {parsed.errors[0].position >= query.length
+                ? ' (at end of query)'
+                : ` (at "${query.slice(parsed.errors[0].position, parsed.errors[0].position + 16)}")`}
+            </Text>
+          </View>
+        )}
       </View>
 
       <ScrollView
@@ -75,6 +169,30 @@ export default function SearchScreen() {
         contentContainerStyle={styles.scrollContent}
         keyboardShouldPersistTaps="handled"
       >
+        {query.trim() && suggestions.length > 0 && (
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            keyboardShouldPersistTaps="handled"
+            contentContainerStyle={styles.autocompleteRow}
+          >
+            {suggestions.map((suggestion) => (
+              <Pressable
+                key={`${suggestion.kind}-${suggestion.text}`}
+                style={styles.suggestionChip}
+                onPress={() => handleSearch(suggestion.text)}
+              >
+                <Ionicons
+                  name={suggestion.kind === 'history' ? 'time-outline' : 'search-outline'}
+                  size={14}
+                  color={colors.text.secondary}
+                />
+                <Text style={styles.suggestionText}>{suggestion.text}</Text>
+              </Pressable>
+            ))}
+          </ScrollView>
+        )}
+
         {query.trim() ? (
           // Search results
           results.length > 0 ? (
@@ -82,36 +200,40 @@ export default function SearchScreen() {
               <Text style={styles.resultsCount}>
                 {results.length} result{results.length !== 1 ? 's' : ''}
               </Text>
-              {results.map((result) => (
+              {results.map((result) =>
                 result.type === 'model' ? (
-                  <MentalModelCard
+                  <SearchResultCard
                     key={`model-${result.item.id}`}
-                    id={result.item.id}
-                    code={(result.item as typeof SAMPLE_MODELS[0]).code}
-                    name={(result.item as typeof SAMPLE_MODELS[0]).name}
-                    description={(result.item as typeof SAMPLE_MODELS[0]).description}
-                    transformation={(result.item as typeof SAMPLE_MODELS[0]).transformation}
-                    difficulty={(result.item as typeof SAMPLE_MODELS[0]).difficulty}
+                    href={`/mental-models/${result.item.id}`}
+                    badge={result.item.code}
+                    color={colors.transformations[getPrimaryTransformation(result.item)]}
+                    title={result.item.name}
+                    titleRanges={result.ranges.name}
+                    snippet={snippetFor(result.item, result.ranges, 'description')}
+                    matchedFields={describeMatches(result.matches)}
                   />
                 ) : (
-                  <NarrativeCard
+                  <SearchResultCard
                     key={`narrative-${result.item.id}`}
-                    id={result.item.id}
-                    title={(result.item as typeof SAMPLE_NARRATIVES[0]).title}
-                    summary={(result.item as typeof SAMPLE_NARRATIVES[0]).summary}
-                    category={(result.item as typeof SAMPLE_NARRATIVES[0]).category}
-                    evidenceQuality={(result.item as typeof SAMPLE_NARRATIVES[0]).evidenceQuality}
-                    confidence={(result.item as typeof SAMPLE_NARRATIVES[0]).confidence}
+                    href={`/narratives/${result.item.id}`}
+                    badge={`Evidence ${result.item.evidence_quality}`}
+                    color={colors.evidence[result.item.evidence_quality]}
+                    title={result.item.title}
+                    titleRanges={result.ranges.title}
+                    snippet={snippetFor(result.item, result.ranges, 'summary')}
+                    matchedFields={describeMatches(result.matches)}
                   />
                 )
-              ))}
+              )}
             </View>
           ) : (
             <View style={styles.emptyState}>
               <Ionicons name="search-outline" size={48} color={colors.text.secondary} />
               <Text style={styles.emptyStateTitle}>No results found</Text>
               <Text style={styles.emptyStateText}>
-                Try searching with different keywords
+                {parsed.ok
+                  ? 'Try searching with different keywords'
+                  : 'Fix the query above to see results'}
               </Text>
             </View>
           )
@@ -120,34 +242,50 @@ export default function SearchScreen() {
           <View style={styles.recentSection}>
             {recentSearches.length > 0 && (
               <>
-                <Text style={styles.sectionTitle}>Recent Searches</Text>
-                {recentSearches.map((search, index) => (
+                <View style={styles.sectionHeader}>
+                  <Text style={styles.sectionTitle}>Recent Searches</Text>
+                  <Pressable onPress={clearHistory} hitSlop={8}>
+                    <Text style={styles.clearText}>Clear</Text>
+                  </Pressable>
+                </View>
+                {recentSearches.map((search) => (
                   <Pressable
-                    key={index}
+                    key={search}
                     style={styles.recentItem}
-                    onPress={() => setQuery(search)}
+                    onPress={() => handleSearch(search)}
                   >
                     <Ionicons name="time-outline" size={18} color={colors.text.secondary} />
                     <Text style={styles.recentText}>{search}</Text>
+                    <Pressable
+                      onPress={() => removeSearch(search)}
+                      hitSlop={8}
+                      accessibilityLabel={`Remove ${search} from recent searches`}
+                    >
+                      <Ionicons name="close" size={18} color={colors.text.secondary} />
+                    </Pressable>
                   </Pressable>
                 ))}
               </>
             )}
 
-            <Text style={[styles.sectionTitle, { marginTop: spacing.lg }]}>
-              Suggestions
-            </Text>
-            <View style={styles.suggestionsGrid}>
-              {SUGGESTIONS.map((suggestion) => (
-                <Pressable
-                  key={suggestion}
-                  style={styles.suggestionChip}
-                  onPress={() => setQuery(suggestion)}
-                >
-                  <Text style={styles.suggestionText}>{suggestion}</Text>
-                </Pressable>
-              ))}
-            </View>
+            {suggestions.length > 0 && (
+              <>
+                <Text style={[styles.sectionTitle, { marginTop: spacing.lg }]}>
+                  Suggestions
+                </Text>
+                <View style={styles.suggestionsGrid}>
+                  {suggestions.map((suggestion) => (
+                    <Pressable
+                      key={`${suggestion.kind}-${suggestion.text}`}
+                      style={styles.suggestionChip}
+                      onPress={() => handleSearch(suggestion.text)}
+                    >
+                      <Text style={styles.suggestionText}>{suggestion.text}</Text>
+                    </Pressable>
+                  ))}
+                </View>
+              </>
+            )}
 
             {/* Transformation quick filters */}
             <Text style={[styles.sectionTitle, { marginTop: spacing.lg }]}>
@@ -197,6 +335,17 @@ const styles = StyleSheet.create({
     color: colors.text.primary,
     paddingVertical: spacing.md,
   },
+  queryError: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    gap: spacing.xs,
+    marginTop: spacing.sm,
+  },
+  queryErrorText: {
+    ...typography.bodySmall,
+    color: colors.error,
+    flex: 1,
+  },
   scrollView: {
     flex: 1,
   },
@@ -226,6 +375,20 @@ const styles = StyleSheet.create({
     marginTop: spacing.xs,
   },
   recentSection: {},
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  clearText: {
+    ...typography.labelSmall,
+    color: colors.primary[500],
+    marginBottom: spacing.sm,
+  },
+  autocompleteRow: {
+    gap: spacing.sm,
+    paddingBottom: spacing.md,
+  },
   sectionTitle: {
     ...typography.labelMedium,
     color: colors.text.secondary,
@@ -240,6 +403,7 @@ const styles = StyleSheet.create({
   recentText: {
     ...typography.bodyMedium,
     color: colors.text.primary,
+    flex: 1,
   },
   suggestionsGrid: {
     flexDirection: 'row',
@@ -247,6 +411,9 @@ const styles = StyleSheet.create({
     gap: spacing.sm,
   },
   suggestionChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.xs,
     backgroundColor: colors.background.primary,
     paddingVertical: spacing.sm,
     paddingHorizontal: spacing.md,
@@ -3,11 +3,44 @@
 import { Stack } from 'expo-router';
 import { StatusBar } from 'expo-status-bar';
 import { colors } from '../theme';
-import { initializeBookmarkStore } from '@hummbl/shared';
-import { asyncStorageAdapter } from '../services/storage';
+import {
+  bundledContentSource,
+  getContentStoreHook,
+  initializeBookmarkStore,
+  initializeContentStore,
+  initializeOfflineStore,
+  initializeSearchHistoryStore,
+} from '@hummbl/shared';
+import { lenientPlatformStorage, platformStorage } from '../services/storage';
+import {
+  cachedContentSource,
+  contentApiClient,
+  contentCache,
+  syncRemoteContent,
+} from '../services/content';
 
-// Initialize store with AsyncStorage on app load
-initializeBookmarkStore(asyncStorageAdapter);
+// Bookmarks report and recover from storage failures; search history just starts empty
+initializeBookmarkStore(platformStorage);
+initializeSearchHistoryStore(lenientPlatformStorage);
+
+// Load bundled content, overridden by anything previously synced into the cache
+initializeContentStore([bundledContentSource, cachedContentSource]);
+
+// Offline downloads write to the same cache, so reload content whenever it changes
+initializeOfflineStore({
+  storage: lenientPlatformStorage,
+  cache: contentCache,
+  client: contentApiClient,
+  onContentChanged: () => getContentStoreHook().getState().loadContent(),
+});
+
+// Using RE2 (Feedback Loops) - Revalidate against the API in the background, reload only on change
+void syncRemoteContent().then((result) => {
+  const changed = (status: string) => status === 'updated' || status === 'patched';
+  if (result && (changed(result.models) || changed(result.narratives))) {
+    void getContentStoreHook().getState().loadContent();
+  }
+});
 
 export default function RootLayout() {
   return (
@@ -4,8 +4,15 @@ import { View, Text, ScrollView, StyleSheet, Pressable } from 'react-native';
 import { useLocalSearchParams, Stack, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, layout, typography } from '../../theme';
-import { useBookmarks } from '@hummbl/shared';
-import { getModelById } from '../../services/data';
+import {
+  getModelDifficulty,
+  getPrimaryTransformation,
+  useBookmarkToggle,
+  useIsBookmarked,
+  useContent,
+  useRelatedContent,
+} from '@hummbl/shared';
+import { Loading, RelatedItemCard } from '../../components';
 
 const transformationColors: Record<string, string> = {
   P: colors.transformations.P,
@@ -18,10 +25,18 @@ const transformationColors: Record<string, string> = {
 
 export default function MentalModelDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { isBookmarked, toggleBookmark } = useBookmarks();
+  // Only this item's bookmark state, so other bookmark changes don't re-render the screen
+  const bookmarked = useIsBookmarked(id || '', 'mental-model');
+  const { toggleBookmark } = useBookmarkToggle();
+  const { getModelById, isLoading } = useContent();
+  const { similarModels, relatedNarratives } = useRelatedContent('model', id || '');
 
   const model = getModelById(id || '');
 
+  if (!model && isLoading) {
+    return <Loading fullScreen />;
+  }
+
   if (!model) {
     return (
       <>
@@ -38,8 +53,8 @@ export default function MentalModelDetailScreen() {
     );
   }
 
-  const color = transformationColors[model.transformation] || colors.primary[500];
-  const bookmarked = isBookmarked(model.id, 'mental-model');
+  const color = transformationColors[getPrimaryTransformation(model)] || colors.primary[500];
+  const difficulty = getModelDifficulty(model);
 
   const handleBookmark = () => {
     toggleBookmark({
@@ -83,12 +98,14 @@ export default function MentalModelDetailScreen() {
               <Ionicons name="folder" size={14} color={colors.text.secondary} />
               <Text style={styles.metaText}>{model.category}</Text>
             </View>
-            <View style={styles.metaItem}>
-              <Ionicons name="speedometer" size={14} color={colors.text.secondary} />
-              <Text style={styles.metaText}>
-                Difficulty: {model.difficulty}/5
-              </Text>
-            </View>
+            {difficulty !== undefined && (
+              <View style={styles.metaItem}>
+                <Ionicons name="speedometer" size={14} color={colors.text.secondary} />
+                <Text style={styles.metaText}>
+                  Difficulty: {difficulty}/5
+                </Text>
+              </View>
+            )}
           </View>
         </View>
 
@@ -150,6 +167,39 @@ export default function MentalModelDetailScreen() {
             </View>
           </View>
         )}
+
+        {/* Recommendations */}
+        {similarModels.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Similar Models</Text>
+            {similarModels.map(({ item, sharedTerms }) => (
+              <RelatedItemCard
+                key={item.id}
+                href={`/mental-models/${item.id}`}
+                badge={item.code}
+                color={colors.transformations[getPrimaryTransformation(item)]}
+                title={item.name}
+                sharedTerms={sharedTerms}
+              />
+            ))}
+          </View>
+        )}
+
+        {relatedNarratives.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Related Narratives</Text>
+            {relatedNarratives.map(({ item, sharedTerms }) => (
+              <RelatedItemCard
+                key={item.id}
+                href={`/narratives/${item.id}`}
+                badge={item.evidence_quality}
+                color={colors.evidence[item.evidence_quality]}
+                title={item.title}
+                sharedTerms={sharedTerms}
+              />
+            ))}
+          </View>
+        )}
       </ScrollView>
     </>
   );
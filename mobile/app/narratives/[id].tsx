@@ -4,8 +4,15 @@ import { View, Text, ScrollView, StyleSheet, Pressable } from 'react-native';
 import { useLocalSearchParams, Stack, router } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, layout, typography } from '../../theme';
-import { useBookmarks } from '@hummbl/shared';
-import { getNarrativeById } from '../../services/data';
+import {
+  getPrimaryTransformation,
+  useBookmarkToggle,
+  useIsBookmarked,
+  useContent,
+  useRelatedContent,
+} from '@hummbl/shared';
+import type { ProvenanceStatus } from '@hummbl/shared';
+import { Loading, RelatedItemCard } from '../../components';
 
 const evidenceColors: Record<string, string> = {
   A: colors.evidence.A,
@@ -13,12 +20,32 @@ const evidenceColors: Record<string, string> = {
   C: colors.evidence.C,
 };
 
+const provenanceDisplay: Record<
+  ProvenanceStatus,
+  { label: string; icon: keyof typeof Ionicons.glyphMap; color: string }
+> = {
+  verified: { label: 'Verified', icon: 'shield-checkmark', color: colors.success },
+  unsigned: { label: 'Not signed', icon: 'shield-outline', color: colors.warning },
+  mismatch: { label: 'Hash mismatch', icon: 'warning', color: colors.error },
+};
+
+// Using P1 (First Principles) - Show enough of the hash to compare by eye
+const shortHash = (hash: string) => (hash ? hash.replace(/^sha256:/, '').slice(0, 16) : '—');
+
 export default function NarrativeDetailScreen() {
   const { id } = useLocalSearchParams<{ id: string }>();
-  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const bookmarked = useIsBookmarked(id || '', 'narrative');
+  const { toggleBookmark } = useBookmarkToggle();
+  const { getNarrativeById, getNarrativeProvenance, narrativesLastUpdated, isLoading } =
+    useContent();
+  const { similarModels, relatedNarratives } = useRelatedContent('narrative', id || '');
 
   const narrative = getNarrativeById(id || '');
 
+  if (!narrative && isLoading) {
+    return <Loading fullScreen />;
+  }
+
   if (!narrative) {
     return (
       <>
@@ -35,8 +62,10 @@ export default function NarrativeDetailScreen() {
     );
   }
 
-  const evidenceColor = evidenceColors[narrative.evidenceQuality] || colors.evidence.C;
-  const bookmarked = isBookmarked(narrative.id, 'narrative');
+  const evidenceColor = evidenceColors[narrative.evidence_quality] || colors.evidence.C;
+  const provenance = getNarrativeProvenance(narrative.id);
+  const provenanceInfo = provenance ? provenanceDisplay[provenance.status] : null;
+  const lastUpdated = narrative.lastUpdated ?? narrativesLastUpdated;
 
   const handleBookmark = () => {
     toggleBookmark({
@@ -73,7 +102,7 @@ export default function NarrativeDetailScreen() {
           <View style={styles.headerTop}>
             <View style={[styles.evidenceBadge, { backgroundColor: evidenceColor }]}>
               <Text style={styles.evidenceBadgeText}>
-                Evidence: {narrative.evidenceQuality}
+                Evidence: {narrative.evidence_quality}
               </Text>
             </View>
             <Text style={styles.confidence}>
@@ -90,7 +119,7 @@ export default function NarrativeDetailScreen() {
             {narrative.complexity && (
               <View style={styles.metaItem}>
                 <Ionicons name="time" size={14} color={colors.text.secondary} />
-                <Text style={styles.metaText}>{narrative.complexity.timeToElicit}</Text>
+                <Text style={styles.metaText}>{narrative.complexity.time_to_elicit}</Text>
               </View>
             )}
           </View>
@@ -111,15 +140,15 @@ export default function NarrativeDetailScreen() {
             <View style={styles.complexityGrid}>
               <View style={styles.complexityItem}>
                 <Text style={styles.complexityLabel}>Cognitive Load</Text>
-                <Text style={styles.complexityValue}>{narrative.complexity.cognitiveLoad}</Text>
+                <Text style={styles.complexityValue}>{narrative.complexity.cognitive_load}</Text>
               </View>
               <View style={styles.complexityItem}>
                 <Text style={styles.complexityLabel}>Time Required</Text>
-                <Text style={styles.complexityValue}>{narrative.complexity.timeToElicit}</Text>
+                <Text style={styles.complexityValue}>{narrative.complexity.time_to_elicit}</Text>
               </View>
               <View style={styles.complexityItem}>
                 <Text style={styles.complexityLabel}>Expertise</Text>
-                <Text style={styles.complexityValue}>{narrative.complexity.expertiseRequired}</Text>
+                <Text style={styles.complexityValue}>{narrative.complexity.expertise_required}</Text>
               </View>
             </View>
           </View>
@@ -162,6 +191,80 @@ export default function NarrativeDetailScreen() {
             ))}
           </View>
         )}
+
+        {/* Recommendations */}
+        {similarModels.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Similar Models</Text>
+            {similarModels.map(({ item, sharedTerms }) => (
+              <RelatedItemCard
+                key={item.id}
+                href={`/mental-models/${item.id}`}
+                badge={item.code}
+                color={colors.transformations[getPrimaryTransformation(item)]}
+                title={item.name}
+                sharedTerms={sharedTerms}
+              />
+            ))}
+          </View>
+        )}
+
+        {relatedNarratives.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Related Narratives</Text>
+            {relatedNarratives.map(({ item, sharedTerms }) => (
+              <RelatedItemCard
+                key={item.id}
+                href={`/narratives/${item.id}`}
+                badge={item.evidence_quality}
+                color={colors.evidence[item.evidence_quality]}
+                title={item.title}
+                sharedTerms={sharedTerms}
+              />
+            ))}
+          </View>
+        )}
+
+        {/* Provenance */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Provenance</Text>
+          {provenanceInfo && (
+            <View style={[styles.provenanceStatus, { borderColor: provenanceInfo.color }]}>
+              <Ionicons name={provenanceInfo.icon} size={18} color={provenanceInfo.color} />
+              <Text style={[styles.provenanceStatusText, { color: provenanceInfo.color }]}>
+                {provenanceInfo.label}
+              </Text>
+            </View>
+          )}
+          {provenance?.status === 'mismatch' && (
+            <Text style={styles.provenanceWarning}>
+              This narrative's content no longer matches its recorded hash. It may have been
+              modified or corrupted; verify before citing.
+            </Text>
+          )}
+          <View style={styles.provenanceRow}>
+            <Text style={styles.provenanceLabel}>ID</Text>
+            <Text style={styles.provenanceValue}>{narrative.narrative_id}</Text>
+          </View>
+          <View style={styles.provenanceRow}>
+            <Text style={styles.provenanceLabel}>Version</Text>
+            <Text style={styles.provenanceValue}>{narrative.version}</Text>
+          </View>
+          <View style={styles.provenanceRow}>
+            <Text style={styles.provenanceLabel}>Last updated</Text>
+            <Text style={styles.provenanceValue}>{lastUpdated ?? 'Unknown'}</Text>
+          </View>
+          <View style={styles.provenanceRow}>
+            <Text style={styles.provenanceLabel}>Recorded hash</Text>
+            <Text style={styles.provenanceHash}>{shortHash(narrative.provenance_hash)}</Text>
+          </View>
+          {provenance?.status === 'mismatch' && (
+            <View style={styles.provenanceRow}>
+              <Text style={styles.provenanceLabel}>Computed hash</Text>
+              <Text style={styles.provenanceHash}>{shortHash(provenance.actual)}</Text>
+            </View>
+          )}
+        </View>
       </ScrollView>
     </>
   );
@@ -377,4 +480,42 @@ const styles = StyleSheet.create({
     color: colors.text.secondary,
     marginTop: spacing.xxs,
   },
+  provenanceStatus: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: spacing.xs,
+    borderWidth: 1,
+    borderRadius: 16,
+    paddingHorizontal: spacing.md,
+    paddingVertical: spacing.xs,
+    marginBottom: spacing.md,
+  },
+  provenanceStatusText: {
+    ...typography.labelMedium,
+  },
+  provenanceWarning: {
+    ...typography.bodySmall,
+    color: colors.error,
+    marginBottom: spacing.md,
+  },
+  provenanceRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  provenanceLabel: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  provenanceValue: {
+    ...typography.labelMedium,
+    color: colors.text.primary,
+  },
+  provenanceHash: {
+    ...typography.code,
+    color: colors.text.primary,
+  },
 });
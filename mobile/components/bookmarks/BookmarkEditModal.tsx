@@ -0,0 +1,131 @@
+// Using CO5 (Composition) - Edit the tags and note of a saved bookmark
+
+import { useEffect, useState } from 'react';
+import { View, Text, TextInput, StyleSheet, Pressable, Modal } from 'react-native';
+import { colors, spacing, layout, typography } from '../../theme';
+import type { Bookmark } from '@hummbl/shared';
+import { TagEditor } from './TagEditor';
+
+interface BookmarkEditModalProps {
+  /** The bookmark being edited; the modal is hidden when null */
+  bookmark: Bookmark | null;
+  bookmarks: Bookmark[];
+  onSave: (changes: { tags: string[]; note: string }) => void;
+  onClose: () => void;
+}
+
+export function BookmarkEditModal({
+  bookmark,
+  bookmarks,
+  onSave,
+  onClose,
+}: BookmarkEditModalProps) {
+  const [tags, setTags] = useState<string[]>([]);
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    setTags(bookmark?.tags ?? []);
+    setNote(bookmark?.note ?? '');
+  }, [bookmark?.id]);
+
+  return (
+    <Modal visible={bookmark !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title} numberOfLines={1}>
+            {bookmark?.title}
+          </Text>
+
+          <Text style={styles.label}>Tags</Text>
+          <TagEditor tags={tags} onChange={setTags} bookmarks={bookmarks} />
+
+          <Text style={styles.label}>Note</Text>
+          <TextInput
+            style={[styles.input, styles.noteInput]}
+            value={note}
+            onChangeText={setNote}
+            placeholder="Why did you save this?"
+            placeholderTextColor={colors.text.disabled}
+            multiline
+            textAlignVertical="top"
+          />
+
+          <View style={styles.buttons}>
+            <Pressable onPress={onClose} style={styles.button}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </Pressable>
+            <Pressable
+              onPress={() => {
+                onSave({ tags, note });
+                onClose();
+              }}
+              style={[styles.button, styles.buttonPrimary]}
+            >
+              <Text style={styles.buttonPrimaryText}>Save</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: layout.screenPadding,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  card: {
+    backgroundColor: colors.background.primary,
+    borderRadius: layout.cardBorderRadius,
+    padding: layout.cardPadding,
+  },
+  title: {
+    ...typography.headingSmall,
+    color: colors.text.primary,
+  },
+  label: {
+    ...typography.labelMedium,
+    color: colors.text.secondary,
+    marginTop: spacing.md,
+  },
+  input: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: layout.inputBorderRadius,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  noteInput: {
+    minHeight: 88,
+    marginTop: spacing.xs,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  button: {
+    paddingVertical: layout.buttonPaddingVertical,
+    paddingHorizontal: layout.buttonPaddingHorizontal,
+    borderRadius: layout.buttonBorderRadius,
+  },
+  buttonText: {
+    ...typography.labelLarge,
+    color: colors.text.secondary,
+  },
+  buttonPrimary: {
+    backgroundColor: colors.primary[500],
+  },
+  buttonPrimaryText: {
+    ...typography.labelLarge,
+    color: colors.text.inverse,
+  },
+});
+
+export default BookmarkEditModal;
@@ -0,0 +1,71 @@
+// Using RE2 (Feedback Loops) - Show a failed bookmark read or save with a way to retry it
+
+import { useState } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, layout, typography } from '../../theme';
+
+interface BookmarkStorageBannerProps {
+  /** Renders nothing when null */
+  error: string | null;
+  onRetry: () => Promise<void>;
+}
+
+export function BookmarkStorageBanner({ error, onRetry }: BookmarkStorageBannerProps) {
+  const [retrying, setRetrying] = useState(false);
+
+  if (!error) return null;
+
+  const retry = async () => {
+    setRetrying(true);
+    try {
+      await onRetry();
+    } finally {
+      setRetrying(false);
+    }
+  };
+
+  return (
+    <View style={styles.banner}>
+      <Ionicons name="alert-circle" size={20} color={colors.error} />
+      <Text style={styles.message}>{error}</Text>
+      <Pressable onPress={retry} disabled={retrying} style={styles.button}>
+        <Text style={[styles.buttonText, retrying && styles.buttonDisabled]}>
+          {retrying ? 'Retrying…' : 'Retry'}
+        </Text>
+      </Pressable>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  banner: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    padding: spacing.md,
+    marginBottom: spacing.md,
+    backgroundColor: colors.background.primary,
+    borderRadius: layout.cardBorderRadius,
+    borderWidth: 1,
+    borderColor: colors.error,
+  },
+  message: {
+    ...typography.bodySmall,
+    color: colors.text.primary,
+    flex: 1,
+  },
+  button: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  buttonText: {
+    ...typography.labelLarge,
+    color: colors.primary[500],
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
+
+export default BookmarkStorageBanner;
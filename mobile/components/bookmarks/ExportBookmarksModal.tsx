@@ -0,0 +1,137 @@
+// Using CO5 (Composition) - Pick a format and hand the exported bookmarks to the share sheet
+
+import { View, Text, StyleSheet, Pressable, Modal, Share } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, layout, typography } from '../../theme';
+import type { BookmarkExportFormat } from '@hummbl/shared';
+
+const FORMATS: {
+  format: BookmarkExportFormat;
+  label: string;
+  description: string;
+  icon: keyof typeof Ionicons.glyphMap;
+}[] = [
+  {
+    format: 'json',
+    label: 'JSON backup',
+    description: 'Tags, notes and collections; can be imported again',
+    icon: 'code-slash',
+  },
+  {
+    format: 'markdown',
+    label: 'Markdown reading list',
+    description: 'A checklist for notes apps',
+    icon: 'list',
+  },
+  {
+    format: 'csv',
+    label: 'CSV',
+    description: 'One row per bookmark, for spreadsheets',
+    icon: 'grid-outline',
+  },
+];
+
+interface ExportBookmarksModalProps {
+  visible: boolean;
+  /** What is being exported, e.g. "All bookmarks" or a collection name */
+  scope: string;
+  count: number;
+  serialize: (format: BookmarkExportFormat) => string;
+  onClose: () => void;
+}
+
+export function ExportBookmarksModal({
+  visible,
+  scope,
+  count,
+  serialize,
+  onClose,
+}: ExportBookmarksModalProps) {
+  const share = async (format: BookmarkExportFormat) => {
+    onClose();
+    await Share.share({ title: `HUMMBL bookmarks (${format})`, message: serialize(format) });
+  };
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Export bookmarks</Text>
+          <Text style={styles.subtitle}>
+            {scope} · {count} {count === 1 ? 'item' : 'items'}
+          </Text>
+          {FORMATS.map(({ format, label, description, icon }) => (
+            <Pressable key={format} style={styles.option} onPress={() => share(format)}>
+              <Ionicons name={icon} size={22} color={colors.primary[500]} />
+              <View style={styles.optionText}>
+                <Text style={styles.optionLabel}>{label}</Text>
+                <Text style={styles.optionDescription}>{description}</Text>
+              </View>
+            </Pressable>
+          ))}
+          <View style={styles.buttons}>
+            <Pressable onPress={onClose} style={styles.button}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </Pressable>
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: layout.screenPadding,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  card: {
+    backgroundColor: colors.background.primary,
+    borderRadius: layout.cardBorderRadius,
+    padding: layout.cardPadding,
+  },
+  title: {
+    ...typography.headingSmall,
+    color: colors.text.primary,
+  },
+  subtitle: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginBottom: spacing.sm,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.md,
+    paddingVertical: spacing.sm,
+  },
+  optionText: {
+    flex: 1,
+  },
+  optionLabel: {
+    ...typography.labelLarge,
+    color: colors.text.primary,
+  },
+  optionDescription: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: spacing.sm,
+  },
+  button: {
+    paddingVertical: layout.buttonPaddingVertical,
+    paddingHorizontal: layout.buttonPaddingHorizontal,
+    borderRadius: layout.buttonBorderRadius,
+  },
+  buttonText: {
+    ...typography.labelLarge,
+    color: colors.text.secondary,
+  },
+});
+
+export default ExportBookmarksModal;
@@ -0,0 +1,292 @@
+// Using IN2 (Premortem) - Paste an export, review a dry run, then merge or replace
+
+import { useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  ScrollView,
+  StyleSheet,
+  Pressable,
+  Modal,
+  Alert,
+} from 'react-native';
+import { colors, spacing, layout, typography } from '../../theme';
+import type {
+  BookmarkImportMode,
+  BookmarkImportResult,
+  BookmarkImportPreview,
+  BookmarkImportStatus,
+  ParsedBookmarkImport,
+} from '@hummbl/shared';
+
+const STATUS_LABELS: Record<BookmarkImportStatus, string> = {
+  new: 'New',
+  duplicate: 'Already saved',
+  unknown: 'Unknown content',
+};
+
+const STATUS_COLORS: Record<BookmarkImportStatus, string> = {
+  new: colors.success,
+  duplicate: colors.text.secondary,
+  unknown: colors.warning,
+};
+
+const MODES: { mode: BookmarkImportMode; label: string; description: string }[] = [
+  { mode: 'merge', label: 'Merge', description: 'Add new items; saved ones gain imported tags' },
+  { mode: 'replace', label: 'Replace', description: 'Remove everything saved first' },
+];
+
+interface ImportBookmarksModalProps {
+  visible: boolean;
+  /** Dry run; must not change any state */
+  preview: (json: string) => ParsedBookmarkImport;
+  onImport: (preview: BookmarkImportPreview, mode: BookmarkImportMode) => BookmarkImportResult;
+  onClose: () => void;
+}
+
+export function ImportBookmarksModal({
+  visible,
+  preview,
+  onImport,
+  onClose,
+}: ImportBookmarksModalProps) {
+  const [json, setJson] = useState('');
+  const [parsed, setParsed] = useState<ParsedBookmarkImport | null>(null);
+  const [mode, setMode] = useState<BookmarkImportMode>('merge');
+
+  useEffect(() => {
+    if (visible) {
+      setJson('');
+      setParsed(null);
+      setMode('merge');
+    }
+  }, [visible]);
+
+  const runImport = (result: BookmarkImportPreview) => {
+    const { added, merged, skipped } = onImport(result, mode);
+    onClose();
+    Alert.alert(
+      'Import complete',
+      `${added} added, ${merged} merged${skipped > 0 ? `, ${skipped} skipped as unknown` : ''}.`
+    );
+  };
+
+  const confirmImport = (result: BookmarkImportPreview) => {
+    if (mode === 'merge') {
+      runImport(result);
+      return;
+    }
+    Alert.alert('Replace all bookmarks?', 'Saved bookmarks and collections will be removed.', [
+      { text: 'Cancel', style: 'cancel' },
+      { text: 'Replace', style: 'destructive', onPress: () => runImport(result) },
+    ]);
+  };
+
+  const importable = parsed?.ok ? parsed.preview.items.length - parsed.preview.counts.unknown : 0;
+
+  return (
+    <Modal visible={visible} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        <View style={styles.card}>
+          <Text style={styles.title}>Import bookmarks</Text>
+
+          {!parsed?.ok ? (
+            <>
+              <Text style={styles.hint}>Paste a JSON backup exported from HUMMBL.</Text>
+              <TextInput
+                style={styles.jsonInput}
+                value={json}
+                onChangeText={(text) => {
+                  setJson(text);
+                  setParsed(null);
+                }}
+                placeholder='{ "format": "hummbl-bookmarks", ... }'
+                placeholderTextColor={colors.text.disabled}
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+                textAlignVertical="top"
+              />
+              {parsed && !parsed.ok && (
+                <ScrollView style={styles.errors}>
+                  {parsed.errors.map((error) => (
+                    <Text key={error} style={styles.errorText}>
+                      {error}
+                    </Text>
+                  ))}
+                </ScrollView>
+              )}
+            </>
+          ) : (
+            <>
+              <Text style={styles.hint}>
+                {(Object.keys(STATUS_LABELS) as BookmarkImportStatus[])
+                  .map((status) => `${parsed.preview.counts[status]} ${STATUS_LABELS[status]}`)
+                  .join(' · ')}
+              </Text>
+              <ScrollView style={styles.items}>
+                {parsed.preview.items.map(({ bookmark, status }, index) => (
+                  <View key={index} style={styles.item}>
+                    <Text style={styles.itemTitle} numberOfLines={1}>
+                      {bookmark.title}
+                    </Text>
+                    <Text style={[styles.itemStatus, { color: STATUS_COLORS[status] }]}>
+                      {STATUS_LABELS[status]}
+                    </Text>
+                  </View>
+                ))}
+              </ScrollView>
+              {MODES.map((option) => (
+                <Pressable
+                  key={option.mode}
+                  style={[styles.mode, mode === option.mode && styles.modeSelected]}
+                  onPress={() => setMode(option.mode)}
+                >
+                  <Text style={styles.modeLabel}>{option.label}</Text>
+                  <Text style={styles.modeDescription}>{option.description}</Text>
+                </Pressable>
+              ))}
+            </>
+          )}
+
+          <View style={styles.buttons}>
+            <Pressable onPress={onClose} style={styles.button}>
+              <Text style={styles.buttonText}>Cancel</Text>
+            </Pressable>
+            {parsed?.ok ? (
+              <Pressable
+                onPress={() => confirmImport(parsed.preview)}
+                disabled={importable === 0}
+                style={[
+                  styles.button,
+                  styles.buttonPrimary,
+                  importable === 0 && styles.buttonDisabled,
+                ]}
+              >
+                <Text style={styles.buttonPrimaryText}>Import {importable}</Text>
+              </Pressable>
+            ) : (
+              <Pressable
+                onPress={() => setParsed(preview(json))}
+                disabled={!json.trim()}
+                style={[styles.button, styles.buttonPrimary, !json.trim() && styles.buttonDisabled]}
+              >
+                <Text style={styles.buttonPrimaryText}>Preview</Text>
+              </Pressable>
+            )}
+          </View>
+        </View>
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: layout.screenPadding,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  card: {
+    maxHeight: '85%',
+    backgroundColor: colors.background.primary,
+    borderRadius: layout.cardBorderRadius,
+    padding: layout.cardPadding,
+  },
+  title: {
+    ...typography.headingSmall,
+    color: colors.text.primary,
+  },
+  hint: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginVertical: spacing.sm,
+  },
+  jsonInput: {
+    ...typography.bodySmall,
+    fontFamily: 'monospace',
+    color: colors.text.primary,
+    minHeight: 140,
+    maxHeight: 240,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: layout.inputBorderRadius,
+    padding: spacing.sm,
+  },
+  errors: {
+    maxHeight: 120,
+    marginTop: spacing.sm,
+  },
+  errorText: {
+    ...typography.bodySmall,
+    color: colors.error,
+  },
+  items: {
+    maxHeight: 220,
+    marginBottom: spacing.sm,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  itemTitle: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+    flex: 1,
+  },
+  itemStatus: {
+    ...typography.labelSmall,
+  },
+  mode: {
+    padding: spacing.sm,
+    borderRadius: layout.inputBorderRadius,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    marginTop: spacing.xs,
+  },
+  modeSelected: {
+    borderColor: colors.primary[500],
+    backgroundColor: colors.primary[50],
+  },
+  modeLabel: {
+    ...typography.labelLarge,
+    color: colors.text.primary,
+  },
+  modeDescription: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: spacing.sm,
+    marginTop: spacing.md,
+  },
+  button: {
+    paddingVertical: layout.buttonPaddingVertical,
+    paddingHorizontal: layout.buttonPaddingHorizontal,
+    borderRadius: layout.buttonBorderRadius,
+  },
+  buttonText: {
+    ...typography.labelLarge,
+    color: colors.text.secondary,
+  },
+  buttonPrimary: {
+    backgroundColor: colors.primary[500],
+  },
+  buttonPrimaryText: {
+    ...typography.labelLarge,
+    color: colors.text.inverse,
+  },
+  buttonDisabled: {
+    opacity: 0.4,
+  },
+});
+
+export default ImportBookmarksModal;
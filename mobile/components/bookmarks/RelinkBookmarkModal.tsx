@@ -0,0 +1,189 @@
+// Using IN2 (Premortem) - Remove a bookmark whose content is gone or point it at a replacement
+
+import { useEffect, useMemo, useState } from 'react';
+import { View, Text, TextInput, ScrollView, StyleSheet, Pressable, Modal } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, layout, typography } from '../../theme';
+import type { BookmarkTarget, UnavailableBookmark } from '@hummbl/shared';
+
+const REASONS: Record<UnavailableBookmark['reason'], string> = {
+  renamed: 'This content has moved. Re-link the bookmark to keep its tags, note and collections.',
+  removed: 'This content is no longer available. Pick a replacement or remove the bookmark.',
+};
+
+interface RelinkBookmarkModalProps {
+  /** Hidden when null */
+  unavailable: UnavailableBookmark | null;
+  /** Everything of the bookmark's type, to pick a replacement by hand */
+  targets: BookmarkTarget[];
+  onRelink: (target: BookmarkTarget) => void;
+  onRemove: () => void;
+  onClose: () => void;
+}
+
+function TargetRow({ target, onPress }: { target: BookmarkTarget; onPress: () => void }) {
+  return (
+    <Pressable style={styles.target} onPress={onPress}>
+      <Ionicons
+        name={target.type === 'mental-model' ? 'grid' : 'document-text'}
+        size={18}
+        color={colors.primary[500]}
+      />
+      <Text style={styles.targetTitle} numberOfLines={1}>
+        {target.title}
+      </Text>
+      <Ionicons name="link" size={18} color={colors.text.secondary} />
+    </Pressable>
+  );
+}
+
+export function RelinkBookmarkModal({
+  unavailable,
+  targets,
+  onRelink,
+  onRemove,
+  onClose,
+}: RelinkBookmarkModalProps) {
+  const [filter, setFilter] = useState('');
+
+  useEffect(() => {
+    setFilter('');
+  }, [unavailable]);
+
+  const matches = useMemo(() => {
+    const query = filter.trim().toLowerCase();
+    return query ? targets.filter((t) => t.title.toLowerCase().includes(query)) : [];
+  }, [filter, targets]);
+
+  return (
+    <Modal visible={unavailable !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <View style={styles.backdrop}>
+        {unavailable && (
+          <View style={styles.card}>
+            <Text style={styles.title}>Content unavailable</Text>
+            <Text style={styles.bookmarkTitle} numberOfLines={2}>
+              {unavailable.bookmark.title}
+            </Text>
+            <Text style={styles.hint}>{REASONS[unavailable.reason]}</Text>
+
+            <ScrollView style={styles.targets} keyboardShouldPersistTaps="handled">
+              {unavailable.candidates.length > 0 && (
+                <>
+                  <Text style={styles.sectionLabel}>Suggested</Text>
+                  {unavailable.candidates.map((target) => (
+                    <TargetRow
+                      key={target.itemId}
+                      target={target}
+                      onPress={() => onRelink(target)}
+                    />
+                  ))}
+                </>
+              )}
+              <Text style={styles.sectionLabel}>Find a replacement</Text>
+              <TextInput
+                style={styles.input}
+                value={filter}
+                onChangeText={setFilter}
+                placeholder="Search by title"
+                placeholderTextColor={colors.text.disabled}
+                autoCorrect={false}
+              />
+              {matches.map((target) => (
+                <TargetRow key={target.itemId} target={target} onPress={() => onRelink(target)} />
+              ))}
+            </ScrollView>
+
+            <View style={styles.buttons}>
+              <Pressable onPress={onRemove} style={styles.button}>
+                <Text style={styles.removeText}>Remove bookmark</Text>
+              </Pressable>
+              <Pressable onPress={onClose} style={styles.button}>
+                <Text style={styles.buttonText}>Cancel</Text>
+              </Pressable>
+            </View>
+          </View>
+        )}
+      </View>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'center',
+    padding: layout.screenPadding,
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  card: {
+    maxHeight: '85%',
+    backgroundColor: colors.background.primary,
+    borderRadius: layout.cardBorderRadius,
+    padding: layout.cardPadding,
+  },
+  title: {
+    ...typography.headingSmall,
+    color: colors.text.primary,
+  },
+  bookmarkTitle: {
+    ...typography.labelLarge,
+    color: colors.text.primary,
+    marginTop: spacing.xs,
+  },
+  hint: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+    marginVertical: spacing.sm,
+  },
+  targets: {
+    maxHeight: 300,
+  },
+  sectionLabel: {
+    ...typography.labelSmall,
+    color: colors.text.secondary,
+    marginTop: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  target: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border.light,
+  },
+  targetTitle: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+    flex: 1,
+  },
+  input: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: layout.inputBorderRadius,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: spacing.md,
+  },
+  button: {
+    paddingVertical: layout.buttonPaddingVertical,
+    paddingHorizontal: layout.buttonPaddingHorizontal,
+    borderRadius: layout.buttonBorderRadius,
+  },
+  buttonText: {
+    ...typography.labelLarge,
+    color: colors.text.secondary,
+  },
+  removeText: {
+    ...typography.labelLarge,
+    color: colors.error,
+  },
+});
+
+export default RelinkBookmarkModal;
@@ -0,0 +1,114 @@
+// Using CO5 (Composition) - Edit a bookmark's tags, completing from tags already in use
+
+import { useState } from 'react';
+import { View, Text, TextInput, StyleSheet, Pressable } from 'react-native';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, layout, typography } from '../../theme';
+import { normalizeBookmarkTags, suggestBookmarkTags } from '@hummbl/shared';
+import type { Bookmark } from '@hummbl/shared';
+
+interface TagEditorProps {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  /** Every saved bookmark, the source of suggestions */
+  bookmarks: Bookmark[];
+}
+
+export function TagEditor({ tags, onChange, bookmarks }: TagEditorProps) {
+  const [input, setInput] = useState('');
+  const suggestions = suggestBookmarkTags(bookmarks, input, { exclude: tags });
+
+  const add = (value: string) => {
+    onChange(normalizeBookmarkTags([...tags, value]));
+    setInput('');
+  };
+
+  return (
+    <View>
+      {tags.length > 0 && (
+        <View style={styles.tags}>
+          {tags.map((tag) => (
+            <Pressable
+              key={tag}
+              style={styles.tag}
+              onPress={() => onChange(tags.filter((t) => t !== tag))}
+              hitSlop={4}
+            >
+              <Text style={styles.tagText}>#{tag}</Text>
+              <Ionicons name="close" size={14} color={colors.primary[700]} />
+            </Pressable>
+          ))}
+        </View>
+      )}
+      <TextInput
+        style={styles.input}
+        value={input}
+        onChangeText={(text) => {
+          // Typing a comma commits the tag before it
+          if (text.endsWith(',')) add(text.slice(0, -1));
+          else setInput(text);
+        }}
+        placeholder="Add a tag"
+        placeholderTextColor={colors.text.disabled}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        blurOnSubmit={false}
+        onSubmitEditing={() => add(input)}
+      />
+      {suggestions.length > 0 && (
+        <View style={styles.tags}>
+          {suggestions.map((tag) => (
+            <Pressable key={tag} style={styles.suggestion} onPress={() => add(tag)}>
+              <Text style={styles.suggestionText}>+ {tag}</Text>
+            </Pressable>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: spacing.xs,
+    marginVertical: spacing.xs,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 2,
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+    borderRadius: 12,
+    backgroundColor: colors.primary[50],
+  },
+  tagText: {
+    ...typography.labelSmall,
+    color: colors.primary[700],
+  },
+  suggestion: {
+    paddingVertical: 2,
+    paddingHorizontal: spacing.sm,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+  },
+  suggestionText: {
+    ...typography.labelSmall,
+    color: colors.text.secondary,
+  },
+  input: {
+    ...typography.bodyMedium,
+    color: colors.text.primary,
+    borderWidth: 1,
+    borderColor: colors.border.light,
+    borderRadius: layout.inputBorderRadius,
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xs,
+  },
+});
+
+export default TagEditor;
@@ -0,0 +1,15 @@
+export { TagEditor, default as TagEditorDefault } from './TagEditor';
+export { BookmarkEditModal, default as BookmarkEditModalDefault } from './BookmarkEditModal';
+export {
+  ExportBookmarksModal,
+  default as ExportBookmarksModalDefault,
+} from './ExportBookmarksModal';
+export {
+  ImportBookmarksModal,
+  default as ImportBookmarksModalDefault,
+} from './ImportBookmarksModal';
+export {
+  BookmarkStorageBanner,
+  default as BookmarkStorageBannerDefault,
+} from './BookmarkStorageBanner';
+export { RelinkBookmarkModal, default as RelinkBookmarkModalDefault } from './RelinkBookmarkModal';
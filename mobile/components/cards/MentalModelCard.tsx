@@ -4,15 +4,11 @@ import { View, Text, StyleSheet, Pressable } from 'react-native';
 import { Link } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, layout, typography } from '../../theme';
-import type { TransformationKey } from '@hummbl/shared';
+import { getModelDifficulty, getPrimaryTransformation } from '@hummbl/shared';
+import type { MentalModel, TransformationKey } from '@hummbl/shared';
 
 interface MentalModelCardProps {
-  id: string;
-  code: string;
-  name: string;
-  description: string;
-  transformation: TransformationKey;
-  difficulty?: number;
+  model: MentalModel;
   onPress?: () => void;
 }
 
@@ -25,16 +21,10 @@ const transformationColors: Record<TransformationKey, string> = {
   SY: colors.transformations.SY,
 };
 
-export function MentalModelCard({
-  id,
-  code,
-  name,
-  description,
-  transformation,
-  difficulty,
-  onPress,
-}: MentalModelCardProps) {
-  const color = transformationColors[transformation] || colors.primary[500];
+export function MentalModelCard({ model, onPress }: MentalModelCardProps) {
+  const { id, code, name, description } = model;
+  const difficulty = getModelDifficulty(model);
+  const color = transformationColors[getPrimaryTransformation(model)] || colors.primary[500];
 
   const cardContent = (
     <View style={styles.card}>
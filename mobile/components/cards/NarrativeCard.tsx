@@ -4,15 +4,10 @@ import { View, Text, StyleSheet, Pressable } from 'react-native';
 import { Link } from 'expo-router';
 import { Ionicons } from '@expo/vector-icons';
 import { colors, spacing, layout, typography } from '../../theme';
-import type { EvidenceQuality } from '@hummbl/shared';
+import type { EvidenceQuality, Narrative } from '@hummbl/shared';
 
 interface NarrativeCardProps {
-  id: string;
-  title: string;
-  summary: string;
-  category: string;
-  evidenceQuality: EvidenceQuality;
-  confidence?: number;
+  narrative: Narrative;
   onPress?: () => void;
 }
 
@@ -28,15 +23,9 @@ const evidenceLabels: Record<EvidenceQuality, string> = {
   C: 'Limited',
 };
 
-export function NarrativeCard({
-  id,
-  title,
-  summary,
-  category,
-  evidenceQuality,
-  confidence,
-  onPress,
-}: NarrativeCardProps) {
+export function NarrativeCard({ narrative, onPress }: NarrativeCardProps) {
+  const { id, title, summary, category, confidence } = narrative;
+  const evidenceQuality = narrative.evidence_quality;
   const evidenceColor = evidenceColors[evidenceQuality] || colors.evidence.C;
 
   const cardContent = (
@@ -0,0 +1,74 @@
+// Using CO5 (Composition) - Compact card for a recommended model or narrative
+
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Link } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, layout, typography } from '../../theme';
+
+interface RelatedItemCardProps {
+  href: string;
+  badge: string;
+  color: string;
+  title: string;
+  /** Terms the two items have in common, shown as the reason for the match */
+  sharedTerms: string[];
+}
+
+export function RelatedItemCard({ href, badge, color, title, sharedTerms }: RelatedItemCardProps) {
+  return (
+    <Link href={href} asChild>
+      <Pressable style={styles.card}>
+        <View style={[styles.badge, { backgroundColor: color }]}>
+          <Text style={styles.badgeText}>{badge}</Text>
+        </View>
+        <View style={styles.content}>
+          <Text style={styles.title} numberOfLines={1}>
+            {title}
+          </Text>
+          {sharedTerms.length > 0 && (
+            <Text style={styles.reason} numberOfLines={1}>
+              Shares {sharedTerms.slice(0, 3).join(', ')}
+            </Text>
+          )}
+        </View>
+        <Ionicons name="chevron-forward" size={18} color={colors.text.secondary} />
+      </Pressable>
+    </Link>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    backgroundColor: colors.background.secondary,
+    borderRadius: layout.cardBorderRadius,
+    padding: spacing.sm,
+    marginBottom: spacing.sm,
+  },
+  badge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xxs,
+    borderRadius: 4,
+  },
+  badgeText: {
+    ...typography.labelSmall,
+    color: colors.text.inverse,
+    fontWeight: '600',
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    ...typography.labelMedium,
+    color: colors.text.primary,
+  },
+  reason: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    marginTop: spacing.xxs,
+  },
+});
+
+export default RelatedItemCard;
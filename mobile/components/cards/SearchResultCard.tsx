@@ -0,0 +1,123 @@
+// Using CO5 (Composition) - Search result row showing where the query matched
+
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { Link } from 'expo-router';
+import { Ionicons } from '@expo/vector-icons';
+import { colors, spacing, layout, typography } from '../../theme';
+import { HighlightedText } from '../common';
+import type { MatchRange, Snippet } from '@hummbl/shared';
+
+interface SearchResultCardProps {
+  href: string;
+  badge: string;
+  color: string;
+  title: string;
+  titleRanges?: MatchRange[];
+  snippet: Snippet;
+  /** Human-readable names of the fields the query matched */
+  matchedFields: string[];
+}
+
+export function SearchResultCard({
+  href,
+  badge,
+  color,
+  title,
+  titleRanges,
+  snippet,
+  matchedFields,
+}: SearchResultCardProps) {
+  return (
+    <Link href={href} asChild>
+      <Pressable>
+        <View style={styles.card}>
+          <View style={[styles.colorStrip, { backgroundColor: color }]} />
+          <View style={styles.content}>
+            <View style={styles.header}>
+              <View style={[styles.badge, { backgroundColor: color }]}>
+                <Text style={styles.badgeText}>{badge}</Text>
+              </View>
+              {matchedFields.length > 0 && (
+                <Text style={styles.matchedIn} numberOfLines={1}>
+                  Matched in {matchedFields.join(', ')}
+                </Text>
+              )}
+            </View>
+            <HighlightedText
+              text={title}
+              ranges={titleRanges}
+              style={styles.title}
+              numberOfLines={2}
+            />
+            <HighlightedText
+              text={snippet.text}
+              ranges={snippet.ranges}
+              style={styles.snippet}
+              numberOfLines={3}
+            />
+          </View>
+          <Ionicons
+            name="chevron-forward"
+            size={20}
+            color={colors.text.secondary}
+            style={styles.chevron}
+          />
+        </View>
+      </Pressable>
+    </Link>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    flexDirection: 'row',
+    backgroundColor: colors.background.primary,
+    borderRadius: layout.cardBorderRadius,
+    marginBottom: spacing.sm,
+    overflow: 'hidden',
+  },
+  colorStrip: {
+    width: 4,
+  },
+  content: {
+    flex: 1,
+    padding: layout.cardPadding,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    gap: spacing.sm,
+    marginBottom: spacing.xs,
+  },
+  badge: {
+    paddingHorizontal: spacing.sm,
+    paddingVertical: spacing.xxs,
+    borderRadius: 4,
+  },
+  badgeText: {
+    ...typography.labelSmall,
+    color: colors.text.inverse,
+    fontWeight: '600',
+  },
+  matchedIn: {
+    ...typography.caption,
+    color: colors.text.secondary,
+    flexShrink: 1,
+  },
+  title: {
+    ...typography.labelLarge,
+    color: colors.text.primary,
+    marginBottom: spacing.xxs,
+  },
+  snippet: {
+    ...typography.bodySmall,
+    color: colors.text.secondary,
+  },
+  chevron: {
+    alignSelf: 'center',
+    marginRight: spacing.md,
+  },
+});
+
+export default SearchResultCard;
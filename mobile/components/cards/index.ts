@@ -1,2 +1,4 @@
 export { MentalModelCard, default as MentalModelCardDefault } from './MentalModelCard';
 export { NarrativeCard, default as NarrativeCardDefault } from './NarrativeCard';
+export { SearchResultCard, default as SearchResultCardDefault } from './SearchResultCard';
+export { RelatedItemCard, default as RelatedItemCardDefault } from './RelatedItemCard';
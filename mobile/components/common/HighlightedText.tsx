@@ -0,0 +1,40 @@
+// Using DE3 (Decomposition) - Render text with match ranges emphasized
+
+import { Text, StyleSheet } from 'react-native';
+import type { StyleProp, TextStyle } from 'react-native';
+import { colors } from '../../theme';
+import { highlightRanges } from '@hummbl/shared';
+import type { MatchRange } from '@hummbl/shared';
+
+interface HighlightedTextProps {
+  text: string;
+  ranges?: MatchRange[];
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+export function HighlightedText({ text, ranges = [], style, numberOfLines }: HighlightedTextProps) {
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {highlightRanges(text, ranges).map((segment, index) =>
+        segment.highlight ? (
+          <Text key={index} style={styles.highlight}>
+            {segment.text}
+          </Text>
+        ) : (
+          segment.text
+        )
+      )}
+    </Text>
+  );
+}
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: colors.primary[100],
+    color: colors.text.primary,
+    fontWeight: '600',
+  },
+});
+
+export default HighlightedText;
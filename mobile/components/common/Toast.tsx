@@ -0,0 +1,75 @@
+// Using RE2 (Feedback Loops) - Brief confirmation of a change with one action, e.g. Undo
+
+import { useEffect } from 'react';
+import { View, Text, StyleSheet, Pressable } from 'react-native';
+import { colors, spacing, layout, typography } from '../../theme';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  /** Called when the toast times out or its action is pressed */
+  onHide: () => void;
+  /** Milliseconds before hiding on its own */
+  duration?: number;
+}
+
+/**
+ * Shown from mount until `duration` passes; give it a new `key` to show it again.
+ */
+export function Toast({ message, actionLabel, onAction, onHide, duration = 4000 }: ToastProps) {
+  useEffect(() => {
+    const timer = setTimeout(onHide, duration);
+    return () => clearTimeout(timer);
+    // Not restarted when the parent re-renders with a new onHide
+  }, [duration]);
+
+  return (
+    <View style={styles.toast} accessibilityLiveRegion="polite">
+      <Text style={styles.message}>{message}</Text>
+      {actionLabel && onAction && (
+        <Pressable
+          onPress={() => {
+            onAction();
+            onHide();
+          }}
+          hitSlop={8}
+          style={styles.button}
+        >
+          <Text style={styles.actionText}>{actionLabel}</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  toast: {
+    position: 'absolute',
+    left: layout.screenPadding,
+    right: layout.screenPadding,
+    bottom: layout.screenPadding,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: spacing.sm,
+    paddingVertical: spacing.sm,
+    paddingHorizontal: spacing.md,
+    backgroundColor: colors.neutral[900],
+    borderRadius: layout.cardBorderRadius,
+  },
+  message: {
+    ...typography.bodyMedium,
+    color: colors.text.inverse,
+    flex: 1,
+  },
+  button: {
+    paddingVertical: spacing.xs,
+    paddingHorizontal: spacing.sm,
+  },
+  actionText: {
+    ...typography.labelLarge,
+    color: colors.primary[300],
+  },
+});
+
+export default Toast;
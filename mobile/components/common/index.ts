@@ -1,3 +1,5 @@
 export { Button, default as ButtonDefault } from './Button';
 export { EmptyState, default as EmptyStateDefault } from './EmptyState';
 export { Loading, default as LoadingDefault } from './Loading';
+export { HighlightedText, default as HighlightedTextDefault } from './HighlightedText';
+export { Toast, default as ToastDefault } from './Toast';
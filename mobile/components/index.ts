@@ -1,2 +1,3 @@
+export * from './bookmarks';
 export * from './cards';
 export * from './common';
@@ -0,0 +1,60 @@
+// Using SY8 (Systems) - Wire the shared content API to the configured apiUrl and platform storage
+
+import Constants from 'expo-constants';
+import {
+  createCachedContentSource,
+  createContentApiClient,
+  createContentCache,
+  getOfflineStoreHook,
+  syncContent,
+} from '@hummbl/shared';
+import type { ContentSyncResult } from '@hummbl/shared';
+import { lenientPlatformStorage } from '../storage';
+
+const apiUrl =
+  (Constants.expoConfig?.extra?.apiUrl as string | undefined) ?? 'https://api.hummbl.io';
+
+// Using IN1 (Inversion) - Until the saved preference has loaded, assume offline rather than risk a request
+const isOffline = (): boolean => {
+  const { isLoading, offlineMode } = getOfflineStoreHook().getState();
+  return isLoading || offlineMode;
+};
+
+// Also settles when the preference can't be read, leaving offline mode off
+const whenOfflinePreferenceLoaded = (): Promise<void> => {
+  const store = getOfflineStoreHook();
+  if (!store.getState().isLoading) return Promise.resolve();
+  return new Promise((resolve) => {
+    const unsubscribe = store.subscribe(({ isLoading }) => {
+      if (isLoading) return;
+      unsubscribe();
+      resolve();
+    });
+  });
+};
+
+// A missing or unreadable cache falls back to bundled content, so failures needn't reject
+export const contentCache = createContentCache(lenientPlatformStorage);
+export const contentApiClient = createContentApiClient({ baseUrl: apiUrl, isOffline });
+export const cachedContentSource = createCachedContentSource(contentCache);
+
+/**
+ * Pull the latest content into the cache; resolves to null when offline mode
+ * is on or the API is unreachable
+ */
+export async function syncRemoteContent(): Promise<ContentSyncResult | null> {
+  await whenOfflinePreferenceLoaded();
+  if (isOffline()) return null;
+
+  try {
+    const result = await syncContent(contentApiClient, contentCache);
+    if (result.errors.length > 0) {
+      console.warn('Rejected content update, cache rolled back:', result.errors);
+    }
+    void getOfflineStoreHook().getState().refreshStorageInfo();
+    return result;
+  } catch (error) {
+    console.warn('Content sync failed, keeping cached content:', error);
+    return null;
+  }
+}
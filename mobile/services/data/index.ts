@@ -1,2 +0,0 @@
-export * from './sampleModels';
-export * from './sampleNarratives';
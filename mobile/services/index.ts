@@ -1,2 +1,2 @@
-export * from './data';
 export * from './storage';
+export * from './content';
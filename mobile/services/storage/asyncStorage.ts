@@ -4,7 +4,8 @@ import AsyncStorage from '@react-native-async-storage/async-storage';
 import type { StateStorage } from 'zustand/middleware';
 
 /**
- * AsyncStorage adapter compatible with Zustand's persist middleware
+ * AsyncStorage adapter compatible with Zustand's persist middleware.
+ * Failures are logged and read as missing, for caches that can fall back.
  */
 export const asyncStorageAdapter: StateStorage = {
   getItem: async (name: string): Promise<string | null> => {
@@ -33,4 +34,14 @@ export const asyncStorageAdapter: StateStorage = {
   },
 };
 
+/**
+ * AsyncStorage adapter that rejects on failure, for persisted stores that
+ * report storage errors and must not mistake a failed read for no data
+ */
+export const strictAsyncStorageAdapter: StateStorage = {
+  getItem: (name) => AsyncStorage.getItem(name),
+  setItem: (name, value) => AsyncStorage.setItem(name, value),
+  removeItem: (name) => AsyncStorage.removeItem(name),
+};
+
 export default asyncStorageAdapter;
@@ -1 +1,2 @@
-export { asyncStorageAdapter, default } from './asyncStorage';
+export { asyncStorageAdapter, strictAsyncStorageAdapter, default } from './asyncStorage';
+export { platformStorage, lenientPlatformStorage } from './platformStorage';
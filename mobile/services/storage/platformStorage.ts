@@ -0,0 +1,53 @@
+// Using DE3 (Decomposition) - Pick the persisted stores' storage for the platform the app runs on
+
+import { Platform } from 'react-native';
+import type { StateStorage } from 'zustand/middleware';
+import { createWebStorage } from '@hummbl/shared';
+import type { SyncedStateStorage } from '@hummbl/shared';
+import { asyncStorageAdapter, strictAsyncStorageAdapter } from './asyncStorage';
+
+const webStorage = Platform.OS === 'web' ? createWebStorage() : null;
+
+// Logs failures and reads them as missing, like asyncStorageAdapter, keeping other tabs' changes
+const lenient = (storage: SyncedStateStorage): SyncedStateStorage => ({
+  getItem: async (name) => {
+    try {
+      return await storage.getItem(name);
+    } catch (error) {
+      console.warn(`Failed to get item ${name} from web storage:`, error);
+      return null;
+    }
+  },
+  setItem: async (name, value) => {
+    try {
+      await storage.setItem(name, value);
+    } catch (error) {
+      console.warn(`Failed to set item ${name} in web storage:`, error);
+    }
+  },
+  removeItem: async (name) => {
+    try {
+      await storage.removeItem(name);
+    } catch (error) {
+      console.warn(`Failed to remove item ${name} from web storage:`, error);
+    }
+  },
+  subscribe: storage.subscribe,
+});
+
+/**
+ * IndexedDB or localStorage in the Expo web build, so saves survive a reload
+ * and reach other tabs; AsyncStorage everywhere else, or when the browser
+ * blocks site data. Failures reject, for stores that report them.
+ */
+export const platformStorage: StateStorage = webStorage ?? strictAsyncStorageAdapter;
+
+/**
+ * The same storage with failures logged and read as missing, for stores with
+ * no error state that must still finish loading
+ */
+export const lenientPlatformStorage: StateStorage = webStorage
+  ? lenient(webStorage)
+  : asyncStorageAdapter;
+
+export default platformStorage;
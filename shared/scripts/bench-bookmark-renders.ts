@@ -0,0 +1,100 @@
+// Using SY8 (Systems) - Count re-renders of a 500-row bookmark list before and after selector hooks
+//
+// Usage: pnpm --filter @hummbl/shared bench:bookmarks [rows]
+//
+// Rows are rendered with react-test-renderer through the real hooks: before, each row
+// called `useBookmarks`; after, `useIsBookmarked` for its own item.
+
+import { createElement, Fragment } from 'react';
+import { act, create } from 'react-test-renderer';
+import { useBookmarks } from '../src/hooks/useBookmarks';
+import { useIsBookmarked } from '../src/hooks/useBookmarkSelectors';
+import { getBookmarkStoreHook, initializeBookmarkStore } from '../src/stores/bookmarkStore';
+import { createMemoryStorage } from '../src/stores/memoryStorage';
+import type { BookmarkActions, BookmarkState } from '../src/types';
+
+type BookmarkStore = BookmarkState & BookmarkActions;
+type UseRowBookmarked = (itemId: string) => boolean;
+
+const rows = Number(process.argv[2] ?? 500);
+
+// Tells React that updates are wrapped in act()
+(globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+
+function setup() {
+  initializeBookmarkStore(createMemoryStorage());
+  const store = getBookmarkStoreHook().getState;
+  const items = Array.from({ length: rows }, (_, i) => `m${i}`);
+  for (const itemId of items) {
+    store().addBookmark({ type: 'mental-model', itemId, title: itemId.toUpperCase() });
+  }
+  return { store, items };
+}
+
+// Total row re-renders caused by one change
+function countRenders(
+  useRowBookmarked: UseRowBookmarked,
+  change: (store: () => BookmarkStore, items: string[]) => void
+): number {
+  const { store, items } = setup();
+  let renders = 0;
+  const Row = ({ itemId }: { itemId: string }) => {
+    renders++;
+    return String(useRowBookmarked(itemId));
+  };
+  act(() => {
+    create(
+      createElement(
+        Fragment,
+        null,
+        ...items.map((itemId) => createElement(Row, { key: itemId, itemId }))
+      )
+    );
+  });
+  renders = 0;
+  act(() => change(store, items));
+  return renders;
+}
+
+const scenarios: [string, (store: () => BookmarkStore, items: string[]) => void][] = [
+  [
+    'Unsave one item',
+    (store, items) =>
+      store().toggleBookmark({ type: 'mental-model', itemId: items[0], title: 'M0' }),
+  ],
+  [
+    'Save a new item',
+    (store) => store().addBookmark({ type: 'narrative', itemId: 'n1', title: 'N1' }),
+  ],
+  ['Edit one note', (store) => store().updateBookmarkNote(store().bookmarks[1].id, 'Why')],
+  ['Create a collection', (store) => store().createCollection('Reading list')],
+];
+
+const time = (run: () => void) => {
+  const start = performance.now();
+  run();
+  return performance.now() - start;
+};
+
+console.log(`${rows} bookmarked rows\n`);
+console.log('Scenario'.padEnd(22), 'Before'.padStart(8), 'After'.padStart(8));
+
+for (const [name, change] of scenarios) {
+  // Before: every row read the whole store; after: each selects its own answer
+  const before = countRenders(
+    (itemId) => useBookmarks().isBookmarked(itemId, 'mental-model'),
+    change
+  );
+  const after = countRenders((itemId) => useIsBookmarked(itemId, 'mental-model'), change);
+  console.log(name.padEnd(22), String(before).padStart(8), String(after).padStart(8));
+}
+
+// Lookups scanned the list before the index; check every item once
+const { store, items } = setup();
+const scan = time(() =>
+  items.forEach((itemId) =>
+    store().bookmarks.some((b) => b.type === 'mental-model' && b.itemId === itemId)
+  )
+);
+const indexed = time(() => items.forEach((itemId) => store().hasBookmark(itemId, 'mental-model')));
+console.log(`\n${rows} lookups: ${scan.toFixed(2)}ms scanning, ${indexed.toFixed(2)}ms indexed`);
@@ -0,0 +1,38 @@
+// Using SY1 (Systems Thinking) - CLI for the Base120 integrity checker
+//
+// Usage: pnpm --filter @hummbl/shared check:content [models.json ...] [--require-complete]
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { checkCatalogueIntegrity, formatIntegrityReport } from '../src/content/integrity';
+import { validateMentalModelsData } from '../src/content/validation';
+import type { MentalModelsData } from '../src/types';
+
+const DEFAULT_FILE = 'src/content/data/mental-models.json';
+
+const args = process.argv.slice(2);
+const requireComplete = args.includes('--require-complete');
+const files = args.filter((arg) => !arg.startsWith('--'));
+
+let failed = false;
+
+for (const file of files.length > 0 ? files : [DEFAULT_FILE]) {
+  const path = resolve(process.cwd(), file);
+  console.log(`\n${path}`);
+
+  const document: unknown = JSON.parse(readFileSync(path, 'utf8'));
+  const validation = validateMentalModelsData(document);
+  for (const issue of [...validation.errors, ...validation.warnings]) {
+    console.log(`${issue.severity.toUpperCase()} [schema] ${issue.path}: ${issue.message}`);
+  }
+  if (!validation.valid) {
+    failed = true;
+    continue;
+  }
+
+  const report = checkCatalogueIntegrity(document as MentalModelsData, { requireComplete });
+  console.log(formatIntegrityReport(report));
+  failed = failed || !report.ok;
+}
+
+process.exit(failed ? 1 : 0);
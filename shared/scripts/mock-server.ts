@@ -0,0 +1,15 @@
+// Using P1 (First Principles) - Run the content API stand-in for offline development
+//
+// Usage: pnpm --filter @hummbl/shared mock-server [--port 4010]
+
+import { startMockContentServer } from '../src/api/mockServer';
+
+const portIndex = process.argv.indexOf('--port');
+const port = portIndex !== -1 ? Number(process.argv[portIndex + 1]) : 4010;
+
+startMockContentServer({ port, host: '0.0.0.0' }).then((server) => {
+  console.log(`Mock content API listening on ${server.url.replace('0.0.0.0', 'localhost')}`);
+  console.log('  GET /v1/models?page=1&pageSize=50');
+  console.log('  GET /v1/narratives?page=1&pageSize=50');
+  console.log('  GET /v1/{models,narratives}/changes?since=<version>');
+});
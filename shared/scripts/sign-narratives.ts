@@ -0,0 +1,62 @@
+// Using IN2 (Premortem) - CLI to stamp or verify narrative provenance hashes
+//
+// Usage: pnpm --filter @hummbl/shared sign:narratives [narratives.json ...] [--check]
+//
+// Without --check, every narrative's provenance_hash is recomputed and written back in place.
+// With --check, the files are left untouched and the command fails on any unsigned or mismatched record.
+
+import { readFileSync, writeFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+import { computeProvenanceHash, verifyNarratives } from '../src/content/provenance';
+import { validateNarrativesData } from '../src/content/validation';
+import type { NarrativesData } from '../src/types';
+
+const DEFAULT_FILE = 'src/content/data/narratives.json';
+const HASH_FIELD = /("provenance_hash":\s*)"[^"]*"/g;
+
+const args = process.argv.slice(2);
+const checkOnly = args.includes('--check');
+const files = args.filter((arg) => !arg.startsWith('--'));
+
+let failed = false;
+
+for (const file of files.length > 0 ? files : [DEFAULT_FILE]) {
+  const path = resolve(process.cwd(), file);
+  const raw = readFileSync(path, 'utf8');
+  const document: unknown = JSON.parse(raw);
+
+  const validation = validateNarrativesData(document);
+  if (!validation.valid) {
+    for (const issue of validation.errors) {
+      console.log(`ERROR [schema] ${issue.path}: ${issue.message}`);
+    }
+    failed = true;
+    continue;
+  }
+  const { narratives } = document as NarrativesData;
+
+  if (checkOnly) {
+    const checks = Object.values(verifyNarratives(narratives));
+    const bad = checks.filter((check) => check.status !== 'verified');
+    for (const check of bad) console.log(`${check.status.toUpperCase()} ${check.id}`);
+    console.log(`${path}: ${checks.length - bad.length}/${checks.length} narratives verified`);
+    failed = failed || bad.length > 0;
+    continue;
+  }
+
+  // Using DE3 (Decomposition) - Rewrite only the hash values so the file's formatting is preserved
+  let index = 0;
+  const signed = raw.replace(HASH_FIELD, (_match, key: string) => {
+    const hash = computeProvenanceHash(narratives[index++]);
+    return `${key}"${hash}"`;
+  });
+  if (index !== narratives.length) {
+    console.log(`${path}: expected ${narratives.length} provenance_hash fields, found ${index}`);
+    failed = true;
+    continue;
+  }
+  writeFileSync(path, signed);
+  console.log(`${path}: signed ${index} narratives`);
+}
+
+process.exit(failed ? 1 : 0);
@@ -0,0 +1,257 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import type { StateStorage } from 'zustand/middleware';
+import { createContentApiClient, ContentApiError } from './contentApi';
+import { createContentCache, createCachedContentSource } from './contentCache';
+import { syncContent } from './sync';
+import { startMockContentServer, MockContentServer } from './mockServer';
+import bundledModels from '../content/data/mental-models.json';
+import bundledNarratives from '../content/data/narratives.json';
+import type { FetchLike, MentalModelsData, NarrativesData } from '../types';
+
+const models = bundledModels as MentalModelsData;
+const narratives = bundledNarratives as NarrativesData;
+
+const memoryStorage = (): StateStorage => {
+  const data = new Map<string, string>();
+  return {
+    getItem: (name) => data.get(name) ?? null,
+    setItem: (name, value) => {
+      data.set(name, value);
+    },
+    removeItem: (name) => {
+      data.delete(name);
+    },
+  };
+};
+
+describe('content API client', () => {
+  let server: MockContentServer;
+
+  beforeEach(async () => {
+    server = await startMockContentServer({ models, narratives });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('walks every page and reassembles the document', async () => {
+    const client = createContentApiClient({ baseUrl: server.url, pageSize: 5 });
+    const result = await client.fetchModels();
+
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.data.models.map((m) => m.id)).toEqual(models.models.map((m) => m.id));
+    expect(result.data.totalModels).toBe(models.models.length);
+    expect(result.data.version).toBe(models.version);
+    expect(result.etag).toBeTruthy();
+    expect(server.requests).toHaveLength(Math.ceil(models.models.length / 5));
+  });
+
+  it('returns not-modified when the ETag still matches', async () => {
+    const client = createContentApiClient({ baseUrl: server.url });
+    const first = await client.fetchNarratives();
+    if (first.status !== 'ok') throw new Error('expected content');
+
+    const second = await client.fetchNarratives({ etag: first.etag });
+    expect(second.status).toBe('not-modified');
+    expect(server.requests[1]).toMatchObject({
+      status: 304,
+      headers: { 'if-none-match': first.etag },
+    });
+  });
+
+  it('throws ContentApiError on non-2xx responses', async () => {
+    const client = createContentApiClient({ baseUrl: `${server.url}/missing` });
+    await expect(client.fetchModels()).rejects.toMatchObject({
+      name: 'ContentApiError',
+      status: 404,
+    });
+  });
+
+  it('rejects pages served from different versions', async () => {
+    let calls = 0;
+    const fetchImpl: FetchLike = async (url, init) => {
+      const response = await globalThis.fetch(url, init);
+      calls++;
+      return {
+        status: response.status,
+        ok: response.ok,
+        json: () => response.json(),
+        headers: {
+          get: (name) => (calls > 1 && name === 'ETag' ? '"other"' : response.headers.get(name)),
+        },
+      };
+    };
+    const client = createContentApiClient({ baseUrl: server.url, fetch: fetchImpl, pageSize: 5 });
+    await expect(client.fetchModels()).rejects.toBeInstanceOf(ContentApiError);
+  });
+
+  it('rejects page bodies without items or a page count instead of paging forever', async () => {
+    for (const body of [{ items: [], metadata: {} }, { totalPages: 2 }, 'Service unavailable']) {
+      const requests: string[] = [];
+      const fetchImpl: FetchLike = async (url) => {
+        requests.push(url);
+        return new Response(JSON.stringify(body), { status: 200 });
+      };
+      const client = createContentApiClient({ baseUrl: server.url, fetch: fetchImpl });
+      await expect(client.fetchModels()).rejects.toMatchObject({
+        name: 'ContentApiError',
+        message: 'GET /v1/models page 1 returned no page of content',
+      });
+      expect(requests).toHaveLength(1);
+    }
+  });
+});
+
+describe('syncContent', () => {
+  let server: MockContentServer;
+
+  beforeEach(async () => {
+    server = await startMockContentServer({ models, narratives });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('writes fetched documents to the cache and revalidates afterwards', async () => {
+    const cache = createContentCache(memoryStorage());
+    const client = createContentApiClient({ baseUrl: server.url });
+
+    const first = await syncContent(client, cache);
+    expect(first).toMatchObject({ models: 'updated', narratives: 'updated' });
+
+    const cached = await cache.read();
+    expect(cached.models?.data.models).toHaveLength(models.models.length);
+    expect(cached.narratives?.etag).toBeTruthy();
+
+    const second = await syncContent(client, cache);
+    expect(second).toMatchObject({ models: 'not-modified', narratives: 'not-modified' });
+  });
+
+  it('picks up content changed on the server', async () => {
+    const cache = createContentCache(memoryStorage());
+    const client = createContentApiClient({ baseUrl: server.url });
+    await syncContent(client, cache);
+
+    const [first, ...rest] = models.models;
+    server.setContent({
+      models: {
+        ...models,
+        version: '1.1.0',
+        models: [...rest, { ...first, name: 'Renamed' }],
+      },
+    });
+    const result = await syncContent(client, cache);
+
+    expect(result).toMatchObject({ models: 'patched', narratives: 'not-modified', errors: [] });
+    expect(server.requests.at(-2)?.path).toBe('/v1/models/changes');
+    const snapshot = await createCachedContentSource(cache).load();
+    expect(snapshot.models?.version).toBe('1.1.0');
+    expect(snapshot.models?.models[0]).toMatchObject({ id: first.id, name: 'Renamed' });
+    expect((await cache.read()).models?.etag).toBeTruthy();
+  });
+
+  it('revalidates with cached validators on an API without /changes', async () => {
+    const cache = createContentCache(memoryStorage());
+    const noChanges: FetchLike = (url, init) =>
+      url.includes('/changes')
+        ? Promise.resolve(new Response(null, { status: 404 }))
+        : fetch(url, init);
+    const client = createContentApiClient({ baseUrl: server.url, fetch: noChanges });
+    await syncContent(client, cache);
+
+    const result = await syncContent(client, cache);
+
+    expect(result).toMatchObject({ models: 'not-modified', narratives: 'not-modified' });
+    expect(server.requests.at(-1)).toMatchObject({
+      status: 304,
+      headers: { 'if-none-match': expect.any(String) },
+    });
+  });
+
+  it('downloads the full collection when a delta does not apply', async () => {
+    const cache = createContentCache(memoryStorage());
+    // A delta from the wrong base version never applies
+    const staleDeltas: FetchLike = (url, init) =>
+      url.includes('/v1/models/changes')
+        ? Promise.resolve(
+            new Response(
+              JSON.stringify({
+                baseVersion: '0.0.1',
+                version: '1.1.0',
+                lastUpdated: '2024-06-01',
+                upserted: [],
+                removed: [],
+              })
+            )
+          )
+        : fetch(url, init);
+    const client = createContentApiClient({ baseUrl: server.url, fetch: staleDeltas });
+    await syncContent(client, cache);
+
+    // Unchanged on the server: the conditional download says so and nothing is written
+    const unchanged = await syncContent(client, cache);
+    expect(unchanged.models).toBe('rolled-back');
+    expect(server.requests.at(-1)?.status).toBe(304);
+
+    server.setContent({ models: { ...models, version: '1.1.0' } });
+    const result = await syncContent(client, cache);
+    expect(result).toMatchObject({ models: 'updated', errors: [] });
+    expect((await cache.read()).models?.data.version).toBe('1.1.0');
+  });
+
+  it('falls back to a full download when the server cannot diff from the cached version', async () => {
+    const cache = createContentCache(memoryStorage());
+    const client = createContentApiClient({ baseUrl: server.url });
+    await syncContent(client, cache);
+    const cached = await cache.read();
+    await cache.write({
+      ...cached,
+      // An old download the server keeps no history for, with its own validators
+      models: {
+        ...cached.models!,
+        data: { ...models, version: '0.9.0' },
+        etag: '"0.9.0"',
+        lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT',
+      },
+    });
+
+    const result = await syncContent(client, cache);
+
+    expect(result.models).toBe('updated');
+    expect((await cache.read()).models?.data.version).toBe(models.version);
+  });
+
+  it('rolls back every collection when one delta fails validation', async () => {
+    const cache = createContentCache(memoryStorage());
+    const client = createContentApiClient({ baseUrl: server.url });
+    await syncContent(client, cache);
+    const before = await cache.read();
+
+    server.setContent({
+      models: { ...models, version: '1.1.0', models: models.models.slice(1) },
+      narratives: {
+        ...narratives,
+        metadata: { ...narratives.metadata, version: '1.1.0' },
+        narratives: [
+          { ...narratives.narratives[0], confidence: 7 },
+          ...narratives.narratives.slice(1),
+        ],
+      },
+    });
+    const result = await syncContent(client, cache);
+
+    expect(result).toMatchObject({ models: 'rolled-back', narratives: 'rolled-back' });
+    expect(result.errors[0].path).toMatch(/^narratives\.upserted\[0\]/);
+    expect(await cache.read()).toEqual(before);
+  });
+
+  it('treats an unreadable cache as empty', async () => {
+    const storage = memoryStorage();
+    storage.setItem('hummbl-content-cache', '{not json');
+    const cache = createContentCache(storage);
+    expect(await cache.read()).toEqual({});
+  });
+});
@@ -0,0 +1,189 @@
+// Using DE3 (Decomposition) - Typed client for the HUMMBL content API
+
+import type {
+  CacheValidators,
+  CollectionDelta,
+  ContentPage,
+  DeltaFetchResult,
+  FetchLike,
+  FetchResult,
+  MentalModel,
+  MentalModelsData,
+  ModelsPage,
+  Narrative,
+  NarrativesData,
+  NarrativesPage,
+  PageProgressListener,
+} from '../types';
+
+export interface ContentApiClientOptions {
+  baseUrl: string;
+  fetch?: FetchLike;
+  pageSize?: number;
+  /** When this returns true, requests fail before reaching the network */
+  isOffline?: () => boolean;
+}
+
+export interface ContentApiClient {
+  fetchModels: (
+    validators?: CacheValidators,
+    onPage?: PageProgressListener
+  ) => Promise<FetchResult<MentalModelsData>>;
+  fetchNarratives: (
+    validators?: CacheValidators,
+    onPage?: PageProgressListener
+  ) => Promise<FetchResult<NarrativesData>>;
+  fetchModelChanges: (sinceVersion: string) => Promise<DeltaFetchResult<MentalModel>>;
+  fetchNarrativeChanges: (sinceVersion: string) => Promise<DeltaFetchResult<Narrative>>;
+}
+
+/**
+ * Error raised for non-2xx responses, malformed pages or inconsistent pagination
+ */
+export class ContentApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number | null = null
+  ) {
+    super(message);
+    this.name = 'ContentApiError';
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+// Using IN2 (Premortem) - Without a page count the walk never ends, e.g. on a proxy's 200 error page
+const isContentPage = (body: unknown): body is ContentPage<unknown, unknown> => {
+  if (typeof body !== 'object' || body === null) return false;
+  const { items, totalPages } = body as Partial<ContentPage<unknown, unknown>>;
+  return Array.isArray(items) && Number.isInteger(totalPages) && (totalPages as number) >= 1;
+};
+
+// Called through globalThis so browsers don't reject an unbound fetch
+const platformFetch: FetchLike = (url, init) =>
+  (globalThis as unknown as { fetch: FetchLike }).fetch(url, init);
+
+/**
+ * Create a client for the content API. Collections are fetched page by page;
+ * cached validators are sent on the first page so unchanged content costs one
+ * 304 round-trip. `/changes` endpoints return only records that differ from a
+ * given version.
+ */
+export function createContentApiClient({
+  baseUrl,
+  fetch: fetchImpl = platformFetch,
+  pageSize = DEFAULT_PAGE_SIZE,
+  isOffline = () => false,
+}: ContentApiClientOptions): ContentApiClient {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  const request: FetchLike = (url, init) => {
+    if (isOffline()) {
+      return Promise.reject(
+        new ContentApiError('Offline mode is on; content requests are disabled')
+      );
+    }
+    return fetchImpl(url, init);
+  };
+
+  async function fetchAllPages<T, M>(
+    path: string,
+    validators: CacheValidators,
+    onPage?: PageProgressListener
+  ): Promise<FetchResult<{ items: T[]; metadata: M }>> {
+    const items: T[] = [];
+    let metadata: M | null = null;
+    let etag: string | null = null;
+    let lastModified: string | null = null;
+
+    for (let page = 1; ; page++) {
+      const headers: Record<string, string> = { Accept: 'application/json' };
+      if (page === 1) {
+        if (validators.etag) headers['If-None-Match'] = validators.etag;
+        if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+      }
+
+      const response = await request(`${root}${path}?page=${page}&pageSize=${pageSize}`, {
+        method: 'GET',
+        headers,
+      });
+
+      if (response.status === 304 && page === 1) {
+        return { status: 'not-modified' };
+      }
+      if (!response.ok) {
+        throw new ContentApiError(`GET ${path} page ${page} failed`, response.status);
+      }
+
+      // Using IN2 (Premortem) - A changed ETag mid-walk means pages come from different versions
+      const pageEtag = response.headers.get('ETag');
+      if (page === 1) {
+        etag = pageEtag;
+        lastModified = response.headers.get('Last-Modified');
+      } else if (etag && pageEtag && pageEtag !== etag) {
+        throw new ContentApiError(`${path} changed while paginating; retry the sync`);
+      }
+
+      const body: unknown = await response.json();
+      if (!isContentPage(body)) {
+        throw new ContentApiError(`GET ${path} page ${page} returned no page of content`);
+      }
+      items.push(...(body.items as T[]));
+      metadata = body.metadata as M;
+      onPage?.(page, body.totalPages);
+
+      if (page >= body.totalPages) break;
+    }
+
+    return { status: 'ok', data: { items, metadata: metadata as M }, etag, lastModified };
+  }
+
+  // Using IN1 (Inversion) - 404/410 mean "can't diff from there", so the caller falls back to a full fetch
+  async function fetchChanges<T>(path: string, sinceVersion: string): Promise<DeltaFetchResult<T>> {
+    const response = await request(
+      `${root}${path}/changes?since=${encodeURIComponent(sinceVersion)}`,
+      { method: 'GET', headers: { Accept: 'application/json' } }
+    );
+
+    if (response.status === 304) return { status: 'not-modified' };
+    if (response.status === 404 || response.status === 410) return { status: 'reset' };
+    if (!response.ok) {
+      throw new ContentApiError(`GET ${path}/changes failed`, response.status);
+    }
+    return { status: 'delta', delta: (await response.json()) as CollectionDelta<T> };
+  }
+
+  return {
+    fetchModels: async (validators = {}, onPage) => {
+      const result = await fetchAllPages<ModelsPage['items'][number], ModelsPage['metadata']>(
+        '/v1/models',
+        validators,
+        onPage
+      );
+      if (result.status === 'not-modified') return result;
+      const { items, metadata } = result.data;
+      return {
+        ...result,
+        data: { ...metadata, totalModels: items.length, models: items },
+      };
+    },
+
+    fetchNarratives: async (validators = {}, onPage) => {
+      const result = await fetchAllPages<
+        NarrativesPage['items'][number],
+        NarrativesPage['metadata']
+      >('/v1/narratives', validators, onPage);
+      if (result.status === 'not-modified') return result;
+      const { items, metadata } = result.data;
+      return {
+        ...result,
+        data: { metadata: { ...metadata, total_narratives: items.length }, narratives: items },
+      };
+    },
+
+    fetchModelChanges: (sinceVersion) => fetchChanges<MentalModel>('/v1/models', sinceVersion),
+
+    fetchNarrativeChanges: (sinceVersion) =>
+      fetchChanges<Narrative>('/v1/narratives', sinceVersion),
+  };
+}
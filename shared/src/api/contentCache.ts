@@ -0,0 +1,63 @@
+// Using SY8 (Systems) - Local cache of synced content on top of platform storage
+
+import type { StateStorage } from 'zustand/middleware';
+import type { CachedContent, ContentSource } from '../types';
+import { utf8Encode } from '../utils/sha256';
+
+export const CONTENT_CACHE_KEY = 'hummbl-content-cache';
+
+export interface ContentCache {
+  read: () => Promise<CachedContent>;
+  write: (content: CachedContent) => Promise<void>;
+  clear: () => Promise<void>;
+  /** Bytes the cached documents occupy in storage */
+  size: () => Promise<number>;
+}
+
+/**
+ * Create a content cache backed by any Zustand-compatible storage adapter
+ */
+export function createContentCache(storage: StateStorage, key = CONTENT_CACHE_KEY): ContentCache {
+  return {
+    read: async () => {
+      const raw = await storage.getItem(key);
+      if (!raw) return {};
+      try {
+        return JSON.parse(raw) as CachedContent;
+      } catch (error) {
+        console.warn(`Ignoring unreadable content cache ${key}:`, error);
+        return {};
+      }
+    },
+
+    write: async (content) => {
+      await storage.setItem(key, JSON.stringify(content));
+    },
+
+    clear: async () => {
+      await storage.removeItem(key);
+    },
+
+    size: async () => {
+      const raw = await storage.getItem(key);
+      return raw ? utf8Encode(raw).length : 0;
+    },
+  };
+}
+
+/**
+ * Expose cached documents as a content source so synced content overrides
+ * the bundled JSON on the next load
+ */
+export function createCachedContentSource(cache: ContentCache): ContentSource {
+  return {
+    name: 'cache',
+    load: async () => {
+      const cached = await cache.read();
+      return {
+        ...(cached.models && { models: cached.models.data }),
+        ...(cached.narratives && { narratives: cached.narratives.data }),
+      };
+    },
+  };
+}
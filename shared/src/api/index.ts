@@ -0,0 +1,8 @@
+// Using CO5 (Composition) - Export content API client, cache and sync
+// The mock server is Node-only and imported directly from './mockServer' by tests and scripts.
+
+export { createContentApiClient, ContentApiError } from './contentApi';
+export type { ContentApiClient, ContentApiClientOptions } from './contentApi';
+export { createContentCache, createCachedContentSource, CONTENT_CACHE_KEY } from './contentCache';
+export type { ContentCache } from './contentCache';
+export { syncContent } from './sync';
@@ -0,0 +1,212 @@
+// Using P1 (First Principles) - Local HTTP stand-in for the content API
+//
+// Node-only: used by tests and `pnpm --filter @hummbl/shared mock-server`.
+// Deliberately not exported from the package entry so app bundles never pull in node:http.
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { createHash } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import type {
+  CollectionDelta,
+  ContentPage,
+  ContentSnapshot,
+  MentalModelsData,
+  NarrativesData,
+} from '../types';
+import { diffModelsData, diffNarrativesData } from '../content/delta';
+import bundledModels from '../content/data/mental-models.json';
+import bundledNarratives from '../content/data/narratives.json';
+
+export interface MockContentServerOptions {
+  models?: MentalModelsData;
+  narratives?: NarrativesData;
+  port?: number;
+  host?: string;
+}
+
+export interface MockRequestLogEntry {
+  path: string;
+  status: number;
+  headers: Record<string, string | undefined>;
+}
+
+export interface MockContentServer {
+  url: string;
+  requests: MockRequestLogEntry[];
+  setContent: (snapshot: ContentSnapshot) => void;
+  close: () => Promise<void>;
+}
+
+interface Collection {
+  items: unknown[];
+  metadata: unknown;
+  etag: string;
+  lastModified: string;
+  version: string;
+  /** Delta from an earlier version to this one, or null if that version was never served */
+  changesSince: (version: string) => CollectionDelta<unknown> | null;
+}
+
+const etagFor = (value: unknown) =>
+  `"${createHash('sha1').update(JSON.stringify(value)).digest('hex').slice(0, 16)}"`;
+
+// Using RE2 (Feedback Loops) - Every version served is kept so clients can ask for deltas from it
+function modelsCollection(
+  doc: MentalModelsData,
+  history: Map<string, MentalModelsData>
+): Collection {
+  history.set(doc.version, doc);
+  const { models, totalModels: _total, ...metadata } = doc;
+  return {
+    items: models,
+    metadata,
+    etag: etagFor(doc),
+    lastModified: new Date(doc.lastUpdated).toUTCString(),
+    version: doc.version,
+    changesSince: (version) => {
+      const base = history.get(version);
+      return base ? diffModelsData(base, doc) : null;
+    },
+  };
+}
+
+function narrativesCollection(
+  doc: NarrativesData,
+  history: Map<string, NarrativesData>
+): Collection {
+  history.set(doc.metadata.version, doc);
+  return {
+    items: doc.narratives,
+    metadata: doc.metadata,
+    etag: etagFor(doc),
+    lastModified: new Date(doc.metadata.last_updated).toUTCString(),
+    version: doc.metadata.version,
+    changesSince: (version) => {
+      const base = history.get(version);
+      return base ? diffNarrativesData(base, doc) : null;
+    },
+  };
+}
+
+function isNotModified(req: IncomingMessage, collection: Collection): boolean {
+  const ifNoneMatch = req.headers['if-none-match'];
+  if (ifNoneMatch) return ifNoneMatch === collection.etag;
+  const ifModifiedSince = req.headers['if-modified-since'];
+  if (ifModifiedSince) {
+    return Date.parse(collection.lastModified) <= Date.parse(ifModifiedSince);
+  }
+  return false;
+}
+
+/**
+ * Start a server that serves content fixtures with the same pagination,
+ * conditional-request and delta semantics as the real API. Defaults to
+ * bundled JSON; `setContent` publishes a new version.
+ */
+export function startMockContentServer({
+  models = bundledModels as MentalModelsData,
+  narratives = bundledNarratives as NarrativesData,
+  port = 0,
+  host = '127.0.0.1',
+}: MockContentServerOptions = {}): Promise<MockContentServer> {
+  const modelHistory = new Map<string, MentalModelsData>();
+  const narrativeHistory = new Map<string, NarrativesData>();
+  const collections: Record<string, Collection> = {
+    '/v1/models': modelsCollection(models, modelHistory),
+    '/v1/narratives': narrativesCollection(narratives, narrativeHistory),
+  };
+  const requests: MockRequestLogEntry[] = [];
+
+  const respond = (
+    req: IncomingMessage,
+    res: ServerResponse,
+    path: string,
+    status: number,
+    body?: unknown,
+    headers: Record<string, string> = {}
+  ) => {
+    requests.push({
+      path,
+      status,
+      headers: {
+        'if-none-match': req.headers['if-none-match'],
+        'if-modified-since': req.headers['if-modified-since'],
+      },
+    });
+    res.writeHead(status, {
+      ...(body !== undefined && { 'Content-Type': 'application/json' }),
+      ...headers,
+    });
+    res.end(body !== undefined ? JSON.stringify(body) : undefined);
+  };
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const isChanges = url.pathname.endsWith('/changes');
+    const collection = collections[url.pathname.replace(/\/changes$/, '')];
+
+    if (req.method !== 'GET' || !collection) {
+      respond(req, res, url.pathname, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (isChanges) {
+      const since = url.searchParams.get('since') ?? '';
+      if (since === collection.version) {
+        respond(req, res, url.pathname, 304);
+        return;
+      }
+      const delta = collection.changesSince(since);
+      if (!delta) {
+        respond(req, res, url.pathname, 410, { error: `No delta available from ${since}` });
+        return;
+      }
+      respond(req, res, url.pathname, 200, delta);
+      return;
+    }
+
+    const validators = { ETag: collection.etag, 'Last-Modified': collection.lastModified };
+    if (isNotModified(req, collection)) {
+      respond(req, res, url.pathname, 304, undefined, validators);
+      return;
+    }
+
+    const pageSize = Math.max(1, Number(url.searchParams.get('pageSize')) || 50);
+    const page = Math.max(1, Number(url.searchParams.get('page')) || 1);
+    const start = (page - 1) * pageSize;
+    const body: ContentPage<unknown, unknown> = {
+      items: collection.items.slice(start, start + pageSize),
+      page,
+      pageSize,
+      totalItems: collection.items.length,
+      totalPages: Math.max(1, Math.ceil(collection.items.length / pageSize)),
+      metadata: collection.metadata,
+    };
+    respond(req, res, url.pathname, 200, body, validators);
+  });
+
+  return new Promise((resolve) => {
+    server.listen(port, host, () => {
+      const address = server.address() as AddressInfo;
+      resolve({
+        url: `http://${host}:${address.port}`,
+        requests,
+        setContent: (snapshot) => {
+          if (snapshot.models) {
+            collections['/v1/models'] = modelsCollection(snapshot.models, modelHistory);
+          }
+          if (snapshot.narratives) {
+            collections['/v1/narratives'] = narrativesCollection(
+              snapshot.narratives,
+              narrativeHistory
+            );
+          }
+        },
+        close: () =>
+          new Promise<void>((resolveClose, reject) =>
+            server.close((error) => (error ? reject(error) : resolveClose()))
+          ),
+      });
+    });
+  });
+}
@@ -0,0 +1,169 @@
+// Using RE2 (Feedback Loops) - Pull remote content into the local cache
+
+import type {
+  CacheValidators,
+  CachedDocument,
+  CollectionDelta,
+  ContentSyncResult,
+  DeltaApplyResult,
+  DeltaFetchResult,
+  DocumentSyncStatus,
+  FetchResult,
+  ValidationIssue,
+  ValidationResult,
+} from '../types';
+import { applyModelsDelta, applyNarrativesDelta } from '../content/delta';
+import { validateMentalModelsData, validateNarrativesData } from '../content/validation';
+import type { ContentApiClient } from './contentApi';
+import type { ContentCache } from './contentCache';
+
+interface StagedDocument<T> {
+  status: DocumentSyncStatus;
+  document?: CachedDocument<T>;
+  errors: ValidationIssue[];
+}
+
+interface CollectionSync<T, R> {
+  label: string;
+  cached: CachedDocument<T> | undefined;
+  versionOf: (doc: T) => string;
+  fetchChanges: (sinceVersion: string) => Promise<DeltaFetchResult<R>>;
+  applyDelta: (doc: T, delta: CollectionDelta<R>) => DeltaApplyResult<T>;
+  fetchFull: (validators?: CacheValidators) => Promise<FetchResult<T>>;
+  /** Checks a full download that replaces a delta which failed to apply */
+  validateFull: (doc: T) => ValidationResult;
+}
+
+const withLabel = (label: string, issues: ValidationIssue[]) =>
+  issues.map((issue) => ({ ...issue, path: `${label}.${issue.path}` }));
+
+// Using DE3 (Decomposition) - Prefer a delta from the cached version, fall back to a full download
+async function stageCollection<T, R>(
+  {
+    label,
+    cached,
+    versionOf,
+    fetchChanges,
+    applyDelta,
+    fetchFull,
+    validateFull,
+  }: CollectionSync<T, R>,
+  now: string
+): Promise<StagedDocument<T>> {
+  // Using IN1 (Inversion) - Stale validators only cost a 200, and an API without `/changes`
+  // still gets its 304s
+  const validators = {
+    etag: cached?.etag ?? null,
+    lastModified: cached?.lastModified ?? null,
+  };
+
+  if (cached) {
+    const changes = await fetchChanges(versionOf(cached.data));
+    if (changes.status === 'not-modified') return { status: 'not-modified', errors: [] };
+    if (changes.status === 'delta') {
+      const applied = applyDelta(cached.data, changes.delta);
+      if (applied.ok) {
+        return {
+          status: 'patched',
+          // The old validators stay, so a later full download can still be conditional
+          document: { ...validators, data: applied.data, fetchedAt: now },
+          errors: [],
+        };
+      }
+
+      // Using RE2 (Feedback Loops) - Replace a delta that won't apply with a checked full download
+      const deltaErrors = withLabel(label, applied.errors);
+      const full = await fetchFull(validators);
+      if (full.status === 'not-modified') return { status: 'rolled-back', errors: deltaErrors };
+      const validation = validateFull(full.data);
+      if (!validation.valid) {
+        return {
+          status: 'rolled-back',
+          errors: [...deltaErrors, ...withLabel(label, validation.errors)],
+        };
+      }
+      return {
+        status: 'updated',
+        document: {
+          data: full.data,
+          etag: full.etag,
+          lastModified: full.lastModified,
+          fetchedAt: now,
+        },
+        errors: [],
+      };
+    }
+  }
+
+  const full = await fetchFull(validators);
+  if (full.status === 'not-modified') return { status: 'not-modified', errors: [] };
+  return {
+    status: 'updated',
+    document: { data: full.data, etag: full.etag, lastModified: full.lastModified, fetchedAt: now },
+    errors: [],
+  };
+}
+
+/**
+ * Bring the cache up to date with the API. Cached collections are patched
+ * with deltas from their version; the cache is only written if every delta
+ * applied cleanly, otherwise it is left exactly as it was.
+ */
+export async function syncContent(
+  client: ContentApiClient,
+  cache: ContentCache
+): Promise<ContentSyncResult> {
+  const cached = await cache.read();
+  const now = new Date().toISOString();
+
+  const [models, narratives] = await Promise.all([
+    stageCollection(
+      {
+        label: 'models',
+        cached: cached.models,
+        versionOf: (doc) => doc.version,
+        fetchChanges: client.fetchModelChanges,
+        applyDelta: applyModelsDelta,
+        fetchFull: client.fetchModels,
+        validateFull: validateMentalModelsData,
+      },
+      now
+    ),
+    stageCollection(
+      {
+        label: 'narratives',
+        cached: cached.narratives,
+        versionOf: (doc) => doc.metadata.version,
+        fetchChanges: client.fetchNarrativeChanges,
+        applyDelta: applyNarrativesDelta,
+        fetchFull: client.fetchNarratives,
+        validateFull: validateNarrativesData,
+      },
+      now
+    ),
+  ]);
+
+  const errors = [...models.errors, ...narratives.errors];
+
+  // Using IN2 (Premortem) - One rejected delta rolls back the whole sync, not just its collection
+  if (errors.length > 0) {
+    const rollback = (staged: StagedDocument<unknown>): DocumentSyncStatus =>
+      staged.document ? 'rolled-back' : staged.status;
+    return {
+      models: rollback(models),
+      narratives: rollback(narratives),
+      syncedAt: now,
+      errors,
+    };
+  }
+
+  if (models.document || narratives.document) {
+    await cache.write({
+      ...cached,
+      ...(models.document && { models: models.document }),
+      ...(narratives.document && { narratives: narratives.document }),
+    });
+  }
+
+  return { models: models.status, narratives: narratives.status, syncedAt: now, errors };
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { previewBookmarkImport } from './importPreview';
+import { exportBookmarksJson } from './serializers';
+import type { Bookmark, BookmarkType } from '../types';
+
+const bookmark = (id: string, type: BookmarkType, itemId: string): Bookmark => ({
+  id,
+  type,
+  itemId,
+  title: itemId.toUpperCase(),
+  createdAt: '2024-03-01T10:00:00.000Z',
+});
+
+const known = new Set(['mental-model:p1', 'mental-model:in2', 'narrative:n7']);
+const options = {
+  existing: [bookmark('b1', 'mental-model', 'p1')],
+  isKnownItem: (type: BookmarkType, itemId: string) => known.has(`${type}:${itemId}`),
+};
+
+describe('bookmark import preview', () => {
+  it('classifies items as new, duplicate or unknown', () => {
+    const json = exportBookmarksJson([
+      bookmark('x1', 'mental-model', 'p1'),
+      bookmark('x2', 'narrative', 'n7'),
+      bookmark('x3', 'narrative', 'n7'),
+      bookmark('x4', 'mental-model', 'zz9'),
+    ]);
+    const parsed = previewBookmarkImport(json, options);
+    if (!parsed.ok) throw new Error(parsed.errors.join('; '));
+    expect(parsed.preview.items.map((i) => i.status)).toEqual([
+      'duplicate',
+      'new',
+      'duplicate',
+      'unknown',
+    ]);
+    expect(parsed.preview.counts).toEqual({ new: 1, duplicate: 2, unknown: 1 });
+  });
+
+  it('rejects malformed files with every problem listed', () => {
+    expect(previewBookmarkImport('{', options)).toEqual({ ok: false, errors: ['Not valid JSON'] });
+    expect(previewBookmarkImport('{"format":"other"}', options)).toMatchObject({ ok: false });
+
+    const newer = JSON.stringify({ format: 'hummbl-bookmarks', version: 99, bookmarks: [] });
+    expect(previewBookmarkImport(newer, options)).toMatchObject({
+      ok: false,
+      errors: [expect.stringMatching(/newer version/)],
+    });
+
+    const invalid = JSON.stringify({
+      format: 'hummbl-bookmarks',
+      version: 1,
+      bookmarks: [{ type: 'book', itemId: '', title: 'X', createdAt: 'yesterday', tags: [1] }],
+    });
+    expect(previewBookmarkImport(invalid, options)).toEqual({
+      ok: false,
+      errors: [
+        'bookmarks[0].type must be one of mental-model, narrative',
+        'bookmarks[0].itemId must be a non-empty string',
+        'bookmarks[0].createdAt must be an ISO date',
+        'bookmarks[0].tags must be a list of strings',
+      ],
+    });
+  });
+
+  it('keeps only known fields', () => {
+    const json = JSON.stringify({
+      format: 'hummbl-bookmarks',
+      version: 1,
+      bookmarks: [{ ...bookmark('x', 'narrative', 'n7'), id: 'x', isAdmin: true, tags: ['A b'] }],
+    });
+    const parsed = previewBookmarkImport(json, options);
+    expect(parsed.ok && parsed.preview.items[0].bookmark).toEqual({
+      type: 'narrative',
+      itemId: 'n7',
+      title: 'N7',
+      createdAt: '2024-03-01T10:00:00.000Z',
+      tags: ['a-b'],
+    });
+  });
+});
@@ -0,0 +1,162 @@
+// Using IN2 (Premortem) - Validate an import and show what it would do before anything is written
+
+import type {
+  Bookmark,
+  BookmarkExportCollection,
+  BookmarkExportItem,
+  BookmarkImportItem,
+  BookmarkImportStatus,
+  BookmarkType,
+  ParsedBookmarkImport,
+} from '../types';
+import { BOOKMARK_EXPORT_VERSION, bookmarkKey } from './serializers';
+import { normalizeBookmarkTags } from './tags';
+
+export interface PreviewImportOptions {
+  /** Bookmarks saved now, to find duplicates */
+  existing: Bookmark[];
+  /** Whether the app has content for this item */
+  isKnownItem: (type: BookmarkType, itemId: string) => boolean;
+}
+
+type Obj = Record<string, unknown>;
+
+const BOOKMARK_TYPES: BookmarkType[] = ['mental-model', 'narrative'];
+
+const isRecord = (value: unknown): value is Obj =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim() !== '';
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((v) => typeof v === 'string');
+
+function readBookmark(value: unknown, path: string, errors: string[]): BookmarkExportItem | null {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const before = errors.length;
+  if (!BOOKMARK_TYPES.includes(value.type as BookmarkType)) {
+    errors.push(`${path}.type must be one of ${BOOKMARK_TYPES.join(', ')}`);
+  }
+  if (!isNonEmptyString(value.itemId)) errors.push(`${path}.itemId must be a non-empty string`);
+  if (!isNonEmptyString(value.title)) errors.push(`${path}.title must be a non-empty string`);
+  if (typeof value.createdAt !== 'string' || Number.isNaN(Date.parse(value.createdAt))) {
+    errors.push(`${path}.createdAt must be an ISO date`);
+  }
+  if (value.description !== undefined && typeof value.description !== 'string') {
+    errors.push(`${path}.description must be a string`);
+  }
+  if (value.tags !== undefined && !isStringArray(value.tags)) {
+    errors.push(`${path}.tags must be a list of strings`);
+  }
+  if (value.note !== undefined && typeof value.note !== 'string') {
+    errors.push(`${path}.note must be a string`);
+  }
+  if (errors.length > before) return null;
+
+  // Copy known fields only, so nothing unexpected rides along into the store
+  const note = typeof value.note === 'string' ? value.note.trim() : '';
+  return {
+    type: value.type as BookmarkType,
+    itemId: value.itemId as string,
+    title: value.title as string,
+    createdAt: value.createdAt as string,
+    ...(typeof value.description === 'string' && { description: value.description }),
+    ...(isStringArray(value.tags) && { tags: normalizeBookmarkTags(value.tags) }),
+    ...(note && { note }),
+  };
+}
+
+function readCollection(
+  value: unknown,
+  path: string,
+  errors: string[]
+): BookmarkExportCollection | null {
+  if (!isRecord(value)) {
+    errors.push(`${path} must be an object`);
+    return null;
+  }
+  const before = errors.length;
+  if (!isNonEmptyString(value.name)) errors.push(`${path}.name must be a non-empty string`);
+  if (typeof value.createdAt !== 'string') errors.push(`${path}.createdAt must be an ISO date`);
+  if (!isStringArray(value.items)) errors.push(`${path}.items must be a list of strings`);
+  if (errors.length > before) return null;
+  return {
+    name: (value.name as string).trim(),
+    createdAt: value.createdAt as string,
+    items: value.items as string[],
+  };
+}
+
+/**
+ * Parse a JSON export and classify every bookmark in it as new, duplicate or
+ * unknown, without changing any state. A file that fails validation is
+ * rejected whole, with every problem listed.
+ */
+export function previewBookmarkImport(
+  json: string,
+  { existing, isKnownItem }: PreviewImportOptions
+): ParsedBookmarkImport {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    return { ok: false, errors: ['Not valid JSON'] };
+  }
+
+  if (!isRecord(data) || data.format !== 'hummbl-bookmarks') {
+    return { ok: false, errors: ['Not a HUMMBL bookmarks export'] };
+  }
+  if (typeof data.version !== 'number' || !Number.isInteger(data.version) || data.version < 1) {
+    return { ok: false, errors: ['Missing or invalid export version'] };
+  }
+  if (data.version > BOOKMARK_EXPORT_VERSION) {
+    return {
+      ok: false,
+      errors: [
+        `Exported by a newer version of the app (format v${data.version}); update to import it`,
+      ],
+    };
+  }
+
+  const errors: string[] = [];
+  if (!Array.isArray(data.bookmarks)) errors.push('bookmarks must be a list');
+  if (data.collections !== undefined && !Array.isArray(data.collections)) {
+    errors.push('collections must be a list');
+  }
+  const bookmarks = (Array.isArray(data.bookmarks) ? data.bookmarks : []).map((value, i) =>
+    readBookmark(value, `bookmarks[${i}]`, errors)
+  );
+  const collections = (Array.isArray(data.collections) ? data.collections : []).map((value, i) =>
+    readCollection(value, `collections[${i}]`, errors)
+  );
+  if (errors.length > 0) return { ok: false, errors };
+
+  const saved = new Set(existing.map(bookmarkKey));
+  const seen = new Set<string>();
+  const counts: Record<BookmarkImportStatus, number> = { new: 0, duplicate: 0, unknown: 0 };
+  const items: BookmarkImportItem[] = (bookmarks as BookmarkExportItem[]).map((bookmark) => {
+    const key = bookmarkKey(bookmark);
+    const status: BookmarkImportStatus = !isKnownItem(bookmark.type, bookmark.itemId)
+      ? 'unknown'
+      : saved.has(key) || seen.has(key)
+        ? 'duplicate'
+        : 'new';
+    seen.add(key);
+    counts[status]++;
+    return { bookmark, status };
+  });
+
+  return {
+    ok: true,
+    preview: {
+      exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+      items,
+      collections: collections as BookmarkExportCollection[],
+      counts,
+    },
+  };
+}
@@ -0,0 +1,18 @@
+// Using CO5 (Composition) - Export bookmark import, export, routing, tags and reconciliation
+
+export {
+  BOOKMARK_EXPORT_VERSION,
+  bookmarkKey,
+  toBookmarkExport,
+  exportBookmarksJson,
+  exportBookmarksMarkdown,
+  exportBookmarksCsv,
+  serializeBookmarks,
+} from './serializers';
+export type { ExportOptions } from './serializers';
+export { previewBookmarkImport } from './importPreview';
+export type { PreviewImportOptions } from './importPreview';
+export { resolveContentRoute } from './routes';
+export { normalizeBookmarkTags } from './tags';
+export { reconcileBookmarks, getBookmarkTargets } from './reconcile';
+export type { ReconcileContent, ReconcileOptions } from './reconcile';
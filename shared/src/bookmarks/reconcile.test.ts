@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { reconcileBookmarks, getBookmarkTargets } from './reconcile';
+import { resolveContentRoute } from './routes';
+import type { Bookmark, BookmarkType, MentalModel, Narrative } from '../types';
+
+const model = (id: string, code: string, name: string): MentalModel => ({
+  id,
+  code,
+  name,
+  description: 'A model',
+  category: 'Perspective',
+  tags: [],
+  transformations: ['P'],
+  sources: [],
+});
+
+const content = {
+  models: [
+    model('p1', 'P1', 'First Principles Thinking'),
+    model('in2', 'IN2', 'Premortem'),
+    model('sy3', 'SY3', 'Feedback Loops'),
+  ],
+  narratives: [{ id: 'nar1', title: 'Decision Making Under Uncertainty' } as Narrative],
+};
+
+const bookmark = (id: string, type: BookmarkType, itemId: string, title: string): Bookmark => ({
+  id,
+  type,
+  itemId,
+  title,
+  createdAt: '2024-03-01T10:00:00.000Z',
+});
+
+describe('bookmark reconciliation', () => {
+  it('leaves bookmarks whose content exists alone', () => {
+    const unavailable = reconcileBookmarks(
+      [
+        bookmark('b1', 'mental-model', 'p1', 'An old title'),
+        bookmark('b2', 'narrative', 'nar1', 'Decisions'),
+      ],
+      content
+    );
+    expect(unavailable.size).toBe(0);
+  });
+
+  it('finds content that moved to another id', () => {
+    const unavailable = reconcileBookmarks(
+      [
+        bookmark('byCode', 'mental-model', 'IN2', 'Premortem'),
+        bookmark('byTitle', 'mental-model', 'fp-1', 'First principles thinking'),
+      ],
+      content
+    );
+    expect(unavailable.get('byCode')).toMatchObject({
+      reason: 'renamed',
+      candidates: [{ type: 'mental-model', itemId: 'in2', title: 'Premortem' }],
+    });
+    expect(unavailable.get('byTitle')?.candidates.map((c) => c.itemId)).toEqual(['p1']);
+  });
+
+  it('suggests similar content of the same type for removed items', () => {
+    const unavailable = reconcileBookmarks(
+      [
+        bookmark('b1', 'mental-model', 'sy9', 'Reinforcing Feedback'),
+        bookmark('b2', 'narrative', 'nar9', 'Gone for good'),
+      ],
+      content
+    );
+    expect(unavailable.get('b1')).toMatchObject({
+      reason: 'removed',
+      candidates: [{ itemId: 'sy3' }],
+    });
+    expect(unavailable.get('b2')).toMatchObject({ reason: 'removed', candidates: [] });
+  });
+
+  it('flags nothing when content failed to load', () => {
+    const bookmarks = [
+      bookmark('b1', 'mental-model', 'p1', 'First Principles Thinking'),
+      bookmark('b2', 'narrative', 'nar9', 'Gone for good'),
+    ];
+    expect(reconcileBookmarks(bookmarks, { models: [], narratives: [] }).size).toBe(0);
+    // Narratives loaded, models didn't: only the missing narrative is reported
+    expect([...reconcileBookmarks(bookmarks, { ...content, models: [] }).keys()]).toEqual(['b2']);
+  });
+
+  it('lists every item of a type as a target', () => {
+    expect(getBookmarkTargets(content, 'narrative')).toEqual([
+      { type: 'narrative', itemId: 'nar1', title: 'Decision Making Under Uncertainty' },
+    ]);
+  });
+});
+
+describe('resolveContentRoute', () => {
+  it('routes by the content id', () => {
+    expect(resolveContentRoute('mental-model', 'p1')).toEqual({
+      pathname: '/mental-models/[id]',
+      params: { id: 'p1' },
+    });
+    expect(resolveContentRoute('narrative', 'nar1').pathname).toBe('/narratives/[id]');
+  });
+});
@@ -0,0 +1,106 @@
+// Using IN2 (Premortem) - Find bookmarks whose content is gone before they turn into dead links
+
+import type {
+  Bookmark,
+  BookmarkTarget,
+  BookmarkType,
+  MentalModel,
+  Narrative,
+  UnavailableBookmark,
+} from '../types';
+import { fuzzySearch } from '../utils/fuzzySearch';
+
+export interface ReconcileContent {
+  models: MentalModel[];
+  narratives: Narrative[];
+}
+
+export interface ReconcileOptions {
+  /** Replacement suggestions per unavailable bookmark */
+  limit?: number;
+}
+
+interface Candidate extends BookmarkTarget {
+  /** Other ids the content is known by, e.g. a model's code */
+  aliases: string[];
+}
+
+const normalize = (text: string) => text.trim().toLowerCase();
+
+const toCandidates = (content: ReconcileContent): Record<BookmarkType, Candidate[]> => ({
+  'mental-model': content.models.map((model) => ({
+    type: 'mental-model',
+    itemId: model.id,
+    title: model.name,
+    aliases: [model.code],
+  })),
+  narrative: content.narratives.map((narrative) => ({
+    type: 'narrative',
+    itemId: narrative.id,
+    title: narrative.title,
+    aliases: [],
+  })),
+});
+
+const toTarget = ({ type, itemId, title }: Candidate): BookmarkTarget => ({ type, itemId, title });
+
+/**
+ * Every bookmark whose content no longer exists, keyed by bookmark id.
+ * Content whose id differs only in case, whose code matches the old id or
+ * whose title is unchanged counts as renamed; otherwise the closest titles
+ * are suggested as replacements. Bookmarks of a type with no content at all
+ * are left alone, since that is a failed load rather than removed content.
+ */
+export function reconcileBookmarks(
+  bookmarks: Bookmark[],
+  content: ReconcileContent,
+  { limit = 3 }: ReconcileOptions = {}
+): Map<string, UnavailableBookmark> {
+  const candidates = toCandidates(content);
+  const known = new Set(
+    [...candidates['mental-model'], ...candidates.narrative].map((c) => `${c.type}:${c.itemId}`)
+  );
+  const unavailable = new Map<string, UnavailableBookmark>();
+
+  for (const bookmark of bookmarks) {
+    if (known.has(`${bookmark.type}:${bookmark.itemId}`)) continue;
+
+    const ofType = candidates[bookmark.type];
+    if (ofType.length === 0) continue;
+    const id = normalize(bookmark.itemId);
+    const title = normalize(bookmark.title);
+    const renamed = ofType.filter(
+      (c) =>
+        normalize(c.itemId) === id ||
+        c.aliases.some((alias) => normalize(alias) === id) ||
+        normalize(c.title) === title
+    );
+    if (renamed.length > 0) {
+      unavailable.set(bookmark.id, {
+        bookmark,
+        reason: 'renamed',
+        candidates: renamed.slice(0, limit).map(toTarget),
+      });
+      continue;
+    }
+
+    const similar = fuzzySearch(ofType, bookmark.title, {
+      keys: ['title'],
+      limit,
+      operator: 'or',
+    }).map((result) => toTarget(result.item));
+    unavailable.set(bookmark.id, { bookmark, reason: 'removed', candidates: similar });
+  }
+
+  return unavailable;
+}
+
+/**
+ * Content of one type as bookmark targets, for choosing a replacement by hand
+ */
+export function getBookmarkTargets(
+  content: ReconcileContent,
+  type: BookmarkType
+): BookmarkTarget[] {
+  return toCandidates(content)[type].map(toTarget);
+}
@@ -0,0 +1,13 @@
+// Using DE3 (Decomposition) - One place that knows which screen shows each kind of bookmark
+
+import type { BookmarkType, ContentRoute } from '../types';
+
+/**
+ * The detail screen for a bookmarked item. Takes the content's `itemId`,
+ * never the bookmark's own generated id.
+ */
+export function resolveContentRoute(type: BookmarkType, itemId: string): ContentRoute {
+  return type === 'mental-model'
+    ? { pathname: '/mental-models/[id]', params: { id: itemId } }
+    : { pathname: '/narratives/[id]', params: { id: itemId } };
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  exportBookmarksCsv,
+  exportBookmarksJson,
+  exportBookmarksMarkdown,
+  toBookmarkExport,
+} from './serializers';
+import type { Bookmark, BookmarkCollection } from '../types';
+
+const bookmarks: Bookmark[] = [
+  {
+    id: 'b1',
+    type: 'mental-model',
+    itemId: 'p1',
+    title: 'First Principles',
+    description: 'Break problems down',
+    createdAt: '2024-03-01T10:00:00.000Z',
+    tags: ['strategy'],
+    note: 'Use for the "pricing" debate, then revisit',
+  },
+  {
+    id: 'b2',
+    type: 'narrative',
+    itemId: 'n7',
+    title: 'Premortem *before* launch',
+    createdAt: '2024-03-02T10:00:00.000Z',
+  },
+  {
+    id: 'b3',
+    type: 'mental-model',
+    itemId: 'in2',
+    title: '=SUM(A1)',
+    createdAt: '2024-03-03T10:00:00.000Z',
+  },
+];
+
+const collections: BookmarkCollection[] = [
+  {
+    id: 'c1',
+    name: 'Client A',
+    createdAt: '2024-03-04T10:00:00.000Z',
+    bookmarkIds: ['b2', 'missing', 'b1'],
+  },
+];
+
+const exportedAt = '2024-04-01T12:00:00.000Z';
+
+describe('bookmark serializers', () => {
+  it('exports versioned JSON keyed by content, without local ids', () => {
+    const data = toBookmarkExport(bookmarks, { collections, exportedAt });
+    expect(data).toMatchObject({ format: 'hummbl-bookmarks', version: 1, exportedAt });
+    expect(data.bookmarks[0]).not.toHaveProperty('id');
+    expect(data.collections).toEqual([
+      {
+        name: 'Client A',
+        createdAt: collections[0].createdAt,
+        items: ['narrative:n7', 'mental-model:p1'],
+      },
+    ]);
+    expect(JSON.parse(exportBookmarksJson(bookmarks, { exportedAt }))).toEqual(
+      toBookmarkExport(bookmarks, { exportedAt })
+    );
+  });
+
+  it('writes a Markdown reading list with collections first', () => {
+    const markdown = exportBookmarksMarkdown(bookmarks, { collections, exportedAt });
+    expect(markdown).toBe(
+      [
+        '# HUMMBL Reading List',
+        '',
+        '_3 items, exported 2024-04-01_',
+        '',
+        '## Client A',
+        '',
+        '- [ ] **Premortem \\*before\\* launch**',
+        '- [ ] **First Principles** — Break problems down',
+        '  - Tags: `strategy`',
+        '  - Note: Use for the "pricing" debate, then revisit',
+        '',
+        '## Mental Models',
+        '',
+        '- [ ] **=SUM(A1)**',
+        '',
+      ].join('\n')
+    );
+  });
+
+  it('writes quoted CSV and defuses formulas', () => {
+    const lines = exportBookmarksCsv(bookmarks, { collections }).split('\r\n');
+    expect(lines[0]).toBe('type,itemId,title,description,tags,note,collections,createdAt');
+    expect(lines[1]).toBe(
+      'mental-model,p1,First Principles,Break problems down,strategy,' +
+        '"Use for the ""pricing"" debate, then revisit",Client A,2024-03-01T10:00:00.000Z'
+    );
+    expect(lines[3]).toBe("mental-model,in2,'=SUM(A1),,,,,2024-03-03T10:00:00.000Z");
+    expect(lines).toHaveLength(5);
+  });
+});
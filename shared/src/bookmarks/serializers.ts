@@ -0,0 +1,176 @@
+// Using DE3 (Decomposition) - Serialize bookmarks to portable JSON, a Markdown reading list and CSV
+
+import type {
+  Bookmark,
+  BookmarkCollection,
+  BookmarkExport,
+  BookmarkExportFormat,
+  BookmarkType,
+} from '../types';
+
+/** Bump when the JSON shape changes; imports accept this version and older */
+export const BOOKMARK_EXPORT_VERSION = 1;
+
+export interface ExportOptions {
+  /** Collections to include; only their members among the exported bookmarks are kept */
+  collections?: BookmarkCollection[];
+  /** ISO timestamp recorded in the export (default now) */
+  exportedAt?: string;
+}
+
+const TYPE_LABELS: Record<BookmarkType, string> = {
+  'mental-model': 'Mental Models',
+  narrative: 'Narratives',
+};
+
+/**
+ * Identify a bookmark by what it points at, which survives export and import
+ */
+export const bookmarkKey = ({ type, itemId }: { type: BookmarkType; itemId: string }): string =>
+  `${type}:${itemId}`;
+
+/**
+ * Build the versioned export object. Collections refer to bookmarks by
+ * `bookmarkKey` since bookmark ids are reassigned on import.
+ */
+export function toBookmarkExport(
+  bookmarks: Bookmark[],
+  { collections = [], exportedAt = new Date().toISOString() }: ExportOptions = {}
+): BookmarkExport {
+  const keys = new Map(bookmarks.map((b) => [b.id, bookmarkKey(b)]));
+  return {
+    format: 'hummbl-bookmarks',
+    version: BOOKMARK_EXPORT_VERSION,
+    exportedAt,
+    bookmarks: bookmarks.map(({ id: _id, ...bookmark }) => bookmark),
+    collections: collections.map((collection) => ({
+      name: collection.name,
+      createdAt: collection.createdAt,
+      items: collection.bookmarkIds
+        .map((id) => keys.get(id))
+        .filter((key): key is string => key !== undefined),
+    })),
+  };
+}
+
+export function exportBookmarksJson(bookmarks: Bookmark[], options?: ExportOptions): string {
+  return JSON.stringify(toBookmarkExport(bookmarks, options), null, 2);
+}
+
+// Characters that would otherwise format the text or break the list
+const escapeMarkdown = (text: string) => text.replace(/([\\`*_[\]<>|#])/g, '\\$1');
+
+// Keep multi-line notes inside their list item
+const indentLines = (text: string, indent: string) => text.split(/\r?\n/).join(`\n${indent}`);
+
+function markdownItem(bookmark: Bookmark): string {
+  const lines = [`- [ ] **${escapeMarkdown(bookmark.title)}**`];
+  if (bookmark.description) {
+    lines[0] += ` — ${escapeMarkdown(indentLines(bookmark.description, '  '))}`;
+  }
+  if (bookmark.tags && bookmark.tags.length > 0) {
+    lines.push(`  - Tags: ${bookmark.tags.map((tag) => `\`${tag}\``).join(', ')}`);
+  }
+  if (bookmark.note) {
+    lines.push(`  - Note: ${escapeMarkdown(indentLines(bookmark.note, '    '))}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * A checklist to read through: one section per collection in collection
+ * order, then everything else grouped by type
+ */
+export function exportBookmarksMarkdown(
+  bookmarks: Bookmark[],
+  options: ExportOptions = {}
+): string {
+  const { collections = [], exportedAt = new Date().toISOString() } = options;
+  const byId = new Map(bookmarks.map((b) => [b.id, b]));
+  const listed = new Set<string>();
+  const sections: string[] = [];
+
+  for (const collection of collections) {
+    const members = collection.bookmarkIds
+      .map((id) => byId.get(id))
+      .filter((b): b is Bookmark => b !== undefined);
+    if (members.length === 0) continue;
+    members.forEach((b) => listed.add(b.id));
+    sections.push(
+      `## ${escapeMarkdown(collection.name)}\n\n${members.map(markdownItem).join('\n')}`
+    );
+  }
+
+  const rest = bookmarks.filter((b) => !listed.has(b.id));
+  for (const type of Object.keys(TYPE_LABELS) as BookmarkType[]) {
+    const ofType = rest.filter((b) => b.type === type);
+    if (ofType.length === 0) continue;
+    sections.push(`## ${TYPE_LABELS[type]}\n\n${ofType.map(markdownItem).join('\n')}`);
+  }
+
+  const count = `${bookmarks.length} ${bookmarks.length === 1 ? 'item' : 'items'}`;
+  return [`# HUMMBL Reading List`, `_${count}, exported ${exportedAt.slice(0, 10)}_`, ...sections]
+    .join('\n\n')
+    .concat('\n');
+}
+
+const CSV_COLUMNS = [
+  'type',
+  'itemId',
+  'title',
+  'description',
+  'tags',
+  'note',
+  'collections',
+  'createdAt',
+] as const;
+
+// Using IN2 (Premortem) - Quote per RFC 4180, and defuse cells a spreadsheet would run as formulas
+function csvCell(value: string): string {
+  const safe = /^[=+\-@\t\r]/.test(value) ? `'${value}` : value;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+}
+
+/**
+ * One row per bookmark; tags and collection names are joined with "; "
+ */
+export function exportBookmarksCsv(
+  bookmarks: Bookmark[],
+  { collections = [] }: ExportOptions = {}
+): string {
+  const rows = bookmarks.map((bookmark) => {
+    const values: Record<(typeof CSV_COLUMNS)[number], string> = {
+      type: bookmark.type,
+      itemId: bookmark.itemId,
+      title: bookmark.title,
+      description: bookmark.description ?? '',
+      tags: (bookmark.tags ?? []).join('; '),
+      note: bookmark.note ?? '',
+      collections: collections
+        .filter((c) => c.bookmarkIds.includes(bookmark.id))
+        .map((c) => c.name)
+        .join('; '),
+      createdAt: bookmark.createdAt,
+    };
+    return CSV_COLUMNS.map((column) => csvCell(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\r\n').concat('\r\n');
+}
+
+/**
+ * Serialize in any export format
+ */
+export function serializeBookmarks(
+  format: BookmarkExportFormat,
+  bookmarks: Bookmark[],
+  options?: ExportOptions
+): string {
+  switch (format) {
+    case 'json':
+      return exportBookmarksJson(bookmarks, options);
+    case 'markdown':
+      return exportBookmarksMarkdown(bookmarks, options);
+    case 'csv':
+      return exportBookmarksCsv(bookmarks, options);
+  }
+}
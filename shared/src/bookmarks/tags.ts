@@ -0,0 +1,10 @@
+// Using P1 (First Principles) - One spelling per tag, whether typed, imported or merged
+
+/**
+ * Trim, lowercase and de-duplicate tags, dropping blanks; inner whitespace
+ * becomes a hyphen to match content tags like "first-principles"
+ */
+export const normalizeBookmarkTags = (tags: string[]): string[] =>
+  Array.from(
+    new Set(tags.map((tag) => tag.trim().toLowerCase().replace(/\s+/g, '-')).filter(Boolean))
+  );
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyModelsDelta,
+  applyNarrativesDelta,
+  diffModelsData,
+  diffNarrativesData,
+} from './delta';
+import bundledModels from './data/mental-models.json';
+import bundledNarratives from './data/narratives.json';
+import type { MentalModelsData, NarrativesData } from '../types';
+
+const models = bundledModels as MentalModelsData;
+const narratives = bundledNarratives as NarrativesData;
+
+const nextModels = (): MentalModelsData => {
+  const [first, second, ...rest] = models.models;
+  return {
+    ...models,
+    version: '1.1.0',
+    lastUpdated: '2025-02-01',
+    models: [
+      { ...first, description: 'Updated', meta: { ...first.meta, updated: '2025-02-01' } },
+      ...rest,
+      { ...second, id: 'sy20', code: 'SY20', transformations: ['SY'] },
+    ],
+  };
+};
+
+describe('diffModelsData', () => {
+  it('lists only added, changed and removed records', () => {
+    const next = nextModels();
+    const delta = diffModelsData(models, next);
+
+    expect(delta).toMatchObject({
+      baseVersion: '1.0.0',
+      version: '1.1.0',
+      lastUpdated: '2025-02-01',
+    });
+    expect(delta.upserted.map((m) => m.id)).toEqual([models.models[0].id, 'sy20']);
+    expect(delta.removed).toEqual([models.models[1].id]);
+  });
+
+  it('is empty between identical documents', () => {
+    const delta = diffNarrativesData(narratives, narratives);
+    expect(delta.upserted).toEqual([]);
+    expect(delta.removed).toEqual([]);
+  });
+});
+
+describe('applyModelsDelta', () => {
+  it('round-trips a diff', () => {
+    const next = nextModels();
+    const result = applyModelsDelta(models, diffModelsData(models, next));
+
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.version).toBe('1.1.0');
+    expect(result.data.totalModels).toBe(next.models.length);
+    expect(result.data.models.map((m) => m.id).sort()).toEqual(next.models.map((m) => m.id).sort());
+    // Existing records keep their position
+    expect(result.data.models[0].description).toBe('Updated');
+  });
+
+  it('rejects a delta computed against another version', () => {
+    const delta = { ...diffModelsData(models, nextModels()), baseVersion: '0.9.0' };
+    const result = applyModelsDelta(models, delta);
+    expect(result).toMatchObject({ ok: false, errors: [{ path: 'baseVersion' }] });
+  });
+
+  it('stops at the first invalid record without touching the input', () => {
+    const snapshot = JSON.stringify(models);
+    const delta = diffModelsData(models, nextModels());
+    delta.upserted[1] = { ...delta.upserted[1], transformations: [] };
+
+    const result = applyModelsDelta(models, delta);
+
+    expect(result.ok).toBe(false);
+    if (result.ok) return;
+    expect(result.errors[0].path).toBe('upserted[1].transformations');
+    expect(JSON.stringify(models)).toBe(snapshot);
+  });
+
+  it('rejects removal of a record that does not exist locally', () => {
+    const result = applyModelsDelta(models, {
+      baseVersion: models.version,
+      version: '1.1.0',
+      lastUpdated: '2025-02-01',
+      upserted: [],
+      removed: ['missing'],
+    });
+    expect(result).toMatchObject({ ok: false, errors: [{ path: 'removed[0]' }] });
+  });
+});
+
+describe('applyNarrativesDelta', () => {
+  it('appends new narratives and updates metadata', () => {
+    const result = applyNarrativesDelta(narratives, {
+      baseVersion: narratives.metadata.version,
+      version: '1.1.0',
+      lastUpdated: '2025-02-01',
+      upserted: [{ ...narratives.narratives[0], id: 'nar9', narrative_id: 'NAR-009' }],
+      removed: [],
+    });
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.data.metadata).toMatchObject({ version: '1.1.0', total_narratives: 9 });
+  });
+});
@@ -0,0 +1,153 @@
+// Using RE2 (Feedback Loops) - Compute and apply record-level deltas between content versions
+
+import type {
+  CollectionDelta,
+  DeltaApplyResult,
+  MentalModel,
+  MentalModelsData,
+  ModelsDelta,
+  Narrative,
+  NarrativesData,
+  NarrativesDelta,
+  ValidationIssue,
+  ValidationResult,
+} from '../types';
+import {
+  validateMentalModel,
+  validateMentalModelsData,
+  validateNarrative,
+  validateNarrativesData,
+} from './validation';
+
+type Identified = { id: string };
+
+const rejected = (path: string, message: string): ValidationIssue => ({
+  path,
+  message,
+  severity: 'error',
+});
+
+// Using P1 (First Principles) - A record changed if its serialized form changed, meta.updated included
+function diffRecords<T extends Identified>(
+  base: T[],
+  next: T[]
+): Pick<CollectionDelta<T>, 'upserted' | 'removed'> {
+  const baseById = new Map(base.map((record) => [record.id, JSON.stringify(record)]));
+  const nextIds = new Set(next.map((record) => record.id));
+  return {
+    upserted: next.filter((record) => baseById.get(record.id) !== JSON.stringify(record)),
+    removed: base.filter((record) => !nextIds.has(record.id)).map((record) => record.id),
+  };
+}
+
+// Using IN2 (Premortem) - Work on a copy and stop at the first bad record so nothing half-applied escapes
+function applyRecords<T extends Identified>(
+  records: T[],
+  delta: CollectionDelta<T>,
+  validate: (value: unknown, path: string) => ValidationResult
+): { ok: true; records: T[] } | { ok: false; errors: ValidationIssue[] } {
+  const working = new Map(records.map((record) => [record.id, record]));
+
+  for (let i = 0; i < delta.removed.length; i++) {
+    if (!working.delete(delta.removed[i])) {
+      return {
+        ok: false,
+        errors: [rejected(`removed[${i}]`, `unknown id "${delta.removed[i]}"`)],
+      };
+    }
+  }
+
+  for (let i = 0; i < delta.upserted.length; i++) {
+    const result = validate(delta.upserted[i], `upserted[${i}]`);
+    if (!result.valid) return { ok: false, errors: result.errors };
+    working.set(delta.upserted[i].id, delta.upserted[i]);
+  }
+
+  // Map keeps insertion order: existing records stay in place, new ones are appended
+  return { ok: true, records: Array.from(working.values()) };
+}
+
+function checkBaseVersion(current: string, delta: CollectionDelta<unknown>): ValidationIssue[] {
+  return delta.baseVersion === current
+    ? []
+    : [
+        rejected(
+          'baseVersion',
+          `delta targets ${delta.baseVersion} but local content is ${current}`
+        ),
+      ];
+}
+
+/**
+ * Describe how to get from one models document to another
+ */
+export function diffModelsData(base: MentalModelsData, next: MentalModelsData): ModelsDelta {
+  return {
+    baseVersion: base.version,
+    version: next.version,
+    lastUpdated: next.lastUpdated,
+    ...diffRecords(base.models, next.models),
+  };
+}
+
+/**
+ * Describe how to get from one narratives document to another
+ */
+export function diffNarrativesData(base: NarrativesData, next: NarrativesData): NarrativesDelta {
+  return {
+    baseVersion: base.metadata.version,
+    version: next.metadata.version,
+    lastUpdated: next.metadata.last_updated,
+    ...diffRecords(base.narratives, next.narratives),
+  };
+}
+
+/**
+ * Apply a models delta. The input document is never mutated; on any
+ * validation failure the result carries the errors instead of a document.
+ */
+export function applyModelsDelta(
+  doc: MentalModelsData,
+  delta: ModelsDelta
+): DeltaApplyResult<MentalModelsData> {
+  const versionErrors = checkBaseVersion(doc.version, delta);
+  if (versionErrors.length > 0) return { ok: false, errors: versionErrors };
+
+  const applied = applyRecords<MentalModel>(doc.models, delta, validateMentalModel);
+  if (!applied.ok) return applied;
+
+  const data: MentalModelsData = {
+    ...doc,
+    version: delta.version,
+    lastUpdated: delta.lastUpdated,
+    totalModels: applied.records.length,
+    models: applied.records,
+  };
+  const result = validateMentalModelsData(data);
+  return result.valid ? { ok: true, data } : { ok: false, errors: result.errors };
+}
+
+/**
+ * Apply a narratives delta with the same all-or-nothing semantics as models
+ */
+export function applyNarrativesDelta(
+  doc: NarrativesData,
+  delta: NarrativesDelta
+): DeltaApplyResult<NarrativesData> {
+  const versionErrors = checkBaseVersion(doc.metadata.version, delta);
+  if (versionErrors.length > 0) return { ok: false, errors: versionErrors };
+
+  const applied = applyRecords<Narrative>(doc.narratives, delta, validateNarrative);
+  if (!applied.ok) return applied;
+
+  const data: NarrativesData = {
+    metadata: {
+      version: delta.version,
+      last_updated: delta.lastUpdated,
+      total_narratives: applied.records.length,
+    },
+    narratives: applied.records,
+  };
+  const result = validateNarrativesData(data);
+  return result.valid ? { ok: true, data } : { ok: false, errors: result.errors };
+}
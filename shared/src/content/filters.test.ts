@@ -0,0 +1,136 @@
+import { describe, it, expect } from 'vitest';
+import { applyModelFilters, applyNarrativeFilters, getModelComplexity } from './filters';
+import { naturalCompare } from '../utils/naturalCompare';
+import bundledModels from './data/mental-models.json';
+import bundledNarratives from './data/narratives.json';
+import type { MentalModel, Narrative, TransformationKey } from '../types';
+
+const models = bundledModels.models as MentalModel[];
+const narratives = bundledNarratives.narratives as Narrative[];
+
+const model = (
+  code: string,
+  transformations: TransformationKey[],
+  tags: string[],
+  difficulty?: number
+): MentalModel => ({
+  ...models[0],
+  id: code.toLowerCase(),
+  code,
+  name: `Model ${code}`,
+  transformations,
+  tags,
+  meta: difficulty === undefined ? undefined : { difficulty },
+});
+
+const sample = [
+  model('P10', ['P'], ['framing'], 4),
+  model('P2', ['P'], ['framing', 'risk'], 1),
+  model('IN3', ['IN', 'P'], ['risk'], 3),
+  model('SY1', ['SY'], ['systems']),
+];
+
+describe('naturalCompare', () => {
+  it('orders digit runs numerically', () => {
+    expect(['P10', 'P2', 'P1', 'IN12', 'IN2'].sort(naturalCompare)).toEqual([
+      'IN2',
+      'IN12',
+      'P1',
+      'P2',
+      'P10',
+    ]);
+    expect(naturalCompare('p2', 'P2')).toBe(0);
+  });
+});
+
+describe('applyModelFilters', () => {
+  it('returns everything in input order without options', () => {
+    expect(applyModelFilters(sample).items).toEqual(sample);
+  });
+
+  it('ORs values within a facet and ANDs across facets', () => {
+    const codes = (options: Parameters<typeof applyModelFilters>[1]) =>
+      applyModelFilters(sample, options).items.map((m) => m.code);
+
+    expect(codes({ transformations: ['IN', 'SY'] })).toEqual(['IN3', 'SY1']);
+    expect(codes({ transformations: ['P'], tags: ['risk'] })).toEqual(['P2', 'IN3']);
+    expect(codes({ complexity: ['low', 'high'] })).toEqual(['P10', 'P2']);
+    expect(codes({ searchTerm: '  SYSTEMS ' })).toEqual(['SY1']);
+  });
+
+  it('sorts codes naturally in either direction', () => {
+    const asc = applyModelFilters(sample, { sortBy: 'code' }).items.map((m) => m.code);
+    expect(asc).toEqual(['IN3', 'P2', 'P10', 'SY1']);
+    const desc = applyModelFilters(sample, { sortBy: 'code', sortOrder: 'desc' }).items;
+    expect(desc.map((m) => m.code)).toEqual(['SY1', 'P10', 'P2', 'IN3']);
+  });
+
+  it('sorts by complexity with a missing difficulty treated as medium', () => {
+    const items = applyModelFilters(sample, { sortBy: 'complexity' }).items;
+    expect(items.map((m) => m.code)).toEqual(['P2', 'IN3', 'SY1', 'P10']);
+    expect(getModelComplexity(sample[3])).toBe('medium');
+  });
+
+  it('counts each facet with the other facets applied', () => {
+    const { facets } = applyModelFilters(sample, { transformations: ['P'], tags: ['missing'] });
+
+    // Tag counts ignore the tag selection but respect the transformation one
+    expect(facets.tags).toEqual([
+      { value: 'framing', count: 2, selected: false },
+      { value: 'risk', count: 2, selected: false },
+      { value: 'missing', count: 0, selected: true },
+      { value: 'systems', count: 0, selected: false },
+    ]);
+    expect(facets.transformations.map((f) => f.value)).toEqual(['P', 'IN', 'SY']);
+    expect(facets.transformations.find((f) => f.value === 'P')).toEqual({
+      value: 'P',
+      count: 0,
+      selected: true,
+    });
+    expect(facets.complexity.map((f) => [f.value, f.count])).toEqual([
+      ['low', 0],
+      ['medium', 0],
+      ['high', 0],
+    ]);
+  });
+
+  it('gives facet counts that sum to the bundled catalogue', () => {
+    const { facets } = applyModelFilters(models);
+    const total = facets.complexity.reduce((sum, f) => sum + f.count, 0);
+    expect(total).toBe(models.length);
+  });
+});
+
+describe('applyNarrativeFilters', () => {
+  it('filters by evidence quality and sorts by confidence', () => {
+    const { items } = applyNarrativeFilters(narratives, {
+      evidenceQuality: ['A', 'B'],
+      sortBy: 'confidence',
+      sortOrder: 'desc',
+    });
+    expect(items.every((n) => n.evidence_quality !== 'C')).toBe(true);
+    for (let i = 1; i < items.length; i++) {
+      expect(items[i - 1].confidence).toBeGreaterThanOrEqual(items[i].confidence);
+    }
+  });
+
+  it('sorts evidence A first and lists evidence facets in grade order', () => {
+    const { items, facets } = applyNarrativeFilters(narratives, { sortBy: 'evidence_quality' });
+    const grades = items.map((n) => n.evidence_quality);
+    expect(grades).toEqual([...grades].sort());
+    expect(facets.evidenceQuality.map((f) => f.value)).toEqual(
+      ['A', 'B', 'C'].filter((grade) => narratives.some((n) => n.evidence_quality === grade))
+    );
+  });
+
+  it('matches any selected domain', () => {
+    const domain = narratives[0].domain[0];
+    const { items, facets } = applyNarrativeFilters(narratives, { domains: [domain] });
+    expect(items.length).toBeGreaterThan(0);
+    expect(items.every((n) => n.domain.includes(domain))).toBe(true);
+    expect(facets.domains.find((f) => f.value === domain)).toMatchObject({
+      count: items.length,
+      selected: true,
+    });
+  });
+});
@@ -0,0 +1,230 @@
+// Using DE3 (Decomposition) - Pure filtering, sorting and facet counting for models and narratives
+
+import type {
+  ComplexityLevel,
+  EvidenceQuality,
+  FacetCount,
+  FilterResult,
+  MentalModel,
+  ModelFacets,
+  ModelFilterOptions,
+  Narrative,
+  NarrativeFacets,
+  NarrativeFilterOptions,
+} from '../types';
+import { naturalCompare } from '../utils/naturalCompare';
+import { DEFAULT_DIFFICULTY, getModelDifficulty } from './mappers';
+import { TRANSFORMATION_KEYS } from './validation';
+
+const COMPLEXITY_LEVELS: ComplexityLevel[] = ['low', 'medium', 'high'];
+const EVIDENCE_LEVELS: EvidenceQuality[] = ['A', 'B', 'C'];
+
+/**
+ * Bucket a model's 1-5 difficulty into a complexity level
+ */
+export const getModelComplexity = (model: MentalModel): ComplexityLevel => {
+  const difficulty = getModelDifficulty(model) ?? DEFAULT_DIFFICULTY;
+  return difficulty <= 2 ? 'low' : difficulty === 3 ? 'medium' : 'high';
+};
+
+interface Facet<T> {
+  selected: readonly string[] | undefined;
+  valuesOf: (item: T) => readonly string[];
+  /** Fixed display order; otherwise values are ordered by count, then name */
+  order?: readonly string[];
+}
+
+const isActive = <T>(facet: Facet<T>) => (facet.selected?.length ?? 0) > 0;
+
+const matchesFacet = <T>(item: T, facet: Facet<T>) =>
+  !isActive(facet) || facet.valuesOf(item).some((value) => facet.selected?.includes(value));
+
+const matchesText = (fields: Array<string | string[]>, term: string) =>
+  fields.some((field) =>
+    Array.isArray(field)
+      ? field.some((value) => value.toLowerCase().includes(term))
+      : field.toLowerCase().includes(term)
+  );
+
+// Using IN1 (Inversion) - Count each facet with every *other* facet applied, so counts
+// answer "how many results would toggling this value give me"
+function countFacet<T>(items: T[], facets: Facet<T>[], index: number): FacetCount[] {
+  const facet = facets[index];
+  const counts = new Map<string, number>();
+
+  // Every value in the collection gets a chip, even when other filters leave it empty
+  for (const item of items) {
+    for (const value of facet.valuesOf(item)) {
+      if (!counts.has(value)) counts.set(value, 0);
+    }
+  }
+  for (const value of facet.selected ?? []) {
+    if (!counts.has(value)) counts.set(value, 0);
+  }
+
+  for (const item of items) {
+    if (!facets.every((other, i) => i === index || matchesFacet(item, other))) continue;
+    for (const value of new Set(facet.valuesOf(item))) {
+      counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+  }
+
+  const result = Array.from(counts, ([value, count]) => ({
+    value,
+    count,
+    selected: facet.selected?.includes(value) ?? false,
+  }));
+  const { order } = facet;
+  if (order) {
+    const rank = (value: string) => (order.includes(value) ? order.indexOf(value) : order.length);
+    return result.sort((a, b) => rank(a.value) - rank(b.value) || naturalCompare(a.value, b.value));
+  }
+  return result.sort((a, b) => b.count - a.count || naturalCompare(a.value, b.value));
+}
+
+function filterWithFacets<T>(
+  items: T[],
+  facets: Facet<T>[],
+  matchesSearch: (item: T) => boolean
+): { items: T[]; counts: FacetCount[][] } {
+  const searched = items.filter(matchesSearch);
+  return {
+    items: searched.filter((item) => facets.every((facet) => matchesFacet(item, facet))),
+    counts: facets.map((_, index) => countFacet(searched, facets, index)),
+  };
+}
+
+// Ties always fall back to ascending natural order so paging through results is stable
+function sortItems<T>(
+  items: T[],
+  compare: (a: T, b: T) => number,
+  tiebreak: (a: T, b: T) => number,
+  sortOrder: 'asc' | 'desc' = 'asc'
+): T[] {
+  const direction = sortOrder === 'desc' ? -1 : 1;
+  return [...items].sort((a, b) => direction * compare(a, b) || tiebreak(a, b));
+}
+
+/**
+ * Filter and sort models. Values within a facet are OR'd, facets are AND'd,
+ * and `searchTerm` is a case-insensitive substring match over code, name,
+ * description and tags. Without `sortBy` the input order is kept.
+ */
+export function applyModelFilters(
+  models: MentalModel[],
+  options: ModelFilterOptions = {}
+): FilterResult<MentalModel, ModelFacets> {
+  const term = options.searchTerm?.trim().toLowerCase() ?? '';
+  const facets: Facet<MentalModel>[] = [
+    {
+      selected: options.transformations,
+      valuesOf: (model) => model.transformations,
+      order: TRANSFORMATION_KEYS,
+    },
+    {
+      selected: options.complexity,
+      valuesOf: (model) => [getModelComplexity(model)],
+      order: COMPLEXITY_LEVELS,
+    },
+    { selected: options.tags, valuesOf: (model) => model.tags },
+  ];
+
+  const { items, counts } = filterWithFacets(
+    models,
+    facets,
+    (model) => !term || matchesText([model.code, model.name, model.description, model.tags], term)
+  );
+
+  const byCode = (a: MentalModel, b: MentalModel) => naturalCompare(a.code, b.code);
+  let sorted = items;
+  switch (options.sortBy) {
+    case 'code':
+      sorted = sortItems(items, byCode, byCode, options.sortOrder);
+      break;
+    case 'name':
+      sorted = sortItems(
+        items,
+        (a, b) => naturalCompare(a.name, b.name),
+        byCode,
+        options.sortOrder
+      );
+      break;
+    case 'complexity':
+      sorted = sortItems(
+        items,
+        (a, b) =>
+          (getModelDifficulty(a) ?? DEFAULT_DIFFICULTY) -
+          (getModelDifficulty(b) ?? DEFAULT_DIFFICULTY),
+        byCode,
+        options.sortOrder
+      );
+      break;
+  }
+
+  return {
+    items: sorted,
+    facets: {
+      transformations: counts[0] as ModelFacets['transformations'],
+      complexity: counts[1] as ModelFacets['complexity'],
+      tags: counts[2],
+    },
+  };
+}
+
+/**
+ * Filter and sort narratives with the same facet semantics as
+ * `applyModelFilters`. `searchTerm` matches title, summary, category and tags.
+ * Evidence sorts A before C when ascending.
+ */
+export function applyNarrativeFilters(
+  narratives: Narrative[],
+  options: NarrativeFilterOptions = {}
+): FilterResult<Narrative, NarrativeFacets> {
+  const term = options.searchTerm?.trim().toLowerCase() ?? '';
+  const facets: Facet<Narrative>[] = [
+    { selected: options.categories, valuesOf: (narrative) => [narrative.category] },
+    {
+      selected: options.evidenceQuality,
+      valuesOf: (narrative) => [narrative.evidence_quality],
+      order: EVIDENCE_LEVELS,
+    },
+    { selected: options.domains, valuesOf: (narrative) => narrative.domain },
+  ];
+
+  const { items, counts } = filterWithFacets(
+    narratives,
+    facets,
+    (narrative) =>
+      !term ||
+      matchesText([narrative.title, narrative.summary, narrative.category, narrative.tags], term)
+  );
+
+  const byTitle = (a: Narrative, b: Narrative) => naturalCompare(a.title, b.title);
+  let sorted = items;
+  switch (options.sortBy) {
+    case 'title':
+      sorted = sortItems(items, byTitle, byTitle, options.sortOrder);
+      break;
+    case 'confidence':
+      sorted = sortItems(items, (a, b) => a.confidence - b.confidence, byTitle, options.sortOrder);
+      break;
+    case 'evidence_quality':
+      sorted = sortItems(
+        items,
+        (a, b) =>
+          EVIDENCE_LEVELS.indexOf(a.evidence_quality) - EVIDENCE_LEVELS.indexOf(b.evidence_quality),
+        byTitle,
+        options.sortOrder
+      );
+      break;
+  }
+
+  return {
+    items: sorted,
+    facets: {
+      categories: counts[0],
+      evidenceQuality: counts[1] as NarrativeFacets['evidenceQuality'],
+      domains: counts[2],
+    },
+  };
+}
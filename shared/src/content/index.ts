@@ -0,0 +1,44 @@
+// Using CO5 (Composition) - Export content repository and sources
+
+export { createContentRepository } from './repository';
+export { createStaticSource, bundledContentSource, mergeSnapshots } from './sources';
+export {
+  validateMentalModel,
+  validateNarrative,
+  validateMentalModelsData,
+  validateNarrativesData,
+  sanitizeSnapshot,
+  TRANSFORMATION_KEYS,
+} from './validation';
+export {
+  toLegacyModel,
+  fromLegacyModel,
+  toLegacyNarrative,
+  fromLegacyNarrative,
+  getPrimaryTransformation,
+  getModelDifficulty,
+  DEFAULT_DIFFICULTY,
+} from './mappers';
+export {
+  checkCatalogueIntegrity,
+  assertCatalogueIntegrity,
+  formatIntegrityReport,
+  parseModelCode,
+  BASE120_MODELS_PER_TRANSFORMATION,
+  BASE120_TOTAL_MODELS,
+} from './integrity';
+export { diffModelsData, diffNarrativesData, applyModelsDelta, applyNarrativesDelta } from './delta';
+export {
+  canonicalize,
+  computeProvenanceHash,
+  verifyNarrativeProvenance,
+  verifyNarratives,
+  PROVENANCE_HASH_PREFIX,
+} from './provenance';
+export { applyModelFilters, applyNarrativeFilters, getModelComplexity } from './filters';
+export type {
+  IntegrityIssue,
+  IntegrityIssueKind,
+  IntegrityReport,
+  IntegrityOptions,
+} from './integrity';
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertCatalogueIntegrity,
+  checkCatalogueIntegrity,
+  parseModelCode,
+  BASE120_TOTAL_MODELS,
+} from './integrity';
+import bundledModels from './data/mental-models.json';
+import type { MentalModel, MentalModelsData } from '../types';
+
+const model = (code: string, overrides: Partial<MentalModel> = {}): MentalModel => ({
+  id: code.toLowerCase(),
+  code,
+  name: code,
+  description: '',
+  category: '',
+  tags: [],
+  transformations: [parseModelCode(code)?.transformation ?? 'P'],
+  sources: [],
+  ...overrides,
+});
+
+const kinds = (models: MentalModel[]) =>
+  checkCatalogueIntegrity(models)
+    .issues.filter((issue) => issue.kind !== 'count')
+    .map((issue) => `${issue.kind}:${issue.model}`);
+
+describe('parseModelCode', () => {
+  it('accepts P1..P20 style codes', () => {
+    expect(parseModelCode('IN12')).toEqual({ transformation: 'IN', number: 12 });
+    expect(parseModelCode('P20')).not.toBeNull();
+  });
+
+  it('rejects malformed codes', () => {
+    for (const code of ['P0', 'P01', 'P21', 'XX1', 'p1', 'SY']) {
+      expect(parseModelCode(code)).toBeNull();
+    }
+  });
+});
+
+describe('checkCatalogueIntegrity', () => {
+  it('reports duplicate, malformed and mismatched codes', () => {
+    expect(
+      kinds([
+        model('P1'),
+        model('P1', { id: 'p1-copy' }),
+        model('P21'),
+        model('SY2', { transformations: ['RE'] }),
+      ])
+    ).toEqual([
+      'duplicate-code:P1',
+      'id-mismatch:P1',
+      'malformed-code:p21',
+      'transformation-mismatch:SY2',
+    ]);
+  });
+
+  it('reports dangling related-model references', () => {
+    expect(kinds([model('P1', { relatedModels: ['IN1', 'DE1'] }), model('IN1')])).toEqual([
+      'dangling-reference:P1',
+    ]);
+  });
+
+  it('counts models per transformation against the Base120 target', () => {
+    const full = (['P', 'IN', 'CO', 'DE', 'RE', 'SY'] as const).flatMap((key) =>
+      Array.from({ length: 20 }, (_, i) => model(`${key}${i + 1}`))
+    );
+    const report = checkCatalogueIntegrity(full, { requireComplete: true });
+
+    expect(report.total).toEqual({ actual: BASE120_TOTAL_MODELS, expected: BASE120_TOTAL_MODELS });
+    expect(report.complete).toBe(true);
+    expect(report.ok).toBe(true);
+
+    const partial = checkCatalogueIntegrity(full.slice(1), { requireComplete: true });
+    expect(partial.counts.P).toEqual({ actual: 19, expected: 20 });
+    expect(partial.ok).toBe(false);
+  });
+});
+
+describe('bundled catalogue', () => {
+  it('has no integrity errors', () => {
+    const report = assertCatalogueIntegrity(bundledModels as MentalModelsData);
+    expect(report.issues.every((issue) => issue.kind === 'count')).toBe(true);
+  });
+});
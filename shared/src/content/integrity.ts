@@ -0,0 +1,176 @@
+// Using SY1 (Systems Thinking) - Catalogue-wide integrity checks for the Base120 model set
+
+import type { MentalModel, MentalModelsData, TransformationKey } from '../types';
+import { TRANSFORMATION_KEYS } from './validation';
+
+/** Base120: six transformations with twenty models each */
+export const BASE120_MODELS_PER_TRANSFORMATION = 20;
+export const BASE120_TOTAL_MODELS = TRANSFORMATION_KEYS.length * BASE120_MODELS_PER_TRANSFORMATION;
+
+export type IntegrityIssueKind =
+  | 'count'
+  | 'malformed-code'
+  | 'duplicate-code'
+  | 'transformation-mismatch'
+  | 'id-mismatch'
+  | 'dangling-reference';
+
+export interface IntegrityIssue {
+  kind: IntegrityIssueKind;
+  severity: 'error' | 'warning';
+  message: string;
+  /** Code or id of the offending model, when the issue concerns one */
+  model?: string;
+}
+
+export interface IntegrityReport {
+  counts: Record<TransformationKey, { actual: number; expected: number }>;
+  total: { actual: number; expected: number };
+  issues: IntegrityIssue[];
+  /** True when every transformation has exactly its Base120 quota */
+  complete: boolean;
+  /** True when there are no error-severity issues */
+  ok: boolean;
+}
+
+export interface IntegrityOptions {
+  /** Treat missing or surplus models as errors instead of warnings */
+  requireComplete?: boolean;
+}
+
+const CODE_PATTERN = new RegExp(`^(${TRANSFORMATION_KEYS.join('|')})([1-9]\\d*)$`);
+
+/**
+ * Split a Base120 code like `IN12` into its transformation and number
+ */
+export function parseModelCode(
+  code: string
+): { transformation: TransformationKey; number: number } | null {
+  const match = CODE_PATTERN.exec(code);
+  if (!match) return null;
+  const number = Number(match[2]);
+  if (number > BASE120_MODELS_PER_TRANSFORMATION) return null;
+  return { transformation: match[1] as TransformationKey, number };
+}
+
+/**
+ * Check a mental models document against the Base120 catalogue rules
+ */
+export function checkCatalogueIntegrity(
+  data: MentalModelsData | MentalModel[],
+  { requireComplete = false }: IntegrityOptions = {}
+): IntegrityReport {
+  const models = Array.isArray(data) ? data : data.models;
+  const issues: IntegrityIssue[] = [];
+  const codes = new Map<string, MentalModel>();
+
+  for (const model of models) {
+    const parsed = parseModelCode(model.code);
+    if (!parsed) {
+      issues.push({
+        kind: 'malformed-code',
+        severity: 'error',
+        model: model.id,
+        message: `"${model.code}" is not a Base120 code (expected e.g. P1..P${BASE120_MODELS_PER_TRANSFORMATION})`,
+      });
+    } else if (!model.transformations.includes(parsed.transformation)) {
+      issues.push({
+        kind: 'transformation-mismatch',
+        severity: 'error',
+        model: model.code,
+        message: `code prefix ${parsed.transformation} is not among transformations [${model.transformations.join(', ')}]`,
+      });
+    }
+
+    const existing = codes.get(model.code);
+    if (existing) {
+      issues.push({
+        kind: 'duplicate-code',
+        severity: 'error',
+        model: model.code,
+        message: `code ${model.code} is used by both "${existing.id}" and "${model.id}"`,
+      });
+    } else {
+      codes.set(model.code, model);
+    }
+
+    if (model.id !== model.code.toLowerCase()) {
+      issues.push({
+        kind: 'id-mismatch',
+        severity: 'error',
+        model: model.code,
+        message: `id "${model.id}" does not match code (expected "${model.code.toLowerCase()}")`,
+      });
+    }
+  }
+
+  // Using IN1 (Inversion) - Look for references that lead nowhere
+  for (const model of models) {
+    for (const related of model.relatedModels ?? []) {
+      if (!codes.has(related)) {
+        issues.push({
+          kind: 'dangling-reference',
+          severity: 'error',
+          model: model.code,
+          message: `related model ${related} does not exist`,
+        });
+      }
+    }
+  }
+
+  const counts = {} as IntegrityReport['counts'];
+  for (const key of TRANSFORMATION_KEYS) {
+    const actual = [...codes.keys()].filter(
+      (code) => parseModelCode(code)?.transformation === key
+    ).length;
+    counts[key] = { actual, expected: BASE120_MODELS_PER_TRANSFORMATION };
+    if (actual !== BASE120_MODELS_PER_TRANSFORMATION) {
+      issues.push({
+        kind: 'count',
+        severity: requireComplete ? 'error' : 'warning',
+        message: `${key} has ${actual} of ${BASE120_MODELS_PER_TRANSFORMATION} models`,
+      });
+    }
+  }
+
+  return {
+    counts,
+    total: { actual: models.length, expected: BASE120_TOTAL_MODELS },
+    issues,
+    complete: TRANSFORMATION_KEYS.every(
+      (key) => counts[key].actual === BASE120_MODELS_PER_TRANSFORMATION
+    ),
+    ok: !issues.some((issue) => issue.severity === 'error'),
+  };
+}
+
+/**
+ * Render a report as plain text for terminals and test failure messages
+ */
+export function formatIntegrityReport(report: IntegrityReport): string {
+  const lines = [
+    `Base120 catalogue: ${report.total.actual}/${report.total.expected} models`,
+    ...TRANSFORMATION_KEYS.map(
+      (key) => `  ${key.padEnd(3)} ${report.counts[key].actual}/${report.counts[key].expected}`
+    ),
+  ];
+  for (const issue of report.issues) {
+    const subject = issue.model ? `${issue.model}: ` : '';
+    lines.push(`${issue.severity.toUpperCase()} [${issue.kind}] ${subject}${issue.message}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Test helper: throw with a readable report when the catalogue has errors
+ */
+export function assertCatalogueIntegrity(
+  data: MentalModelsData | MentalModel[],
+  options?: IntegrityOptions
+): IntegrityReport {
+  const report = checkCatalogueIntegrity(data, options);
+  if (!report.ok) {
+    throw new Error(`Catalogue integrity check failed\n${formatIntegrityReport(report)}`);
+  }
+  return report;
+}
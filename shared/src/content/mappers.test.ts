@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_DIFFICULTY,
+  fromLegacyModel,
+  fromLegacyNarrative,
+  toLegacyModel,
+  toLegacyNarrative,
+} from './mappers';
+import { validateMentalModel, validateNarrative } from './validation';
+import bundledModels from './data/mental-models.json';
+import bundledNarratives from './data/narratives.json';
+import type { LegacyMentalModel, LegacyNarrative, MentalModel, Narrative } from '../types';
+
+const models = bundledModels.models as MentalModel[];
+const narratives = bundledNarratives.narratives as Narrative[];
+
+describe('model mappers', () => {
+  it('round-trips every bundled model', () => {
+    for (const model of models) {
+      const { difficulty: _difficulty, ...meta } = model.meta ?? {};
+      expect(fromLegacyModel(toLegacyModel(model), meta)).toEqual(model);
+    }
+  });
+
+  it('flattens transformations and meta.difficulty', () => {
+    const legacy = toLegacyModel({ ...models[0], transformations: ['SY', 'RE'], meta: undefined });
+    expect(legacy.transformation).toBe('SY');
+    expect(legacy.difficulty).toBe(DEFAULT_DIFFICULTY);
+  });
+
+  it('lifts a legacy model into a valid canonical model', () => {
+    const legacy: LegacyMentalModel = {
+      id: 'in2',
+      code: 'IN2',
+      name: 'Premortem Analysis',
+      description: 'Imagine failure first.',
+      category: 'Inversion',
+      transformation: 'IN',
+      difficulty: 2,
+      tags: ['risk'],
+    };
+    const model = fromLegacyModel(legacy);
+    expect(model.transformations).toEqual(['IN']);
+    expect(model.meta).toEqual({ difficulty: 2 });
+    expect(validateMentalModel(model).valid).toBe(true);
+  });
+});
+
+describe('narrative mappers', () => {
+  it('converts snake_case fields to camelCase', () => {
+    const legacy = toLegacyNarrative(narratives[0]);
+    expect(legacy.evidenceQuality).toBe(narratives[0].evidence_quality);
+    expect(legacy.complexity?.cognitiveLoad).toBe(narratives[0].complexity.cognitive_load);
+  });
+
+  it('lifts a legacy narrative into a valid canonical narrative', () => {
+    const legacy: LegacyNarrative = {
+      id: 'nar9',
+      title: 'Feedback Culture',
+      summary: 'How teams give feedback.',
+      category: 'Management',
+      evidenceQuality: 'B',
+      confidence: 0.7,
+      tags: ['feedback'],
+      domain: ['Business'],
+    };
+    const narrative = fromLegacyNarrative(legacy, { provenance_hash: 'abc' });
+    expect(narrative.narrative_id).toBe('NAR9');
+    expect(narrative.content).toBe(legacy.summary);
+    expect(validateNarrative(narrative).valid).toBe(true);
+    expect(toLegacyNarrative(narrative)).toMatchObject(legacy);
+  });
+});
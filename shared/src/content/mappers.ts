@@ -0,0 +1,125 @@
+// Using RE2 (Feedback Loops) - Bidirectional mappers between canonical and legacy content shapes
+
+import type {
+  LegacyMentalModel,
+  LegacyNarrative,
+  MentalModel,
+  Narrative,
+  TransformationKey,
+} from '../types';
+
+/** Difficulty assumed for models whose meta omits it */
+export const DEFAULT_DIFFICULTY = 3;
+
+const UNSPECIFIED = 'Unspecified';
+
+/**
+ * The transformation a model is filed under (its first listed transformation)
+ */
+export const getPrimaryTransformation = (model: MentalModel): TransformationKey =>
+  model.transformations[0];
+
+/**
+ * Difficulty on a 1-5 scale, if the content declares one
+ */
+export const getModelDifficulty = (model: MentalModel): number | undefined =>
+  model.meta?.difficulty;
+
+/**
+ * Flatten a canonical model into the legacy sample shape
+ */
+export function toLegacyModel(model: MentalModel): LegacyMentalModel {
+  return {
+    id: model.id,
+    code: model.code,
+    name: model.name,
+    description: model.description,
+    category: model.category,
+    transformation: getPrimaryTransformation(model),
+    difficulty: getModelDifficulty(model) ?? DEFAULT_DIFFICULTY,
+    tags: model.tags,
+    ...(model.example !== undefined && { example: model.example }),
+    ...(model.sources.length > 0 && { sources: model.sources }),
+    ...(model.relatedModels !== undefined && { relatedModels: model.relatedModels }),
+  };
+}
+
+/**
+ * Lift a legacy sample model into the canonical shape. Extra meta fields
+ * (added, updated, isCore) can be supplied since the legacy shape lacks them.
+ */
+export function fromLegacyModel(
+  legacy: LegacyMentalModel,
+  meta: Omit<NonNullable<MentalModel['meta']>, 'difficulty'> = {}
+): MentalModel {
+  return {
+    id: legacy.id,
+    name: legacy.name,
+    code: legacy.code,
+    description: legacy.description,
+    ...(legacy.example !== undefined && { example: legacy.example }),
+    category: legacy.category,
+    tags: legacy.tags,
+    transformations: [legacy.transformation],
+    sources: legacy.sources ?? [],
+    ...(legacy.relatedModels !== undefined && { relatedModels: legacy.relatedModels }),
+    meta: { ...meta, difficulty: legacy.difficulty },
+  };
+}
+
+/**
+ * Convert a canonical narrative into the camelCase legacy shape
+ */
+export function toLegacyNarrative(narrative: Narrative): LegacyNarrative {
+  return {
+    id: narrative.id,
+    title: narrative.title,
+    summary: narrative.summary,
+    content: narrative.content,
+    category: narrative.category,
+    evidenceQuality: narrative.evidence_quality,
+    confidence: narrative.confidence,
+    tags: narrative.tags,
+    domain: narrative.domain,
+    complexity: {
+      cognitiveLoad: narrative.complexity.cognitive_load,
+      timeToElicit: narrative.complexity.time_to_elicit,
+      expertiseRequired: narrative.complexity.expertise_required,
+    },
+    citations: narrative.citations,
+  };
+}
+
+/**
+ * Lift a legacy narrative into the canonical shape, filling provenance and
+ * relationship fields the legacy shape never carried
+ */
+export function fromLegacyNarrative(
+  legacy: LegacyNarrative,
+  defaults: Partial<Pick<Narrative, 'narrative_id' | 'version' | 'provenance_hash'>> = {}
+): Narrative {
+  return {
+    id: legacy.id,
+    narrative_id: defaults.narrative_id ?? legacy.id.toUpperCase(),
+    version: defaults.version ?? '1.0.0',
+    provenance_hash: defaults.provenance_hash ?? '',
+    title: legacy.title,
+    content: legacy.content ?? legacy.summary,
+    summary: legacy.summary,
+    category: legacy.category,
+    tags: legacy.tags,
+    domain: legacy.domain,
+    evidence_quality: legacy.evidenceQuality,
+    confidence: legacy.confidence,
+    complexity: {
+      cognitive_load: legacy.complexity?.cognitiveLoad ?? UNSPECIFIED,
+      time_to_elicit: legacy.complexity?.timeToElicit ?? UNSPECIFIED,
+      expertise_required: legacy.complexity?.expertiseRequired ?? UNSPECIFIED,
+    },
+    examples: [],
+    linked_signals: [],
+    relationships: [],
+    related_frameworks: [],
+    citations: legacy.citations ?? [],
+  };
+}
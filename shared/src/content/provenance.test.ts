@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import {
+  canonicalize,
+  computeProvenanceHash,
+  verifyNarrativeProvenance,
+  verifyNarratives,
+  PROVENANCE_HASH_PREFIX,
+} from './provenance';
+import bundledNarratives from './data/narratives.json';
+import type { NarrativesData } from '../types';
+
+const { narratives } = bundledNarratives as NarrativesData;
+
+describe('canonicalize', () => {
+  it('is independent of key order and drops undefined properties', () => {
+    expect(canonicalize({ b: 1, a: { d: [1, 'x'], c: null }, e: undefined })).toBe(
+      '{"a":{"c":null,"d":[1,"x"]},"b":1}'
+    );
+    expect(canonicalize({ a: 1, b: 2 })).toBe(canonicalize({ b: 2, a: 1 }));
+  });
+});
+
+describe('narrative provenance', () => {
+  it('verifies every bundled narrative', () => {
+    const checks = Object.values(verifyNarratives(narratives));
+    expect(checks).toHaveLength(narratives.length);
+    expect(checks.every((check) => check.status === 'verified')).toBe(true);
+  });
+
+  it('ignores the stored hash when hashing', () => {
+    const narrative = narratives[0];
+    expect(computeProvenanceHash({ ...narrative, provenance_hash: 'anything' })).toBe(
+      computeProvenanceHash(narrative)
+    );
+    expect(computeProvenanceHash(narrative)).toMatch(
+      new RegExp(`^${PROVENANCE_HASH_PREFIX}[0-9a-f]{64}$`)
+    );
+  });
+
+  it('flags edited content as a mismatch', () => {
+    const tampered = { ...narratives[0], confidence: 0.99 };
+    expect(verifyNarrativeProvenance(tampered)).toMatchObject({
+      id: tampered.id,
+      status: 'mismatch',
+      expected: narratives[0].provenance_hash,
+    });
+  });
+
+  it('reports records without a hash as unsigned', () => {
+    expect(verifyNarrativeProvenance({ ...narratives[0], provenance_hash: '' }).status).toBe(
+      'unsigned'
+    );
+  });
+});
@@ -0,0 +1,60 @@
+// Using IN2 (Premortem) - Recompute narrative hashes so tampered or corrupted records are visible
+
+import type { Narrative, ProvenanceCheck } from '../types';
+import { sha256 } from '../utils/sha256';
+
+export const PROVENANCE_HASH_PREFIX = 'sha256:';
+
+/**
+ * Serialize a JSON value deterministically: object keys sorted, no
+ * whitespace, `undefined` properties dropped. Equal content always yields
+ * the same string regardless of key order in the source file.
+ */
+export function canonicalize(value: unknown): string {
+  if (value === null || typeof value !== 'object') {
+    return JSON.stringify(value) ?? 'null';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map((item) => (item === undefined ? 'null' : canonicalize(item))).join(',')}]`;
+  }
+  const entries = Object.keys(value)
+    .sort()
+    .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+    .map(
+      (key) => `${JSON.stringify(key)}:${canonicalize((value as Record<string, unknown>)[key])}`
+    );
+  return `{${entries.join(',')}}`;
+}
+
+/**
+ * Hash a narrative's canonical form, excluding the stored hash itself
+ */
+export function computeProvenanceHash(narrative: Narrative): string {
+  const { provenance_hash: _stored, ...content } = narrative;
+  return `${PROVENANCE_HASH_PREFIX}${sha256(canonicalize(content))}`;
+}
+
+/**
+ * Compare a narrative's stored hash against its current content
+ */
+export function verifyNarrativeProvenance(narrative: Narrative): ProvenanceCheck {
+  const actual = computeProvenanceHash(narrative);
+  const expected = narrative.provenance_hash ?? '';
+  return {
+    id: narrative.id,
+    status: expected === '' ? 'unsigned' : expected === actual ? 'verified' : 'mismatch',
+    expected,
+    actual,
+  };
+}
+
+/**
+ * Verify every narrative, keyed by id
+ */
+export function verifyNarratives(narratives: Narrative[]): Record<string, ProvenanceCheck> {
+  const checks: Record<string, ProvenanceCheck> = {};
+  for (const narrative of narratives) {
+    checks[narrative.id] = verifyNarrativeProvenance(narrative);
+  }
+  return checks;
+}
@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { createContentRepository } from './repository';
+import { bundledContentSource, mergeSnapshots } from './sources';
+import type { MentalModel, MentalModelsData } from '../types';
+
+const model = (id: string, code: string, overrides: Partial<MentalModel> = {}): MentalModel => ({
+  id,
+  code,
+  name: `Model ${code}`,
+  description: 'A model',
+  category: 'Perspective',
+  tags: [],
+  transformations: ['P'],
+  sources: [],
+  ...overrides,
+});
+
+const modelsDoc = (models: MentalModel[], version = '1.0.0'): MentalModelsData => ({
+  version,
+  lastUpdated: '2025-01-15',
+  totalModels: models.length,
+  transformations: {
+    P: 'Perspective',
+    IN: 'Inversion',
+    CO: 'Composition',
+    DE: 'Decomposition',
+    RE: 'Recursion',
+    SY: 'Systems',
+  },
+  models,
+});
+
+describe('createContentRepository', () => {
+  const repository = createContentRepository({
+    models: modelsDoc([
+      model('p1', 'P1'),
+      model('sy1', 'SY1', { category: 'Systems', transformations: ['SY', 'RE'] }),
+    ]),
+  });
+
+  it('looks up models by id and case-insensitive code', () => {
+    expect(repository.getModelById('p1')?.code).toBe('P1');
+    expect(repository.getModelByCode('sy1')?.id).toBe('sy1');
+    expect(repository.getModelById('missing')).toBeUndefined();
+  });
+
+  it('indexes every transformation a model belongs to', () => {
+    expect(repository.getModelsByTransformation('RE').map((m) => m.id)).toEqual(['sy1']);
+    expect(repository.getModelsByTransformation('CO')).toEqual([]);
+  });
+
+  it('groups by category', () => {
+    expect(repository.getModelsByCategory('Systems')).toHaveLength(1);
+    expect(repository.getModelCategories()).toEqual(['Perspective', 'Systems']);
+  });
+
+  it('handles an empty snapshot', () => {
+    const empty = createContentRepository();
+    expect(empty.models).toEqual([]);
+    expect(empty.modelsVersion).toBeNull();
+  });
+});
+
+describe('mergeSnapshots', () => {
+  it('lets later sources override records by id', () => {
+    const merged = mergeSnapshots([
+      { models: modelsDoc([model('p1', 'P1'), model('p2', 'P2')], '1.0.0') },
+      { models: modelsDoc([model('p1', 'P1', { name: 'Updated' })], '1.1.0') },
+    ]);
+
+    expect(merged.models?.version).toBe('1.1.0');
+    expect(merged.models?.totalModels).toBe(2);
+    expect(merged.models?.models.map((m) => m.name)).toEqual(['Updated', 'Model P2']);
+    expect(merged.narratives).toBeUndefined();
+  });
+});
+
+describe('bundledContentSource', () => {
+  it('loads models and narratives from bundled JSON', async () => {
+    const snapshot = await bundledContentSource.load();
+    const repository = createContentRepository(snapshot);
+
+    expect(repository.models.length).toBe(snapshot.models?.totalModels);
+    expect(repository.narratives.length).toBe(snapshot.narratives?.metadata.total_narratives);
+    expect(repository.getModelByCode('P1')?.name).toBe('First Principles Thinking');
+  });
+});
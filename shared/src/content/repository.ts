@@ -0,0 +1,69 @@
+// Using DE3 (Decomposition) - Indexed, read-only view over loaded content documents
+
+import type {
+  ContentRepository,
+  ContentSnapshot,
+  MentalModel,
+  Narrative,
+  TransformationKey,
+} from '../types';
+
+/**
+ * Group items into buckets keyed by the value returned from keyFn
+ */
+function groupBy<T>(items: T[], keyFn: (item: T) => string[]): Map<string, T[]> {
+  const groups = new Map<string, T[]>();
+  for (const item of items) {
+    for (const key of keyFn(item)) {
+      const bucket = groups.get(key);
+      if (bucket) {
+        bucket.push(item);
+      } else {
+        groups.set(key, [item]);
+      }
+    }
+  }
+  return groups;
+}
+
+/**
+ * Build a repository with O(1) lookups by id, code, transformation and category
+ */
+export function createContentRepository(snapshot: ContentSnapshot = {}): ContentRepository {
+  const models = snapshot.models?.models ?? [];
+  const narratives = snapshot.narratives?.narratives ?? [];
+
+  // Using SY8 (Systems) - Precomputed indexes so screens never scan the full catalogue
+  const modelsById = new Map(models.map((m) => [m.id, m]));
+  const modelsByCode = new Map(models.map((m) => [m.code.toUpperCase(), m]));
+  const modelsByTransformation = groupBy(models, (m) => m.transformations);
+  const modelsByCategory = groupBy(models, (m) => [m.category]);
+  const narrativesById = new Map(narratives.map((n) => [n.id, n]));
+  const narrativesByCategory = groupBy(narratives, (n) => [n.category]);
+
+  return {
+    models,
+    narratives,
+    modelsVersion: snapshot.models?.version ?? null,
+    narrativesVersion: snapshot.narratives?.metadata.version ?? null,
+    narrativesLastUpdated: snapshot.narratives?.metadata.last_updated ?? null,
+
+    getModelById: (id: string): MentalModel | undefined => modelsById.get(id),
+
+    getModelByCode: (code: string): MentalModel | undefined => modelsByCode.get(code.toUpperCase()),
+
+    getModelsByTransformation: (transformation: TransformationKey): MentalModel[] =>
+      modelsByTransformation.get(transformation) ?? [],
+
+    getModelsByCategory: (category: string): MentalModel[] => modelsByCategory.get(category) ?? [],
+
+    getNarrativeById: (id: string): Narrative | undefined => narrativesById.get(id),
+
+    getNarrativesByCategory: (category: string): Narrative[] =>
+      narrativesByCategory.get(category) ?? [],
+
+    getModelCategories: () => [...modelsByCategory.keys()],
+
+    getNarrativeCategories: () => [...narrativesByCategory.keys()],
+  };
+}
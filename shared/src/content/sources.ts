@@ -0,0 +1,69 @@
+// Using CO5 (Composition) - Pluggable content sources, starting with bundled JSON
+
+import type { ContentSnapshot, ContentSource, MentalModelsData, NarrativesData } from '../types';
+import bundledModels from './data/mental-models.json';
+import bundledNarratives from './data/narratives.json';
+
+/**
+ * Create a source that resolves to a fixed snapshot
+ */
+export function createStaticSource(name: string, snapshot: ContentSnapshot): ContentSource {
+  return {
+    name,
+    load: async () => snapshot,
+  };
+}
+
+/**
+ * Content shipped inside the app bundle. Editing the JSON files is enough to
+ * add or change models and narratives.
+ */
+export const bundledContentSource: ContentSource = createStaticSource('bundled', {
+  models: bundledModels as MentalModelsData,
+  narratives: bundledNarratives as NarrativesData,
+});
+
+/**
+ * Merge records by id, keeping the position of the first occurrence and the
+ * value of the last one
+ */
+function mergeById<T extends { id: string }>(lists: T[][]): T[] {
+  const merged = new Map<string, T>();
+  for (const list of lists) {
+    for (const item of list) {
+      merged.set(item.id, item);
+    }
+  }
+  return [...merged.values()];
+}
+
+// Using RE2 (Feedback Loops) - Later sources override earlier ones record by record
+/**
+ * Combine snapshots from several sources into one. Document metadata is taken
+ * from the last snapshot that provides it.
+ */
+export function mergeSnapshots(snapshots: ContentSnapshot[]): ContentSnapshot {
+  const modelDocs = snapshots.flatMap((s) => (s.models ? [s.models] : []));
+  const narrativeDocs = snapshots.flatMap((s) => (s.narratives ? [s.narratives] : []));
+  const result: ContentSnapshot = {};
+
+  if (modelDocs.length > 0) {
+    const models = mergeById(modelDocs.map((d) => d.models));
+    result.models = {
+      ...modelDocs[modelDocs.length - 1],
+      totalModels: models.length,
+      models,
+    };
+  }
+
+  if (narrativeDocs.length > 0) {
+    const narratives = mergeById(narrativeDocs.map((d) => d.narratives));
+    const last = narrativeDocs[narrativeDocs.length - 1];
+    result.narratives = {
+      metadata: { ...last.metadata, total_narratives: narratives.length },
+      narratives,
+    };
+  }
+
+  return result;
+}
@@ -0,0 +1,138 @@
+import { describe, it, expect } from 'vitest';
+import {
+  sanitizeSnapshot,
+  validateMentalModel,
+  validateMentalModelsData,
+  validateNarrative,
+  validateNarrativesData,
+} from './validation';
+import bundledModels from './data/mental-models.json';
+import bundledNarratives from './data/narratives.json';
+import type { ContentSnapshot } from '../types';
+
+const validModel = {
+  id: 'p1',
+  name: 'First Principles',
+  code: 'P1',
+  description: 'Reason from fundamentals',
+  category: 'Perspective',
+  tags: ['reasoning'],
+  transformations: ['P'],
+  sources: [{ name: 'Aristotle', reference: 'Metaphysics' }],
+  meta: { difficulty: 3 },
+};
+
+const validNarrative = {
+  id: 'nar1',
+  narrative_id: 'NAR-001',
+  version: '1.0.0',
+  provenance_hash: 'abc123',
+  title: 'Decisions',
+  content: 'Body',
+  summary: 'Summary',
+  category: 'Decision Science',
+  tags: [],
+  domain: ['Business'],
+  evidence_quality: 'A',
+  confidence: 0.8,
+  complexity: {
+    cognitive_load: 'Low',
+    time_to_elicit: '5 minutes',
+    expertise_required: 'Beginner',
+  },
+  examples: ['An example', { scenario: 's', application: 'a', outcome: 'o' }],
+  linked_signals: [],
+  relationships: [],
+  related_frameworks: [],
+  citations: [{ author: 'Kahneman', year: 2011, title: 'Thinking', source: 'FSG' }],
+};
+
+describe('validateMentalModel', () => {
+  it('accepts a well-formed model', () => {
+    expect(validateMentalModel(validModel)).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('reports missing and invalid transformations by path', () => {
+    const { transformations: _omit, ...withoutTransformations } = validModel;
+    expect(validateMentalModel(withoutTransformations, 'models[0]').errors[0].path).toBe(
+      'models[0].transformations'
+    );
+
+    const result = validateMentalModel({ ...validModel, transformations: ['P', 'XX'] });
+    expect(result.valid).toBe(false);
+    expect(result.errors.map((e) => e.path)).toEqual(['transformations[1]']);
+  });
+
+  it('warns about out-of-range difficulty without rejecting', () => {
+    const result = validateMentalModel({ ...validModel, meta: { difficulty: 9 } });
+    expect(result.valid).toBe(true);
+    expect(result.warnings[0].path).toBe('meta.difficulty');
+  });
+});
+
+describe('validateNarrative', () => {
+  it('accepts a well-formed narrative', () => {
+    expect(validateNarrative(validNarrative).valid).toBe(true);
+  });
+
+  it('rejects confidence outside 0-1 and unknown evidence quality', () => {
+    const result = validateNarrative({ ...validNarrative, confidence: 1.4, evidence_quality: 'D' });
+    expect(result.errors.map((e) => e.path).sort()).toEqual(['confidence', 'evidence_quality']);
+  });
+
+  it('addresses nested fields', () => {
+    const result = validateNarrative({
+      ...validNarrative,
+      citations: [{ author: 'A', year: null, title: 'T', source: 'S' }],
+    });
+    expect(result.errors[0].path).toBe('citations[0].year');
+  });
+});
+
+describe('document validation', () => {
+  it('flags duplicate ids and count mismatches', () => {
+    const result = validateMentalModelsData({
+      ...bundledModels,
+      totalModels: 99,
+      models: [validModel, validModel],
+    });
+    expect(result.errors.map((e) => e.path)).toEqual(['models[1].id']);
+    expect(result.warnings.map((w) => w.path)).toEqual(['totalModels']);
+  });
+
+  it('accepts the bundled content', () => {
+    expect(validateMentalModelsData(bundledModels).errors).toEqual([]);
+    expect(validateNarrativesData(bundledNarratives).errors).toEqual([]);
+  });
+});
+
+describe('sanitizeSnapshot', () => {
+  it('quarantines bad records and keeps good ones', () => {
+    const snapshot = {
+      models: { ...bundledModels, models: [validModel, { ...validModel, id: 'p2', tags: 'x' }] },
+    } as unknown as ContentSnapshot;
+
+    const { snapshot: clean, report } = sanitizeSnapshot(snapshot, 'test');
+
+    expect(clean.models?.models.map((m) => m.id)).toEqual(['p1']);
+    expect(clean.models?.totalModels).toBe(1);
+    expect(report.quarantined).toEqual([
+      {
+        source: 'test',
+        kind: 'mental-model',
+        id: 'p2',
+        errors: [
+          { path: 'models[1].tags', message: 'must be an array of strings', severity: 'error' },
+        ],
+      },
+    ]);
+  });
+
+  it('rejects a document with a malformed envelope', () => {
+    const snapshot = { narratives: { narratives: 'nope' } } as unknown as ContentSnapshot;
+    const { snapshot: clean, report } = sanitizeSnapshot(snapshot, 'test');
+
+    expect(clean.narratives).toBeUndefined();
+    expect(report.errors.map((e) => e.path)).toContain('narratives');
+  });
+});
@@ -0,0 +1,510 @@
+// Using IN2 (Premortem) - Runtime validation so malformed JSON never reaches a screen
+
+import type {
+  ContentSnapshot,
+  ContentValidationReport,
+  MentalModel,
+  MentalModelsData,
+  Narrative,
+  NarrativesData,
+  QuarantinedRecord,
+  TransformationKey,
+  ValidationIssue,
+  ValidationResult,
+} from '../types';
+
+export const TRANSFORMATION_KEYS: TransformationKey[] = ['P', 'IN', 'CO', 'DE', 'RE', 'SY'];
+const EVIDENCE_QUALITIES = ['A', 'B', 'C'];
+const METHOD_DIFFICULTIES = ['Beginner', 'Intermediate', 'Advanced'];
+
+type Issues = ValidationIssue[];
+type Obj = Record<string, unknown>;
+
+// Using DE3 (Decomposition) - Small field checkers composed into per-type validators
+
+const isRecord = (value: unknown): value is Obj =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const join = (path: string, key: string | number): string =>
+  typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+
+const error = (issues: Issues, path: string, message: string) =>
+  issues.push({ path, message, severity: 'error' });
+
+const warn = (issues: Issues, path: string, message: string) =>
+  issues.push({ path, message, severity: 'warning' });
+
+function toResult(issues: Issues): ValidationResult {
+  const errors = issues.filter((i) => i.severity === 'error');
+  return {
+    valid: errors.length === 0,
+    errors,
+    warnings: issues.filter((i) => i.severity === 'warning'),
+  };
+}
+
+function checkString(
+  issues: Issues,
+  obj: Obj,
+  key: string,
+  path: string,
+  { optional = false, allowEmpty = false } = {}
+): void {
+  const value = obj[key];
+  const at = join(path, key);
+  if (value === undefined) {
+    if (!optional) error(issues, at, 'is required');
+  } else if (typeof value !== 'string') {
+    error(issues, at, `must be a string, got ${typeof value}`);
+  } else if (!allowEmpty && value.trim() === '') {
+    error(issues, at, 'must not be empty');
+  }
+}
+
+function checkStringArray(
+  issues: Issues,
+  obj: Obj,
+  key: string,
+  path: string,
+  { optional = false } = {}
+): void {
+  const value = obj[key];
+  const at = join(path, key);
+  if (value === undefined) {
+    if (!optional) error(issues, at, 'is required');
+    return;
+  }
+  if (!Array.isArray(value)) {
+    error(issues, at, 'must be an array of strings');
+    return;
+  }
+  value.forEach((item, i) => {
+    if (typeof item !== 'string') error(issues, join(at, i), 'must be a string');
+  });
+}
+
+function checkObjectArray(
+  issues: Issues,
+  obj: Obj,
+  key: string,
+  path: string,
+  checkItem: (item: Obj, itemPath: string) => void,
+  { optional = false } = {}
+): void {
+  const value = obj[key];
+  const at = join(path, key);
+  if (value === undefined) {
+    if (!optional) error(issues, at, 'is required');
+    return;
+  }
+  if (!Array.isArray(value)) {
+    error(issues, at, 'must be an array');
+    return;
+  }
+  value.forEach((item, i) => {
+    if (isRecord(item)) {
+      checkItem(item, join(at, i));
+    } else {
+      error(issues, join(at, i), 'must be an object');
+    }
+  });
+}
+
+function checkDate(issues: Issues, obj: Obj, key: string, path: string): void {
+  const value = obj[key];
+  if (typeof value === 'string' && Number.isNaN(Date.parse(value))) {
+    warn(issues, join(path, key), `"${value}" is not a parseable date`);
+  }
+}
+
+function collectModelIssues(issues: Issues, value: unknown, path: string): void {
+  if (!isRecord(value)) {
+    error(issues, path, 'must be an object');
+    return;
+  }
+
+  checkString(issues, value, 'id', path);
+  checkString(issues, value, 'name', path);
+  checkString(issues, value, 'code', path);
+  checkString(issues, value, 'description', path);
+  checkString(issues, value, 'example', path, { optional: true });
+  checkString(issues, value, 'category', path);
+  checkStringArray(issues, value, 'tags', path);
+  checkStringArray(issues, value, 'relatedModels', path, { optional: true });
+
+  const transformations = value.transformations;
+  const transformationsPath = join(path, 'transformations');
+  if (!Array.isArray(transformations)) {
+    error(issues, transformationsPath, 'is required and must be an array');
+  } else if (transformations.length === 0) {
+    error(issues, transformationsPath, 'must contain at least one transformation');
+  } else {
+    transformations.forEach((t, i) => {
+      if (!TRANSFORMATION_KEYS.includes(t as TransformationKey)) {
+        error(
+          issues,
+          join(transformationsPath, i),
+          `must be one of ${TRANSFORMATION_KEYS.join(', ')}, got ${JSON.stringify(t)}`
+        );
+      }
+    });
+  }
+
+  checkObjectArray(issues, value, 'sources', path, (source, sourcePath) => {
+    checkString(issues, source, 'name', sourcePath);
+    checkString(issues, source, 'reference', sourcePath);
+  });
+
+  const meta = value.meta;
+  const metaPath = join(path, 'meta');
+  if (meta !== undefined) {
+    if (!isRecord(meta)) {
+      error(issues, metaPath, 'must be an object');
+      return;
+    }
+    checkString(issues, meta, 'added', metaPath, { optional: true });
+    checkString(issues, meta, 'updated', metaPath, { optional: true });
+    checkDate(issues, meta, 'added', metaPath);
+    checkDate(issues, meta, 'updated', metaPath);
+    if (meta.isCore !== undefined && typeof meta.isCore !== 'boolean') {
+      error(issues, join(metaPath, 'isCore'), 'must be a boolean');
+    }
+    const difficulty = meta.difficulty;
+    if (difficulty !== undefined) {
+      if (typeof difficulty !== 'number' || Number.isNaN(difficulty)) {
+        error(issues, join(metaPath, 'difficulty'), 'must be a number');
+      } else if (difficulty < 1 || difficulty > 5 || !Number.isInteger(difficulty)) {
+        warn(
+          issues,
+          join(metaPath, 'difficulty'),
+          `should be an integer from 1 to 5, got ${difficulty}`
+        );
+      }
+    }
+  }
+}
+
+function collectNarrativeIssues(issues: Issues, value: unknown, path: string): void {
+  if (!isRecord(value)) {
+    error(issues, path, 'must be an object');
+    return;
+  }
+
+  checkString(issues, value, 'id', path);
+  checkString(issues, value, 'narrative_id', path);
+  checkString(issues, value, 'version', path);
+  checkString(issues, value, 'provenance_hash', path, { allowEmpty: true });
+  if (value.provenance_hash === '') {
+    warn(issues, join(path, 'provenance_hash'), 'is empty; provenance cannot be verified');
+  }
+  checkString(issues, value, 'title', path);
+  checkString(issues, value, 'content', path);
+  checkString(issues, value, 'summary', path);
+  checkString(issues, value, 'category', path);
+  checkStringArray(issues, value, 'tags', path);
+  checkStringArray(issues, value, 'domain', path);
+  checkStringArray(issues, value, 'related_frameworks', path);
+  checkString(issues, value, 'lastUpdated', path, { optional: true });
+  checkDate(issues, value, 'lastUpdated', path);
+
+  if (!EVIDENCE_QUALITIES.includes(value.evidence_quality as string)) {
+    error(
+      issues,
+      join(path, 'evidence_quality'),
+      `must be one of A, B, C, got ${JSON.stringify(value.evidence_quality)}`
+    );
+  }
+
+  const confidence = value.confidence;
+  if (typeof confidence !== 'number' || Number.isNaN(confidence)) {
+    error(issues, join(path, 'confidence'), 'is required and must be a number');
+  } else if (confidence < 0 || confidence > 1) {
+    error(issues, join(path, 'confidence'), `must be between 0 and 1, got ${confidence}`);
+  }
+
+  const complexityPath = join(path, 'complexity');
+  if (!isRecord(value.complexity)) {
+    error(issues, complexityPath, 'is required and must be an object');
+  } else {
+    checkString(issues, value.complexity, 'cognitive_load', complexityPath);
+    checkString(issues, value.complexity, 'time_to_elicit', complexityPath);
+    checkString(issues, value.complexity, 'expertise_required', complexityPath);
+  }
+
+  const examplesPath = join(path, 'examples');
+  if (!Array.isArray(value.examples)) {
+    error(issues, examplesPath, 'is required and must be an array');
+  } else {
+    value.examples.forEach((example, i) => {
+      if (typeof example === 'string') return;
+      if (!isRecord(example)) {
+        error(issues, join(examplesPath, i), 'must be a string or an object');
+        return;
+      }
+      checkString(issues, example, 'scenario', join(examplesPath, i));
+      checkString(issues, example, 'application', join(examplesPath, i));
+      checkString(issues, example, 'outcome', join(examplesPath, i));
+    });
+  }
+
+  checkObjectArray(issues, value, 'linked_signals', path, (signal, signalPath) => {
+    checkString(issues, signal, 'signal_id', signalPath);
+    checkString(issues, signal, 'signal_type', signalPath);
+    checkString(issues, signal, 'context', signalPath, { allowEmpty: true });
+    if (typeof signal.weight !== 'number') {
+      error(issues, join(signalPath, 'weight'), 'must be a number');
+    }
+  });
+
+  checkObjectArray(issues, value, 'relationships', path, (relationship, relationshipPath) => {
+    checkString(issues, relationship, 'type', relationshipPath);
+    checkString(issues, relationship, 'target', relationshipPath);
+    checkString(issues, relationship, 'description', relationshipPath, { allowEmpty: true });
+  });
+
+  checkObjectArray(issues, value, 'citations', path, (citation, citationPath) => {
+    checkString(issues, citation, 'author', citationPath);
+    checkString(issues, citation, 'title', citationPath);
+    checkString(issues, citation, 'source', citationPath);
+    if (typeof citation.year !== 'number' && typeof citation.year !== 'string') {
+      error(issues, join(citationPath, 'year'), 'must be a number or a string');
+    }
+  });
+
+  checkObjectArray(
+    issues,
+    value,
+    'methods',
+    path,
+    (method, methodPath) => {
+      checkString(issues, method, 'method', methodPath);
+      checkString(issues, method, 'description', methodPath);
+      checkString(issues, method, 'duration', methodPath);
+      if (!METHOD_DIFFICULTIES.includes(method.difficulty as string)) {
+        error(
+          issues,
+          join(methodPath, 'difficulty'),
+          `must be one of ${METHOD_DIFFICULTIES.join(', ')}`
+        );
+      }
+    },
+    { optional: true }
+  );
+
+  if (value.approved !== undefined && typeof value.approved !== 'boolean') {
+    error(issues, join(path, 'approved'), 'must be a boolean');
+  }
+}
+
+function collectModelsHeaderIssues(issues: Issues, value: unknown): value is Obj {
+  if (!isRecord(value)) {
+    error(issues, '', 'mental models document must be an object');
+    return false;
+  }
+  checkString(issues, value, 'version', '');
+  checkString(issues, value, 'lastUpdated', '');
+  checkDate(issues, value, 'lastUpdated', '');
+  if (typeof value.totalModels !== 'number') {
+    error(issues, 'totalModels', 'is required and must be a number');
+  }
+  if (!isRecord(value.transformations)) {
+    error(issues, 'transformations', 'is required and must be an object');
+  } else {
+    for (const key of TRANSFORMATION_KEYS) {
+      checkString(issues, value.transformations, key, 'transformations');
+    }
+  }
+  if (!Array.isArray(value.models)) {
+    error(issues, 'models', 'is required and must be an array');
+    return false;
+  }
+  if (typeof value.totalModels === 'number' && value.totalModels !== value.models.length) {
+    warn(
+      issues,
+      'totalModels',
+      `declares ${value.totalModels} models but the document contains ${value.models.length}`
+    );
+  }
+  return true;
+}
+
+function collectNarrativesHeaderIssues(issues: Issues, value: unknown): value is Obj {
+  if (!isRecord(value)) {
+    error(issues, '', 'narratives document must be an object');
+    return false;
+  }
+  if (!isRecord(value.metadata)) {
+    error(issues, 'metadata', 'is required and must be an object');
+  } else {
+    checkString(issues, value.metadata, 'version', 'metadata');
+    checkString(issues, value.metadata, 'last_updated', 'metadata');
+    checkDate(issues, value.metadata, 'last_updated', 'metadata');
+    if (typeof value.metadata.total_narratives !== 'number') {
+      error(issues, 'metadata.total_narratives', 'is required and must be a number');
+    }
+  }
+  if (!Array.isArray(value.narratives)) {
+    error(issues, 'narratives', 'is required and must be an array');
+    return false;
+  }
+  const declared = isRecord(value.metadata) ? value.metadata.total_narratives : undefined;
+  if (typeof declared === 'number' && declared !== value.narratives.length) {
+    warn(
+      issues,
+      'metadata.total_narratives',
+      `declares ${declared} narratives but the document contains ${value.narratives.length}`
+    );
+  }
+  return true;
+}
+
+function collectDuplicateIds(issues: Issues, records: unknown[], listPath: string): Set<number> {
+  const seen = new Map<string, number>();
+  const duplicates = new Set<number>();
+  records.forEach((record, i) => {
+    const id = isRecord(record) ? record.id : undefined;
+    if (typeof id !== 'string') return;
+    const first = seen.get(id);
+    if (first === undefined) {
+      seen.set(id, i);
+    } else {
+      duplicates.add(i);
+      error(issues, join(join(listPath, i), 'id'), `duplicates the id of ${listPath}[${first}]`);
+    }
+  });
+  return duplicates;
+}
+
+/**
+ * Validate a single mental model
+ */
+export function validateMentalModel(value: unknown, path = ''): ValidationResult {
+  const issues: Issues = [];
+  collectModelIssues(issues, value, path);
+  return toResult(issues);
+}
+
+/**
+ * Validate a single narrative
+ */
+export function validateNarrative(value: unknown, path = ''): ValidationResult {
+  const issues: Issues = [];
+  collectNarrativeIssues(issues, value, path);
+  return toResult(issues);
+}
+
+/**
+ * Validate a full mental models document, including every record
+ */
+export function validateMentalModelsData(value: unknown): ValidationResult {
+  const issues: Issues = [];
+  if (collectModelsHeaderIssues(issues, value)) {
+    const models = value.models as unknown[];
+    models.forEach((model, i) => collectModelIssues(issues, model, join('models', i)));
+    collectDuplicateIds(issues, models, 'models');
+  }
+  return toResult(issues);
+}
+
+/**
+ * Validate a full narratives document, including every record
+ */
+export function validateNarrativesData(value: unknown): ValidationResult {
+  const issues: Issues = [];
+  if (collectNarrativesHeaderIssues(issues, value)) {
+    const narratives = value.narratives as unknown[];
+    narratives.forEach((narrative, i) =>
+      collectNarrativeIssues(issues, narrative, join('narratives', i))
+    );
+    collectDuplicateIds(issues, narratives, 'narratives');
+  }
+  return toResult(issues);
+}
+
+// Using IN3 (Avoiding Stupidity) - Keep good records, quarantine bad ones, reject broken documents
+/**
+ * Split a source snapshot into records that are safe to render and records
+ * that must be quarantined. A document whose envelope is malformed is dropped.
+ */
+export function sanitizeSnapshot(
+  snapshot: ContentSnapshot,
+  source: string
+): { snapshot: ContentSnapshot; report: ContentValidationReport } {
+  const report: ContentValidationReport = { source, errors: [], warnings: [], quarantined: [] };
+  const result: ContentSnapshot = {};
+
+  const filterRecords = <T>(
+    records: unknown[],
+    listPath: string,
+    kind: QuarantinedRecord['kind'],
+    collect: (issues: Issues, value: unknown, path: string) => void
+  ): T[] => {
+    const duplicateIssues: Issues = [];
+    const duplicates = collectDuplicateIds(duplicateIssues, records, listPath);
+    const accepted: T[] = [];
+
+    records.forEach((record, i) => {
+      const issues: Issues = [];
+      collect(issues, record, join(listPath, i));
+      if (duplicates.has(i)) {
+        const idPath = join(join(listPath, i), 'id');
+        issues.push(...duplicateIssues.filter((d) => d.path === idPath));
+      }
+      const { errors, warnings } = toResult(issues);
+      report.warnings.push(...warnings);
+
+      if (errors.length > 0) {
+        const id = isRecord(record) && typeof record.id === 'string' ? record.id : null;
+        report.quarantined.push({ source, kind, id, errors });
+      } else {
+        accepted.push(record as T);
+      }
+    });
+
+    return accepted;
+  };
+
+  if (snapshot.models !== undefined) {
+    const issues: Issues = [];
+    const doc: unknown = snapshot.models;
+    if (collectModelsHeaderIssues(issues, doc) && !issues.some((i) => i.severity === 'error')) {
+      const models = filterRecords<MentalModel>(
+        doc.models as unknown[],
+        'models',
+        'mental-model',
+        collectModelIssues
+      );
+      result.models = {
+        ...(doc as unknown as MentalModelsData),
+        totalModels: models.length,
+        models,
+      };
+    }
+    const { errors, warnings } = toResult(issues);
+    report.errors.push(...errors);
+    report.warnings.push(...warnings);
+  }
+
+  if (snapshot.narratives !== undefined) {
+    const issues: Issues = [];
+    const doc: unknown = snapshot.narratives;
+    if (collectNarrativesHeaderIssues(issues, doc) && !issues.some((i) => i.severity === 'error')) {
+      const narratives = filterRecords<Narrative>(
+        doc.narratives as unknown[],
+        'narratives',
+        'narrative',
+        collectNarrativeIssues
+      );
+      const typed = doc as unknown as NarrativesData;
+      result.narratives = {
+        metadata: { ...typed.metadata, total_narratives: narratives.length },
+        narratives,
+      };
+    }
+    const { errors, warnings } = toResult(issues);
+    report.errors.push(...errors);
+    report.warnings.push(...warnings);
+  }
+
+  return { snapshot: result, report };
+}
@@ -2,3 +2,22 @@
 
 export { useBookmarks } from './useBookmarks';
 export type { UseBookmarksReturn } from './useBookmarks';
+export {
+  useIsBookmarked,
+  useBookmarkCount,
+  useBookmarkStatus,
+  useBookmarkToggle,
+} from './useBookmarkSelectors';
+export type { BookmarkStatus, BookmarkToggleActions } from './useBookmarkSelectors';
+
+export { useContent } from './useContent';
+export type { UseContentReturn } from './useContent';
+
+export { useOfflineContent } from './useOfflineContent';
+export type { UseOfflineContentReturn } from './useOfflineContent';
+
+export { useSearchHistory } from './useSearchHistory';
+export type { UseSearchHistoryReturn } from './useSearchHistory';
+
+export { useRelatedContent } from './useRelatedContent';
+export type { UseRelatedContentReturn } from './useRelatedContent';
@@ -0,0 +1,110 @@
+import { describe, it, expect, beforeAll, beforeEach } from 'vitest';
+import { act, create } from 'react-test-renderer';
+import type { ReactTestRenderer } from 'react-test-renderer';
+import {
+  useBookmarkCount,
+  useBookmarkStatus,
+  useBookmarkToggle,
+  useIsBookmarked,
+} from './useBookmarkSelectors';
+import { getBookmarkStoreHook, initializeBookmarkStore } from '../stores';
+import { createMemoryStorage } from '../stores/memoryStorage';
+
+// Renders per component name, counted from inside the real hooks' components
+let renders: Record<string, number> = {};
+
+const track = (name: string) => {
+  renders[name] = (renders[name] ?? 0) + 1;
+};
+
+function Row({ itemId }: { itemId: string }) {
+  track(itemId);
+  return <>{String(useIsBookmarked(itemId, 'mental-model'))}</>;
+}
+
+function Count() {
+  track('count');
+  return <>{useBookmarkCount()}</>;
+}
+
+function Status() {
+  track('status');
+  return <>{useBookmarkStatus().error}</>;
+}
+
+function SaveButton() {
+  track('toggle');
+  useBookmarkToggle();
+  return null;
+}
+
+const store = () => getBookmarkStoreHook().getState();
+
+const mount = () => {
+  let renderer: ReactTestRenderer | undefined;
+  act(() => {
+    renderer = create(
+      <>
+        <Row itemId="p1" />
+        <Row itemId="in2" />
+        <Row itemId="sy3" />
+        <Count />
+        <Status />
+        <SaveButton />
+      </>
+    );
+  });
+  renders = {};
+  return renderer as ReactTestRenderer;
+};
+
+const change = (run: () => void) => {
+  renders = {};
+  act(run);
+  return renders;
+};
+
+describe('bookmark selector hooks', () => {
+  beforeAll(() => {
+    // Otherwise React warns about every update, even inside act()
+    (globalThis as { IS_REACT_ACT_ENVIRONMENT?: boolean }).IS_REACT_ACT_ENVIRONMENT = true;
+  });
+
+  beforeEach(() => {
+    initializeBookmarkStore(createMemoryStorage());
+    store().addBookmark({ type: 'mental-model', itemId: 'p1', title: 'P1' });
+    store().addBookmark({ type: 'mental-model', itemId: 'in2', title: 'IN2' });
+  });
+
+  it('re-renders only the row whose item was saved or unsaved', () => {
+    const renderer = mount();
+    expect(renderer.toJSON()).toEqual(['true', 'true', 'false', '2']);
+
+    expect(
+      change(() => store().toggleBookmark({ type: 'mental-model', itemId: 'sy3', title: 'SY3' }))
+    ).toEqual({ sy3: 1, count: 1 });
+    expect(change(() => store().removeBookmark(store().bookmarks[0].id))).toEqual({
+      p1: 1,
+      count: 1,
+    });
+    expect(renderer.toJSON()).toEqual(['false', 'true', 'true', '2']);
+  });
+
+  it('skips every component when no selected slice changes', () => {
+    mount();
+    const [bookmark] = store().bookmarks;
+
+    expect(change(() => store().updateBookmarkNote(bookmark.id, 'Why I saved this'))).toEqual({});
+    expect(change(() => store().updateBookmarkTags(bookmark.id, ['risk']))).toEqual({});
+    expect(change(() => store().createCollection('Reading list'))).toEqual({});
+  });
+
+  it('re-renders only the status component when storage fails', () => {
+    mount();
+    expect(
+      change(() =>
+        getBookmarkStoreHook().setState({ error: 'disk full', failedOperation: 'write' })
+      )
+    ).toEqual({ status: 1 });
+  });
+});
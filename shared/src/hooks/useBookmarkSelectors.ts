@@ -0,0 +1,55 @@
+// Using DE12 (Interface Segregation) - Narrow bookmark hooks that re-render only when their slice changes
+
+import { useShallow } from 'zustand/react/shallow';
+import { getBookmarkStoreHook, selectBookmarkCount, selectIsBookmarked } from '../stores';
+import type { BookmarkActions, BookmarkState, BookmarkType } from '../types';
+
+export type BookmarkStatus = Pick<BookmarkState, 'isLoading' | 'error' | 'failedOperation'> &
+  Pick<BookmarkActions, 'retryStorage'>;
+
+export type BookmarkToggleActions = Pick<
+  BookmarkActions,
+  'addBookmark' | 'removeBookmark' | 'toggleBookmark'
+>;
+
+/**
+ * Whether one item is bookmarked. Cards and detail headers use this instead
+ * of `useBookmarks` so saving one item doesn't re-render every other one.
+ */
+export function useIsBookmarked(itemId: string, type: BookmarkType): boolean {
+  return getBookmarkStoreHook()(selectIsBookmarked(itemId, type));
+}
+
+/**
+ * How many bookmarks there are, of one type or in total
+ */
+export function useBookmarkCount(type?: BookmarkType): number {
+  return getBookmarkStoreHook()(selectBookmarkCount(type));
+}
+
+/**
+ * Loading and storage error state, without the bookmarks themselves
+ */
+export function useBookmarkStatus(): BookmarkStatus {
+  return getBookmarkStoreHook()(
+    useShallow((state) => ({
+      isLoading: state.isLoading,
+      error: state.error,
+      failedOperation: state.failedOperation,
+      retryStorage: state.retryStorage,
+    }))
+  );
+}
+
+/**
+ * Actions for saving and unsaving; never re-renders, since actions don't change
+ */
+export function useBookmarkToggle(): BookmarkToggleActions {
+  return getBookmarkStoreHook()(
+    useShallow((state) => ({
+      addBookmark: state.addBookmark,
+      removeBookmark: state.removeBookmark,
+      toggleBookmark: state.toggleBookmark,
+    }))
+  );
+}
@@ -2,15 +2,29 @@
 
 import { useCallback, useMemo } from 'react';
 import { useBookmarkStore } from '../stores';
-import type { Bookmark, BookmarkType } from '../types';
+import { getBookmarkTags } from '../search/bookmarkSearch';
+import type {
+  Bookmark,
+  BookmarkActions,
+  BookmarkCollection,
+  BookmarkState,
+  BookmarkTagCount,
+  BookmarkType,
+} from '../types';
 
 export interface UseBookmarksReturn {
   // State
   bookmarks: Bookmark[];
   modelBookmarks: Bookmark[];
   narrativeBookmarks: Bookmark[];
+  collections: BookmarkCollection[];
+  /** Every tag in use, most used first */
+  tags: BookmarkTagCount[];
+  /** True until saved bookmarks have been read */
   isLoading: boolean;
   error: string | null;
+  failedOperation: BookmarkState['failedOperation'];
+  collectionError: string | null;
 
   // Actions
   addBookmark: (data: {
@@ -19,17 +33,38 @@ export interface UseBookmarksReturn {
     title: string;
     description?: string;
     tags?: string[];
-  }) => void;
+  }) => string;
   removeBookmark: (id: string) => void;
-  toggleBookmark: (data: {
-    type: BookmarkType;
-    itemId: string;
-    title: string;
-    description?: string;
-    tags?: string[];
-  }) => void;
-  isBookmarked: (itemId: string, type: BookmarkType) => boolean;
+  /** Returns whether the item is now bookmarked */
+  toggleBookmark: BookmarkActions['toggleBookmark'];
+  isBookmarked: BookmarkActions['hasBookmark'];
   clearAll: () => void;
+  updateBookmark: BookmarkActions['updateBookmark'];
+  updateBookmarkTags: BookmarkActions['updateBookmarkTags'];
+  updateBookmarkNote: BookmarkActions['updateBookmarkNote'];
+  relinkBookmark: BookmarkActions['relinkBookmark'];
+  importBookmarks: BookmarkActions['importBookmarks'];
+
+  // Collections
+  createCollection: BookmarkActions['createCollection'];
+  renameCollection: BookmarkActions['renameCollection'];
+  deleteCollection: BookmarkActions['deleteCollection'];
+  moveCollection: BookmarkActions['moveCollection'];
+  addToCollection: BookmarkActions['addToCollection'];
+  removeFromCollection: BookmarkActions['removeFromCollection'];
+  moveInCollection: BookmarkActions['moveInCollection'];
+  getCollectionBookmarks: BookmarkActions['getCollectionBookmarks'];
+  /** Collections the bookmark belongs to, in collection order */
+  getBookmarkCollections: (bookmarkId: string) => BookmarkCollection[];
+
+  // History
+  undo: BookmarkActions['undo'];
+  redo: BookmarkActions['redo'];
+  canUndo: boolean;
+  canRedo: boolean;
+
+  // Storage
+  retryStorage: BookmarkActions['retryStorage'];
 }
 
 export function useBookmarks(): UseBookmarksReturn {
@@ -46,45 +81,47 @@ export function useBookmarks(): UseBookmarksReturn {
     [store.bookmarks]
   );
 
-  // Using RE2 (Feedback Loops) - Toggle pattern for bookmark actions
-  const toggleBookmark = useCallback(
-    (data: {
-      type: BookmarkType;
-      itemId: string;
-      title: string;
-      description?: string;
-      tags?: string[];
-    }) => {
-      const existing = store.bookmarks.find(
-        (b) => b.itemId === data.itemId && b.type === data.type
-      );
-
-      if (existing) {
-        store.removeBookmark(existing.id);
-      } else {
-        store.addBookmark(data);
-      }
-    },
-    [store]
-  );
+  const tags = useMemo(() => getBookmarkTags(store.bookmarks), [store.bookmarks]);
 
-  const isBookmarked = useCallback(
-    (itemId: string, type: BookmarkType) => {
-      return store.hasBookmark(itemId, type);
-    },
-    [store]
+  const getBookmarkCollections = useCallback(
+    (bookmarkId: string) => store.collections.filter((c) => c.bookmarkIds.includes(bookmarkId)),
+    [store.collections]
   );
 
   return {
     bookmarks: store.bookmarks,
     modelBookmarks,
     narrativeBookmarks,
+    collections: store.collections,
+    tags,
     isLoading: store.isLoading,
     error: store.error,
+    failedOperation: store.failedOperation,
+    collectionError: store.collectionError,
     addBookmark: store.addBookmark,
     removeBookmark: store.removeBookmark,
-    toggleBookmark,
-    isBookmarked,
+    // Using RE2 (Feedback Loops) - Toggle and lookup go through the store's index
+    toggleBookmark: store.toggleBookmark,
+    isBookmarked: store.hasBookmark,
     clearAll: store.clearBookmarks,
+    updateBookmark: store.updateBookmark,
+    updateBookmarkTags: store.updateBookmarkTags,
+    updateBookmarkNote: store.updateBookmarkNote,
+    relinkBookmark: store.relinkBookmark,
+    importBookmarks: store.importBookmarks,
+    createCollection: store.createCollection,
+    renameCollection: store.renameCollection,
+    deleteCollection: store.deleteCollection,
+    moveCollection: store.moveCollection,
+    addToCollection: store.addToCollection,
+    removeFromCollection: store.removeFromCollection,
+    moveInCollection: store.moveInCollection,
+    getCollectionBookmarks: store.getCollectionBookmarks,
+    getBookmarkCollections,
+    undo: store.undo,
+    redo: store.redo,
+    canUndo: store.past.length > 0,
+    canRedo: store.future.length > 0,
+    retryStorage: store.retryStorage,
   };
 }
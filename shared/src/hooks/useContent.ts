@@ -0,0 +1,62 @@
+// Using CO5 (Composition) - React hook interface for content queries
+
+import { useMemo } from 'react';
+import { useContentStore } from '../stores';
+import type {
+  ContentRepository,
+  MentalModel,
+  Narrative,
+  ProvenanceCheck,
+  QuarantinedRecord,
+} from '../types';
+
+export interface UseContentReturn {
+  // State
+  models: MentalModel[];
+  narratives: Narrative[];
+  isLoading: boolean;
+  error: string | null;
+  quarantined: QuarantinedRecord[];
+  narrativesVersion: string | null;
+  narrativesLastUpdated: string | null;
+
+  // Queries
+  getModelById: ContentRepository['getModelById'];
+  getModelByCode: ContentRepository['getModelByCode'];
+  getModelsByTransformation: ContentRepository['getModelsByTransformation'];
+  getModelsByCategory: ContentRepository['getModelsByCategory'];
+  getNarrativeById: ContentRepository['getNarrativeById'];
+  getNarrativesByCategory: ContentRepository['getNarrativesByCategory'];
+  getNarrativeProvenance: (id: string) => ProvenanceCheck | undefined;
+
+  // Actions
+  reload: () => Promise<void>;
+}
+
+export function useContent(): UseContentReturn {
+  const { repository, isLoading, error, validationReports, provenance, loadContent } =
+    useContentStore();
+
+  const quarantined = useMemo(
+    () => validationReports.flatMap((report) => report.quarantined),
+    [validationReports]
+  );
+
+  return {
+    models: repository.models,
+    narratives: repository.narratives,
+    isLoading,
+    error,
+    quarantined,
+    narrativesVersion: repository.narrativesVersion,
+    narrativesLastUpdated: repository.narrativesLastUpdated,
+    getModelById: repository.getModelById,
+    getModelByCode: repository.getModelByCode,
+    getModelsByTransformation: repository.getModelsByTransformation,
+    getModelsByCategory: repository.getModelsByCategory,
+    getNarrativeById: repository.getNarrativeById,
+    getNarrativesByCategory: repository.getNarrativesByCategory,
+    getNarrativeProvenance: (id: string) => provenance[id],
+    reload: loadContent,
+  };
+}
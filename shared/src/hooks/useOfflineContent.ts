@@ -0,0 +1,48 @@
+// Using CO5 (Composition) - React hook interface for offline content management
+
+import { useOfflineStore } from '../stores';
+import type { OfflineDownloadStatus, OfflineProgress } from '../types';
+import { formatBytes } from '../utils/formatBytes';
+
+export interface UseOfflineContentReturn {
+  // State
+  offlineMode: boolean;
+  status: OfflineDownloadStatus;
+  progress: OfflineProgress;
+  isDownloading: boolean;
+  storageBytes: number;
+  storageSize: string;
+  cachedModels: number;
+  cachedNarratives: number;
+  hasOfflineContent: boolean;
+  downloadedAt: string | null;
+  error: string | null;
+
+  // Actions
+  setOfflineMode: (enabled: boolean) => void;
+  downloadAll: () => Promise<void>;
+  clearCache: () => Promise<void>;
+  refreshStorageInfo: () => Promise<void>;
+}
+
+export function useOfflineContent(): UseOfflineContentReturn {
+  const store = useOfflineStore();
+
+  return {
+    offlineMode: store.offlineMode,
+    status: store.status,
+    progress: store.progress,
+    isDownloading: store.status === 'downloading',
+    storageBytes: store.storageBytes,
+    storageSize: formatBytes(store.storageBytes),
+    cachedModels: store.cachedModels,
+    cachedNarratives: store.cachedNarratives,
+    hasOfflineContent: store.cachedModels + store.cachedNarratives > 0,
+    downloadedAt: store.downloadedAt,
+    error: store.error,
+    setOfflineMode: store.setOfflineMode,
+    downloadAll: store.downloadAll,
+    clearCache: store.clearCache,
+    refreshStorageInfo: store.refreshStorageInfo,
+  };
+}
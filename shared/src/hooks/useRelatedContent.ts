@@ -0,0 +1,35 @@
+// Using CO5 (Composition) - React hook for "more like this" recommendations
+
+import { useMemo } from 'react';
+import { useContentStore } from '../stores';
+import { createSimilarityIndex } from '../search/similarity';
+import type { ContentItemType, SimilarItem } from '../search/similarity';
+import type { MentalModel, Narrative } from '../types';
+
+export interface UseRelatedContentReturn {
+  similarModels: SimilarItem<MentalModel>[];
+  relatedNarratives: SimilarItem<Narrative>[];
+}
+
+/**
+ * Models and narratives most similar to the given item, by TF-IDF over their text
+ */
+export function useRelatedContent(
+  type: ContentItemType,
+  id: string,
+  limit = 5
+): UseRelatedContentReturn {
+  const { repository } = useContentStore();
+  const { models, narratives } = repository;
+
+  // Using SY8 (Systems) - Vectors are rebuilt only when the content itself changes
+  const index = useMemo(() => createSimilarityIndex({ models, narratives }), [models, narratives]);
+
+  return useMemo(
+    () => ({
+      similarModels: index.similarModels({ type, id }, limit),
+      relatedNarratives: index.similarNarratives({ type, id }, limit),
+    }),
+    [index, type, id, limit]
+  );
+}
@@ -0,0 +1,30 @@
+// Using CO5 (Composition) - React hook interface for search history
+
+import { useMemo } from 'react';
+import { useSearchHistoryStore } from '../stores';
+import type { SearchHistoryEntry } from '../types';
+
+export interface UseSearchHistoryReturn {
+  // State
+  entries: SearchHistoryEntry[];
+  recentSearches: string[];
+
+  // Actions
+  recordSearch: (query: string) => void;
+  removeSearch: (query: string) => void;
+  clearHistory: () => void;
+}
+
+export function useSearchHistory(): UseSearchHistoryReturn {
+  const store = useSearchHistoryStore();
+
+  const recentSearches = useMemo(() => store.entries.map((e) => e.query), [store.entries]);
+
+  return {
+    entries: store.entries,
+    recentSearches,
+    recordSearch: store.recordSearch,
+    removeSearch: store.removeSearch,
+    clearHistory: store.clearHistory,
+  };
+}
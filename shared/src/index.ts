@@ -11,3 +11,15 @@ export * from './hooks';
 
 // Utilities
 export * from './utils';
+
+// Content
+export * from './content';
+
+// Remote content API
+export * from './api';
+
+// Search
+export * from './search';
+
+// Bookmark import and export
+export * from './bookmarks';
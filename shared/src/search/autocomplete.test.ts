@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createAutocompleteProvider } from './autocomplete';
+import bundledModels from '../content/data/mental-models.json';
+import type { MentalModel, SearchHistoryEntry } from '../types';
+
+const base = (bundledModels.models as MentalModel[])[0];
+const model = (code: string, name: string, tags: string[], category: string): MentalModel => ({
+  ...base,
+  id: code.toLowerCase(),
+  code,
+  name,
+  tags,
+  category,
+});
+
+const provider = createAutocompleteProvider({
+  models: [
+    model('SY1', 'Systems Thinking', ['systems', 'feedback'], 'Systems'),
+    model('SY2', 'Feedback Loops', ['systems', 'loops'], 'Systems'),
+    model('RE4', 'Recursive Self-Improvement', ['learning'], 'Recursion'),
+  ],
+});
+
+const history = (entries: Array<[string, number]>): SearchHistoryEntry[] =>
+  entries.map(([query, count]) => ({ query, count, lastSearchedAt: '2024-01-01T00:00:00Z' }));
+
+describe('autocomplete', () => {
+  it('suggests codes, names, tags and categories, prefix matches first', () => {
+    const suggestions = provider.suggest('sy');
+    expect(suggestions.map((s) => [s.text, s.kind])).toEqual([
+      // "systems" is both a tag and a category; it counts once, as the kind seen first
+      ['systems', 'tag'],
+      ['SY1', 'code'],
+      ['SY2', 'code'],
+      ['Systems Thinking', 'name'],
+    ]);
+  });
+
+  it('ranks word-prefix matches below whole-value prefixes', () => {
+    const texts = provider.suggest('loo').map((s) => s.text);
+    expect(texts).toEqual(['loops', 'Feedback Loops']);
+  });
+
+  it('lifts frequently searched suggestions and includes past searches', () => {
+    const suggestions = provider.suggest('s', {
+      history: history([
+        ['Systems Thinking', 5],
+        ['self-improvement', 1],
+      ]),
+    });
+    expect(suggestions[0].text).toBe('Systems Thinking');
+    expect(suggestions.find((s) => s.text === 'self-improvement')?.kind).toBe('history');
+  });
+
+  it('leaves out exactly what was typed and offers popular topics when empty', () => {
+    expect(provider.suggest('SY1').map((s) => s.text)).not.toContain('SY1');
+    expect(provider.suggest('', { limit: 2 }).map((s) => s.text)).toEqual(['systems', 'loops']);
+  });
+});
@@ -0,0 +1,117 @@
+// Using P1 (First Principles) - Suggest completions from the content vocabulary and the user's history
+
+import type {
+  MentalModel,
+  Narrative,
+  SearchHistoryEntry,
+  SearchSuggestion,
+  SuggestionKind,
+} from '../types';
+import { naturalCompare } from '../utils/naturalCompare';
+import { normalizeSearchQuery } from '../stores/searchHistoryStore';
+
+export interface AutocompleteContent {
+  models: MentalModel[];
+  /** Narratives contribute their tags and categories */
+  narratives?: Narrative[];
+}
+
+export interface SuggestOptions {
+  /** Search history; frequently searched suggestions rank higher */
+  history?: SearchHistoryEntry[];
+  limit?: number;
+}
+
+export interface AutocompleteProvider {
+  /** Suggestions for what the user has typed so far; popular ones when empty */
+  suggest: (input: string, options?: SuggestOptions) => SearchSuggestion[];
+}
+
+interface Candidate {
+  text: string;
+  kind: SuggestionKind;
+  /** How many content items carry this value */
+  occurrences: number;
+}
+
+// Whole-value prefix > word prefix > substring
+const PREFIX_MATCH = 1;
+const WORD_PREFIX_MATCH = 0.7;
+const SUBSTRING_MATCH = 0.4;
+const EMPTY_INPUT_MATCH = 0.2;
+// The most searched suggestion gets this much on top of its match score
+const HISTORY_WEIGHT = 0.5;
+
+function matchScore(candidate: string, input: string): number {
+  if (!input) return EMPTY_INPUT_MATCH;
+  if (candidate.startsWith(input)) return PREFIX_MATCH;
+  if (candidate.split(/[\s-]+/).some((word) => word.startsWith(input))) return WORD_PREFIX_MATCH;
+  return candidate.includes(input) ? SUBSTRING_MATCH : 0;
+}
+
+/**
+ * Build an autocomplete provider over model codes, names, tags and categories
+ */
+export function createAutocompleteProvider({
+  models,
+  narratives = [],
+}: AutocompleteContent): AutocompleteProvider {
+  // Using DE3 (Decomposition) - One candidate per normalized value; the first kind seen wins
+  const vocabulary = new Map<string, Candidate>();
+  const offer = (text: string, kind: SuggestionKind) => {
+    const key = normalizeSearchQuery(text);
+    if (!key) return;
+    const existing = vocabulary.get(key);
+    if (existing) existing.occurrences++;
+    else vocabulary.set(key, { text, kind, occurrences: 1 });
+  };
+
+  models.forEach((model) => offer(model.code, 'code'));
+  models.forEach((model) => offer(model.name, 'name'));
+  for (const item of [...models, ...narratives]) item.tags.forEach((tag) => offer(tag, 'tag'));
+  for (const item of [...models, ...narratives]) offer(item.category, 'category');
+
+  const suggest = (input: string, { history = [], limit = 8 }: SuggestOptions = {}) => {
+    const query = normalizeSearchQuery(input);
+    const searchCounts = new Map(history.map((e) => [normalizeSearchQuery(e.query), e.count]));
+    const maxCount = Math.max(1, ...searchCounts.values());
+
+    // Past searches that aren't content values can still be suggested
+    const candidates = new Map(vocabulary);
+    for (const entry of history) {
+      const key = normalizeSearchQuery(entry.query);
+      if (!candidates.has(key)) {
+        candidates.set(key, { text: entry.query, kind: 'history', occurrences: 0 });
+      }
+    }
+
+    const ranked: Array<SearchSuggestion & { occurrences: number }> = [];
+    for (const [key, candidate] of candidates) {
+      // Suggesting exactly what is already typed doesn't help
+      if (key === query) continue;
+      // With nothing typed, offer broad topics rather than individual models
+      if (!query && (candidate.kind === 'code' || candidate.kind === 'name')) continue;
+      const match = matchScore(key, query);
+      if (match === 0) continue;
+      const count = searchCounts.get(key) ?? 0;
+      const frequency = (HISTORY_WEIGHT * Math.log2(1 + count)) / Math.log2(1 + maxCount);
+      ranked.push({
+        text: candidate.text,
+        kind: candidate.kind,
+        score: match + frequency,
+        occurrences: candidate.occurrences,
+      });
+    }
+
+    ranked.sort(
+      (a, b) =>
+        b.score - a.score ||
+        b.occurrences - a.occurrences ||
+        a.text.length - b.text.length ||
+        naturalCompare(a.text, b.text)
+    );
+    return ranked.slice(0, limit).map(({ text, kind, score }) => ({ text, kind, score }));
+  };
+
+  return { suggest };
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { filterBookmarks, getBookmarkTags, suggestBookmarkTags } from './bookmarkSearch';
+import type { Bookmark } from '../types';
+
+const bookmark = (id: string, title: string, tags: string[], note?: string): Bookmark => ({
+  id,
+  type: 'mental-model',
+  itemId: id,
+  title,
+  createdAt: '2024-01-01T00:00:00Z',
+  tags,
+  ...(note && { note }),
+});
+
+const bookmarks = [
+  bookmark('1', 'First Principles', ['strategy', 'client-a'], 'Reframe the pricing debate'),
+  bookmark('2', 'Inversion', ['strategy']),
+  bookmark('3', 'Feedback Loops', ['systems', 'client-b'], 'Explains the churn spiral'),
+  bookmark('4', 'Premortem', []),
+];
+
+const titles = (results: { item: Bookmark }[]) => results.map((r) => r.item.title);
+
+describe('bookmark search', () => {
+  it('lists tags by usage', () => {
+    expect(getBookmarkTags(bookmarks)).toEqual([
+      { tag: 'strategy', count: 2 },
+      { tag: 'client-a', count: 1 },
+      { tag: 'client-b', count: 1 },
+      { tag: 'systems', count: 1 },
+    ]);
+  });
+
+  it('suggests prefix matches before substring matches and skips tags already set', () => {
+    expect(suggestBookmarkTags(bookmarks, 'S')).toEqual(['strategy', 'systems']);
+    expect(suggestBookmarkTags(bookmarks, 'client', { exclude: ['client-a'] })).toEqual([
+      'client-b',
+    ]);
+    expect(suggestBookmarkTags(bookmarks, 'tem')).toEqual(['systems']);
+    expect(suggestBookmarkTags(bookmarks, '')).toHaveLength(4);
+  });
+
+  it('filters by any selected tag, keeping order without a query', () => {
+    expect(titles(filterBookmarks(bookmarks, { tags: ['client-a', 'systems'] }))).toEqual([
+      'First Principles',
+      'Feedback Loops',
+    ]);
+    expect(titles(filterBookmarks(bookmarks))).toHaveLength(4);
+  });
+
+  it('searches notes alongside titles', () => {
+    const results = filterBookmarks(bookmarks, { query: 'churn' });
+    expect(titles(results)).toEqual(['Feedback Loops']);
+    expect(results[0].matches).toEqual(['note']);
+
+    expect(titles(filterBookmarks(bookmarks, { query: 'pricing', tags: ['systems'] }))).toEqual([]);
+  });
+});
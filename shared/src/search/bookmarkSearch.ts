@@ -0,0 +1,72 @@
+// Using DE3 (Decomposition) - Tag vocabulary, tag suggestions and text search over the user's bookmarks
+
+import type { Bookmark, BookmarkTagCount } from '../types';
+import type { SearchResult } from '../utils/fuzzySearch';
+import { fuzzySearch } from '../utils/fuzzySearch';
+import { naturalCompare } from '../utils/naturalCompare';
+import { normalizeBookmarkTags } from '../bookmarks/tags';
+
+export interface BookmarkFilterOptions {
+  /** Keep bookmarks carrying any of these tags */
+  tags?: string[];
+  /** Fuzzy text matched against title and note */
+  query?: string;
+}
+
+export interface SuggestTagsOptions {
+  /** Tags already on the bookmark being edited */
+  exclude?: string[];
+  limit?: number;
+}
+
+const BOOKMARK_SEARCH_KEYS = [
+  { key: 'title', weight: 1 },
+  { key: 'note', weight: 0.8 },
+];
+
+/**
+ * Every tag in use, most used first
+ */
+export function getBookmarkTags(bookmarks: Bookmark[]): BookmarkTagCount[] {
+  const counts = new Map<string, number>();
+  for (const bookmark of bookmarks) {
+    for (const tag of bookmark.tags ?? []) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+  }
+  return Array.from(counts, ([tag, count]) => ({ tag, count })).sort(
+    (a, b) => b.count - a.count || naturalCompare(a.tag, b.tag)
+  );
+}
+
+/**
+ * Existing tags completing what has been typed: tags starting with the input
+ * first, then tags containing it, each group by usage
+ */
+export function suggestBookmarkTags(
+  bookmarks: Bookmark[],
+  input: string,
+  { exclude = [], limit = 6 }: SuggestTagsOptions = {}
+): string[] {
+  const [query = ''] = normalizeBookmarkTags([input]);
+  const excluded = new Set(normalizeBookmarkTags(exclude));
+  const candidates = getBookmarkTags(bookmarks).filter(
+    ({ tag }) => !excluded.has(tag) && tag !== query && tag.includes(query)
+  );
+  const prefixed = candidates.filter(({ tag }) => tag.startsWith(query));
+  const inside = candidates.filter(({ tag }) => !tag.startsWith(query));
+  return [...prefixed, ...inside].slice(0, limit).map(({ tag }) => tag);
+}
+
+/**
+ * Filter bookmarks by tag and search their titles and notes. Without a query
+ * every bookmark passing the tag filter is returned in its original order.
+ */
+export function filterBookmarks(
+  bookmarks: Bookmark[],
+  { tags = [], query = '' }: BookmarkFilterOptions = {}
+): SearchResult<Bookmark>[] {
+  const tagged =
+    tags.length === 0
+      ? bookmarks
+      : bookmarks.filter((bookmark) => bookmark.tags?.some((tag) => tags.includes(tag)));
+  return fuzzySearch(tagged, query, { keys: BOOKMARK_SEARCH_KEYS, limit: tagged.length });
+}
@@ -0,0 +1,40 @@
+// Using CO5 (Composition) - Export the search engine
+
+export { createSearchIndex, tokenize } from './searchIndex';
+export type {
+  SearchIndex,
+  SearchIndexOptions,
+  SearchField,
+  SearchQueryOptions,
+} from './searchIndex';
+export { createTermTrie } from './trie';
+export type { TermTrie, FuzzyTermMatch } from './trie';
+export { parseQuery, resolveQueryField, isPlainTextQuery } from './queryParser';
+export type {
+  QueryNode,
+  QueryError,
+  QueryFieldInfo,
+  QueryFieldKind,
+  ParsedQuery,
+  ParseQueryOptions,
+  ComparisonOperator,
+} from './queryParser';
+export {
+  evaluateQuery,
+  MODEL_QUERY_SCHEMA,
+  NARRATIVE_QUERY_SCHEMA,
+  SEARCH_QUERY_FIELDS,
+} from './queryEvaluator';
+export type { QuerySchema, QueryFieldDefinition, EvaluateQueryOptions } from './queryEvaluator';
+export { createAutocompleteProvider } from './autocomplete';
+export type { AutocompleteProvider, AutocompleteContent, SuggestOptions } from './autocomplete';
+export { createSimilarityIndex } from './similarity';
+export type {
+  SimilarityIndex,
+  SimilarityContent,
+  SimilarItem,
+  ContentItemRef,
+  ContentItemType,
+} from './similarity';
+export { getBookmarkTags, suggestBookmarkTags, filterBookmarks } from './bookmarkSearch';
+export type { BookmarkFilterOptions, SuggestTagsOptions } from './bookmarkSearch';
@@ -0,0 +1,245 @@
+// Using CO5 (Composition) - Evaluate a parsed query against models and narratives
+
+import type { MentalModel, Narrative } from '../types';
+import type { MatchRange, MatchRanges, SearchResult } from '../utils/fuzzySearch';
+import { fuzzySearch, getNestedValue, mergeRanges } from '../utils/fuzzySearch';
+import { getModelDifficulty } from '../content/mappers';
+import type { QueryFieldInfo, QueryNode } from './queryParser';
+import { resolveQueryField } from './queryParser';
+
+export interface QueryFieldDefinition<T> extends QueryFieldInfo {
+  get: (item: T) => string | number | string[] | undefined;
+}
+
+export interface QuerySchema<T> {
+  fields: QueryFieldDefinition<T>[];
+  /** Keys searched by bare terms and quoted phrases */
+  textKeys: string[];
+}
+
+export interface EvaluateQueryOptions {
+  /** Fuzzy threshold for bare terms, as in `fuzzySearch` */
+  threshold?: number;
+  limit?: number;
+}
+
+export const MODEL_QUERY_SCHEMA: QuerySchema<MentalModel> = {
+  textKeys: ['code', 'name', 'description', 'tags'],
+  fields: [
+    { name: 'type', kind: 'keyword', get: () => 'model' },
+    { name: 'code', kind: 'keyword', get: (m) => m.code },
+    { name: 'name', kind: 'text', get: (m) => m.name },
+    { name: 'tag', aliases: ['tags'], kind: 'keyword', get: (m) => m.tags },
+    {
+      name: 'transformation',
+      aliases: ['transformations', 't'],
+      kind: 'keyword',
+      get: (m) => m.transformations,
+    },
+    { name: 'category', kind: 'keyword', get: (m) => m.category },
+    { name: 'difficulty', aliases: ['diff'], kind: 'number', get: getModelDifficulty },
+  ],
+};
+
+export const NARRATIVE_QUERY_SCHEMA: QuerySchema<Narrative> = {
+  textKeys: ['title', 'summary', 'category', 'tags'],
+  fields: [
+    { name: 'type', kind: 'keyword', get: () => 'narrative' },
+    { name: 'title', aliases: ['name'], kind: 'text', get: (n) => n.title },
+    { name: 'tag', aliases: ['tags'], kind: 'keyword', get: (n) => n.tags },
+    { name: 'category', kind: 'keyword', get: (n) => n.category },
+    { name: 'domain', aliases: ['domains'], kind: 'keyword', get: (n) => n.domain },
+    {
+      name: 'evidence',
+      aliases: ['evidence_quality', 'quality'],
+      kind: 'keyword',
+      get: (n) => n.evidence_quality,
+    },
+    // Percent, matching how confidence is shown on screen
+    { name: 'confidence', kind: 'number', get: (n) => Math.round(n.confidence * 100) },
+  ],
+};
+
+/**
+ * Every field accepted across models and narratives, for `parseQuery`
+ */
+export const SEARCH_QUERY_FIELDS: QueryFieldInfo[] = Array.from(
+  [...MODEL_QUERY_SCHEMA.fields, ...NARRATIVE_QUERY_SCHEMA.fields]
+    .reduce((byName, { name, aliases = [], kind }) => {
+      const known = byName.get(name)?.aliases ?? [];
+      byName.set(name, { name, kind, aliases: Array.from(new Set([...known, ...aliases])) });
+      return byName;
+    }, new Map<string, QueryFieldInfo>())
+    .values()
+);
+
+interface Evaluation {
+  scores: number[];
+  matches: Set<string>;
+  ranges: MatchRanges;
+}
+
+const noMatch = (): Evaluation => ({ scores: [], matches: new Set(), ranges: {} });
+
+function addRanges(target: MatchRanges, source: MatchRanges) {
+  for (const [key, ranges] of Object.entries(source)) {
+    target[key] = [...(target[key] ?? []), ...ranges];
+  }
+}
+
+function phraseRanges(text: string, phrase: string): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  const lower = text.toLowerCase();
+  for (let i = lower.indexOf(phrase); i !== -1; i = lower.indexOf(phrase, i + phrase.length)) {
+    ranges.push({ start: i, end: i + phrase.length });
+  }
+  return ranges;
+}
+
+const asList = (value: string | number | string[] | undefined): Array<string | number> =>
+  value === undefined ? [] : Array.isArray(value) ? value : [value];
+
+/**
+ * Run a query AST over items. Bare terms are scored with `fuzzySearch`;
+ * filters, phrases and negations decide membership. Returns `SearchResult`s
+ * sorted by score.
+ */
+export function evaluateQuery<T extends object>(
+  items: T[],
+  ast: QueryNode,
+  schema: QuerySchema<T>,
+  { threshold = 0.3, limit = 50 }: EvaluateQueryOptions = {}
+): SearchResult<T>[] {
+  // Using SY8 (Systems) - One fuzzy pass per distinct term instead of one per item
+  const termHits = new Map<string, Map<T, SearchResult<T>>>();
+  const collectTerms = (node: QueryNode) => {
+    if (node.type === 'term' && !termHits.has(node.value)) {
+      const results = fuzzySearch(items, node.value, {
+        keys: schema.textKeys,
+        threshold,
+        limit: items.length,
+      });
+      termHits.set(node.value, new Map(results.map((result) => [result.item, result])));
+    } else if (node.type === 'not') {
+      collectTerms(node.operand);
+    } else if (node.type === 'and' || node.type === 'or') {
+      node.operands.forEach(collectTerms);
+    }
+  };
+  collectTerms(ast);
+
+  const evaluate = (node: QueryNode, item: T): Evaluation | null => {
+    switch (node.type) {
+      case 'empty':
+        return noMatch();
+
+      case 'term': {
+        const hit = termHits.get(node.value)?.get(item);
+        return hit
+          ? { scores: [hit.score], matches: new Set(hit.matches), ranges: { ...hit.ranges } }
+          : null;
+      }
+
+      case 'phrase': {
+        const ranges: MatchRanges = {};
+        for (const key of schema.textKeys) {
+          const found = phraseRanges(getNestedValue(item, key), node.value);
+          if (found.length > 0) ranges[key] = found;
+        }
+        const keys = Object.keys(ranges);
+        return keys.length > 0 ? { scores: [1], matches: new Set(keys), ranges } : null;
+      }
+
+      case 'field':
+      case 'compare':
+      case 'range': {
+        // A field the schema lacks (e.g. evidence on a model) simply doesn't match
+        const field = resolveQueryField(node.field, schema.fields) as
+          | QueryFieldDefinition<T>
+          | undefined;
+        if (!field) return null;
+        const values = asList(field.get(item));
+
+        let matched: boolean;
+        if (node.type === 'field') {
+          const wanted = node.value.toLowerCase();
+          matched = values.some((value) => {
+            const text = String(value).toLowerCase();
+            if (field.kind === 'number') return Number(value) === Number(node.value);
+            return field.kind === 'text' ? text.includes(wanted) : text === wanted;
+          });
+        } else {
+          matched = values.some((value) => {
+            const n = Number(value);
+            if (node.type === 'range') return n >= node.min && n <= node.max;
+            switch (node.operator) {
+              case '>':
+                return n > node.value;
+              case '>=':
+                return n >= node.value;
+              case '<':
+                return n < node.value;
+              case '<=':
+                return n <= node.value;
+            }
+          });
+        }
+        return matched ? { scores: [], matches: new Set([field.name]), ranges: {} } : null;
+      }
+
+      case 'not':
+        return evaluate(node.operand, item) ? null : noMatch();
+
+      case 'and': {
+        const combined = noMatch();
+        for (const operand of node.operands) {
+          const result = evaluate(operand, item);
+          if (!result) return null;
+          combined.scores.push(...result.scores);
+          result.matches.forEach((match) => combined.matches.add(match));
+          addRanges(combined.ranges, result.ranges);
+        }
+        return combined;
+      }
+
+      case 'or': {
+        const results = node.operands
+          .map((operand) => evaluate(operand, item))
+          .filter((result): result is Evaluation => result !== null);
+        if (results.length === 0) return null;
+        const ranges: MatchRanges = {};
+        results.forEach((r) => addRanges(ranges, r.ranges));
+        return {
+          // Credit the best matching branch rather than averaging in the weaker ones
+          scores: [Math.max(...results.map((r) => average(r.scores)))],
+          matches: new Set(results.flatMap((r) => Array.from(r.matches))),
+          ranges,
+        };
+      }
+    }
+  };
+
+  const results: SearchResult<T>[] = [];
+  for (const item of items) {
+    const result = evaluate(ast, item);
+    if (result) {
+      const ranges: MatchRanges = {};
+      for (const [key, keyRanges] of Object.entries(result.ranges)) {
+        ranges[key] = mergeRanges(keyRanges);
+      }
+      results.push({
+        item,
+        score: average(result.scores),
+        matches: Array.from(result.matches),
+        ranges,
+      });
+    }
+  }
+  results.sort((a, b) => b.score - a.score);
+  return results.slice(0, limit);
+}
+
+// Pure filters carry no text score, so an item matched only by filters scores 1
+function average(scores: number[]): number {
+  return scores.length === 0 ? 1 : scores.reduce((sum, s) => sum + s, 0) / scores.length;
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { parseQuery, isPlainTextQuery } from './queryParser';
+import {
+  evaluateQuery,
+  MODEL_QUERY_SCHEMA,
+  NARRATIVE_QUERY_SCHEMA,
+  SEARCH_QUERY_FIELDS,
+} from './queryEvaluator';
+import bundledModels from '../content/data/mental-models.json';
+import bundledNarratives from '../content/data/narratives.json';
+import type { MentalModelsData, NarrativesData } from '../types';
+
+const { models } = bundledModels as MentalModelsData;
+const { narratives } = bundledNarratives as NarrativesData;
+
+const ast = (input: string) => {
+  const parsed = parseQuery(input, { fields: SEARCH_QUERY_FIELDS });
+  if (!parsed.ok) throw new Error(parsed.errors[0].message);
+  return parsed.ast;
+};
+
+describe('parseQuery', () => {
+  it('parses field filters, ranges, phrases and negation', () => {
+    expect(
+      ast('tag:risk transformation:SY difficulty:>=3 evidence:A "feedback loop" -biases')
+    ).toEqual({
+      type: 'and',
+      operands: [
+        { type: 'field', field: 'tag', value: 'risk', position: 0 },
+        { type: 'field', field: 'transformation', value: 'SY', position: 9 },
+        { type: 'compare', field: 'difficulty', operator: '>=', value: 3, position: 27 },
+        { type: 'field', field: 'evidence', value: 'A', position: 42 },
+        { type: 'phrase', value: 'feedback loop', position: 53 },
+        { type: 'not', operand: { type: 'term', value: 'biases', position: 70 } },
+      ],
+    });
+  });
+
+  it('binds AND tighter than OR and honours parentheses', () => {
+    expect(ast('a b OR c')).toMatchObject({
+      type: 'or',
+      operands: [{ type: 'and' }, { type: 'term', value: 'c' }],
+    });
+    expect(ast('a (b | c)')).toMatchObject({
+      type: 'and',
+      operands: [{ type: 'term', value: 'a' }, { type: 'or' }],
+    });
+    expect(ast('NOT (a OR b)')).toMatchObject({ type: 'not', operand: { type: 'or' } });
+  });
+
+  it('parses numeric ranges and quoted field values', () => {
+    expect(ast('difficulty:2..4')).toMatchObject({ type: 'range', min: 2, max: 4 });
+    expect(ast('category:"decision science"')).toMatchObject({
+      type: 'field',
+      value: 'decision science',
+    });
+  });
+
+  it.each([
+    ['"unclosed', 'Unclosed quote', 0],
+    ['tag:', 'Missing value for tag', 0],
+    ['(a OR b', 'Missing closing parenthesis', 0],
+    ['a OR', 'Expected a term after OR', 2],
+    ['a )', 'Unexpected ")"', 2],
+    ['difficulty:>=hard', 'Expected a number, got "hard"', 0],
+    ['difficulty:5..1', 'Range 5..1 is empty', 0],
+    ['colour:red', 'Unknown field "colour"', 0],
+    ['tag:>3', 'tag is not numeric', 0],
+  ])('reports %s as an error', (input, message, position) => {
+    const parsed = parseQuery(input, { fields: SEARCH_QUERY_FIELDS });
+    expect(parsed.ok).toBe(false);
+    if (parsed.ok) return;
+    expect(parsed.errors[0].message).toContain(message);
+    expect(parsed.errors[0].position).toBe(position);
+  });
+
+  it('recognizes plain free-text queries', () => {
+    expect(isPlainTextQuery(ast('systems thinking'))).toBe(true);
+    expect(isPlainTextQuery(ast(''))).toBe(true);
+    expect(isPlainTextQuery(ast('systems -thinking'))).toBe(false);
+  });
+});
+
+describe('evaluateQuery', () => {
+  it('filters models by transformation and difficulty', () => {
+    const results = evaluateQuery(models, ast('t:SY difficulty:>=3'), MODEL_QUERY_SCHEMA);
+    expect(results.length).toBeGreaterThan(0);
+    for (const { item, score, matches } of results) {
+      expect(item.transformations).toContain('SY');
+      expect(item.meta?.difficulty).toBeGreaterThanOrEqual(3);
+      expect(score).toBe(1);
+      expect(matches).toEqual(['transformation', 'difficulty']);
+    }
+  });
+
+  it('applies OR and negation', () => {
+    const either = evaluateQuery(models, ast('code:P1 OR code:IN1'), MODEL_QUERY_SCHEMA);
+    expect(either.map((r) => r.item.code).sort()).toEqual(['IN1', 'P1']);
+
+    const without = evaluateQuery(models, ast('type:model -code:P1'), MODEL_QUERY_SCHEMA);
+    expect(without).toHaveLength(models.length - 1);
+  });
+
+  it('scores bare terms with fuzzySearch and requires phrases verbatim', () => {
+    const results = evaluateQuery(
+      narratives,
+      ast('evidence:A "under uncertainty"'),
+      NARRATIVE_QUERY_SCHEMA
+    );
+    expect(results.map((r) => r.item.id)).toEqual(['nar1']);
+    for (const [key, ranges] of Object.entries(results[0].ranges ?? {})) {
+      const text =
+        key === 'tags' ? results[0].item.tags.join(' ') : results[0].item[key as 'title'];
+      expect(ranges.map((r) => text.slice(r.start, r.end).toLowerCase())).toContain(
+        'under uncertainty'
+      );
+    }
+
+    const fuzzy = evaluateQuery(narratives, ast('decsion'), NARRATIVE_QUERY_SCHEMA);
+    expect(fuzzy[0].score).toBeLessThan(1);
+    expect(fuzzy.some((r) => r.item.title.includes('Decision'))).toBe(true);
+  });
+
+  it('never matches fields the item type does not have', () => {
+    expect(evaluateQuery(models, ast('evidence:A'), MODEL_QUERY_SCHEMA)).toEqual([]);
+  });
+});
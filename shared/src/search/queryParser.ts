@@ -0,0 +1,327 @@
+// Using DE3 (Decomposition) - Parse power-user search strings into a typed query AST
+//
+// Grammar (AND binds tighter than OR):
+//   query   := or
+//   or      := and ( ("OR" | "|") and )*
+//   and     := unary ( "AND"? unary )*
+//   unary   := ("-" | "NOT") unary | primary
+//   primary := "(" or ")" | "phrase" | field ":" value | term
+//   value   := word | "phrase" | (">" | ">=" | "<" | "<=") number | number ".." number
+
+export type ComparisonOperator = '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { type: 'empty' }
+  | { type: 'term'; value: string; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'field'; field: string; value: string; position: number }
+  | {
+      type: 'compare';
+      field: string;
+      operator: ComparisonOperator;
+      value: number;
+      position: number;
+    }
+  | { type: 'range'; field: string; min: number; max: number; position: number }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'and'; operands: QueryNode[] }
+  | { type: 'or'; operands: QueryNode[] };
+
+export type QueryFieldKind = 'text' | 'keyword' | 'number';
+
+/**
+ * A field the query language accepts, e.g. `tag` (alias `tags`) of kind keyword
+ */
+export interface QueryFieldInfo {
+  name: string;
+  aliases?: string[];
+  kind: QueryFieldKind;
+}
+
+export interface QueryError {
+  message: string;
+  /** Character offset into the query string */
+  position: number;
+}
+
+export type ParsedQuery = { ok: true; ast: QueryNode } | { ok: false; errors: QueryError[] };
+
+export interface ParseQueryOptions {
+  /** Known fields; when given, unknown fields and type mismatches are errors */
+  fields?: QueryFieldInfo[];
+}
+
+type Token =
+  | { type: 'word'; value: string; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'field'; field: string; value: string; quoted: boolean; position: number }
+  | { type: 'lparen' | 'rparen' | 'or' | 'and' | 'not'; position: number };
+
+class QuerySyntaxError extends Error {
+  constructor(
+    message: string,
+    public readonly position: number
+  ) {
+    super(message);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+const isBreak = (char: string | undefined) =>
+  char === undefined || /\s/.test(char) || char === '(' || char === ')';
+
+// Using P1 (First Principles) - Scan once into tokens so the parser never deals with raw characters
+function tokenizeQuery(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  const readQuoted = (start: number): string => {
+    const end = input.indexOf('"', start + 1);
+    if (end === -1) throw new QuerySyntaxError('Unclosed quote', start);
+    i = end + 1;
+    return input.slice(start + 1, end);
+  };
+
+  while (i < input.length) {
+    const char = input[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+    } else if (char === '|') {
+      tokens.push({ type: 'or', position: i });
+      i++;
+    } else if (char === '-' && input[i + 1] !== undefined && !/\s/.test(input[i + 1])) {
+      tokens.push({ type: 'not', position: i });
+      i++;
+    } else if (char === '"') {
+      const position = i;
+      tokens.push({ type: 'phrase', value: readQuoted(i), position });
+    } else {
+      const position = i;
+      while (!isBreak(input[i]) && input[i] !== '"' && input[i] !== ':') i++;
+      const word = input.slice(position, i);
+
+      if (input[i] === ':') {
+        i++;
+        if (input[i] === '"') {
+          tokens.push({ type: 'field', field: word, value: readQuoted(i), quoted: true, position });
+        } else {
+          const valueStart = i;
+          while (!isBreak(input[i]) && input[i] !== '"') i++;
+          tokens.push({
+            type: 'field',
+            field: word,
+            value: input.slice(valueStart, i),
+            quoted: false,
+            position,
+          });
+        }
+      } else if (word === 'OR') {
+        tokens.push({ type: 'or', position });
+      } else if (word === 'AND') {
+        tokens.push({ type: 'and', position });
+      } else if (word === 'NOT') {
+        tokens.push({ type: 'not', position });
+      } else {
+        tokens.push({ type: 'word', value: word, position });
+      }
+    }
+  }
+  return tokens;
+}
+
+const COMPARISON = /^(>=|<=|>|<)(.+)$/;
+const RANGE = /^(.+)\.\.(.+)$/;
+
+function parseNumber(raw: string, position: number): number {
+  const value = Number(raw);
+  if (raw.trim() === '' || Number.isNaN(value)) {
+    throw new QuerySyntaxError(`Expected a number, got "${raw}"`, position);
+  }
+  return value;
+}
+
+function fieldNode(token: Extract<Token, { type: 'field' }>): QueryNode {
+  const { field, value, quoted, position } = token;
+  if (!field) throw new QuerySyntaxError('Missing field name before ":"', position);
+  if (value === '') throw new QuerySyntaxError(`Missing value for ${field}`, position);
+
+  const name = field.toLowerCase();
+  if (!quoted) {
+    const comparison = COMPARISON.exec(value);
+    if (comparison) {
+      return {
+        type: 'compare',
+        field: name,
+        operator: comparison[1] as ComparisonOperator,
+        value: parseNumber(comparison[2], position),
+        position,
+      };
+    }
+    const range = RANGE.exec(value);
+    if (range) {
+      const min = parseNumber(range[1], position);
+      const max = parseNumber(range[2], position);
+      if (min > max) throw new QuerySyntaxError(`Range ${value} is empty`, position);
+      return { type: 'range', field: name, min, max, position };
+    }
+  }
+  return { type: 'field', field: name, value, position };
+}
+
+// Using RE2 (Feedback Loops) - Recursive descent mirrors the grammar one function per rule
+function parseTokens(tokens: Token[], inputLength: number): QueryNode {
+  let index = 0;
+  const peek = () => tokens[index];
+  const positionOf = (token: Token | undefined) => token?.position ?? inputLength;
+
+  const collapse = (type: 'and' | 'or', operands: QueryNode[]): QueryNode =>
+    operands.length === 1 ? operands[0] : { type, operands };
+
+  const parsePrimary = (): QueryNode => {
+    const token = tokens[index++];
+    if (!token) throw new QuerySyntaxError('Unexpected end of query', inputLength);
+    switch (token.type) {
+      case 'lparen': {
+        const node = parseOr();
+        if (peek()?.type !== 'rparen') {
+          throw new QuerySyntaxError('Missing closing parenthesis', token.position);
+        }
+        index++;
+        return node;
+      }
+      case 'word':
+        return { type: 'term', value: token.value.toLowerCase(), position: token.position };
+      case 'phrase':
+        if (token.value.trim() === '') {
+          throw new QuerySyntaxError('Empty phrase', token.position);
+        }
+        return { type: 'phrase', value: token.value.toLowerCase(), position: token.position };
+      case 'field':
+        return fieldNode(token);
+      default:
+        throw new QuerySyntaxError(
+          `Unexpected ${token.type === 'rparen' ? '")"' : token.type.toUpperCase()}`,
+          token.position
+        );
+    }
+  };
+
+  const parseUnary = (): QueryNode => {
+    if (peek()?.type === 'not') {
+      index++;
+      return { type: 'not', operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parseAnd = (): QueryNode => {
+    const operands = [parseUnary()];
+    for (;;) {
+      const next = peek();
+      if (!next || next.type === 'or' || next.type === 'rparen') break;
+      if (next.type === 'and') {
+        index++;
+        if (!peek()) throw new QuerySyntaxError('Expected a term after AND', inputLength);
+      }
+      operands.push(parseUnary());
+    }
+    return collapse('and', operands);
+  };
+
+  function parseOr(): QueryNode {
+    const operands = [parseAnd()];
+    while (peek()?.type === 'or') {
+      const or = tokens[index++];
+      if (!peek() || peek()?.type === 'rparen') {
+        throw new QuerySyntaxError('Expected a term after OR', positionOf(or));
+      }
+      operands.push(parseAnd());
+    }
+    return collapse('or', operands);
+  }
+
+  if (tokens.length === 0) return { type: 'empty' };
+  const ast = parseOr();
+  if (index < tokens.length) {
+    throw new QuerySyntaxError('Unexpected ")"', positionOf(peek()));
+  }
+  return ast;
+}
+
+/**
+ * Resolve a field name or alias against the known fields
+ */
+export function resolveQueryField(
+  name: string,
+  fields: QueryFieldInfo[]
+): QueryFieldInfo | undefined {
+  const lower = name.toLowerCase();
+  return fields.find((field) => field.name === lower || field.aliases?.includes(lower));
+}
+
+function collectFieldErrors(node: QueryNode, fields: QueryFieldInfo[], errors: QueryError[]) {
+  switch (node.type) {
+    case 'not':
+      collectFieldErrors(node.operand, fields, errors);
+      return;
+    case 'and':
+    case 'or':
+      node.operands.forEach((operand) => collectFieldErrors(operand, fields, errors));
+      return;
+    case 'field':
+    case 'compare':
+    case 'range': {
+      const field = resolveQueryField(node.field, fields);
+      if (!field) {
+        const known = fields.map((f) => f.name).join(', ');
+        errors.push({
+          message: `Unknown field "${node.field}". Known fields: ${known}`,
+          position: node.position,
+        });
+      } else if (node.type !== 'field' && field.kind !== 'number') {
+        errors.push({
+          message: `${field.name} is not numeric, so it can't be compared`,
+          position: node.position,
+        });
+      }
+      return;
+    }
+    default:
+      return;
+  }
+}
+
+/**
+ * Parse a search string such as
+ * `tag:risk transformation:SY difficulty:>=3 "feedback loop" -biases`.
+ * Errors carry a character position so the UI can point at the problem.
+ */
+export function parseQuery(input: string, { fields }: ParseQueryOptions = {}): ParsedQuery {
+  let ast: QueryNode;
+  try {
+    ast = parseTokens(tokenizeQuery(input), input.length);
+  } catch (error) {
+    if (error instanceof QuerySyntaxError) {
+      return { ok: false, errors: [{ message: error.message, position: error.position }] };
+    }
+    throw error;
+  }
+
+  if (fields) {
+    const errors: QueryError[] = [];
+    collectFieldErrors(ast, fields, errors);
+    if (errors.length > 0) return { ok: false, errors };
+  }
+  return { ok: true, ast };
+}
+
+/**
+ * True when the query is only bare words, i.e. plain free-text search
+ */
+export function isPlainTextQuery(node: QueryNode): boolean {
+  if (node.type === 'empty' || node.type === 'term') return true;
+  return node.type === 'and' && node.operands.every((operand) => operand.type === 'term');
+}
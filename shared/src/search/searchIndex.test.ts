@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest';
+import { createSearchIndex, tokenize } from './searchIndex';
+import { createTermTrie } from './trie';
+import bundledModels from '../content/data/mental-models.json';
+import type { MentalModelsData } from '../types';
+
+const { models } = bundledModels as MentalModelsData;
+
+interface Doc {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+}
+
+const docs: Doc[] = [
+  { id: 'a', title: 'Systems Thinking', body: 'Feedback loops and emergence', tags: ['systems'] },
+  { id: 'b', title: 'First Principles', body: 'Reason from fundamentals', tags: ['reasoning'] },
+  { id: 'c', title: 'Second-Order Effects', body: 'Consequences of systems', tags: ['risk'] },
+];
+
+const titles = (results: { item: Doc }[]) => results.map((r) => r.item.title);
+
+describe('createTermTrie', () => {
+  it('finds terms by prefix and within an edit distance', () => {
+    const trie = createTermTrie();
+    ['system', 'systems', 'systemic', 'syntax', 'risk'].forEach(trie.add);
+
+    expect(trie.withPrefix('syst').sort()).toEqual(['system', 'systemic', 'systems']);
+    expect(trie.withinDistance('sistem', 1)).toEqual([{ term: 'system', distance: 1 }]);
+
+    trie.remove('systems');
+    expect(trie.has('systems')).toBe(false);
+    expect(trie.has('system')).toBe(true);
+    expect(trie.withPrefix('systems')).toEqual([]);
+  });
+});
+
+describe('createSearchIndex', () => {
+  it('tokenizes on punctuation and case', () => {
+    expect(tokenize('Second-Order  Effects, IN2!')).toEqual(['second', 'order', 'effects', 'in2']);
+  });
+
+  it('ranks exact over prefix over fuzzy matches', () => {
+    const index = createSearchIndex(docs, { fields: ['title', 'body'] });
+
+    expect(index.search('systems')[0].score).toBe(1);
+    const prefix = index.search('syst');
+    expect(titles(prefix)).toEqual(['Systems Thinking', 'Second-Order Effects']);
+    expect(prefix[0].score).toBeLessThan(1);
+
+    const fuzzy = index.search('sistems');
+    expect(titles(fuzzy)).toContain('Systems Thinking');
+    expect(fuzzy[0].score).toBeLessThan(prefix[0].score);
+  });
+
+  it('requires every query term and reports the matched fields', () => {
+    const index = createSearchIndex(docs, { fields: ['title', 'body', 'tags'] });
+    const results = index.search('systems feedback');
+
+    expect(titles(results)).toEqual(['Systems Thinking']);
+    expect(results[0].matches).toEqual(['title', 'body', 'tags']);
+  });
+
+  it('applies field boosts', () => {
+    const index = createSearchIndex(docs, {
+      fields: [{ key: 'title', boost: 3 }, 'body'],
+    });
+    // "systems" is in a's title and c's body
+    expect(titles(index.search('systems'))).toEqual(['Systems Thinking', 'Second-Order Effects']);
+    expect(index.search('systems')[1].score).toBeCloseTo(1 / 3);
+  });
+
+  it('supports incremental add, update and remove', () => {
+    const index = createSearchIndex(docs, { fields: ['title', 'body'] });
+
+    index.add({ id: 'd', title: 'Inversion', body: 'Think backwards', tags: [] });
+    expect(titles(index.search('inversion'))).toEqual(['Inversion']);
+
+    index.update({ id: 'd', title: 'Premortem', body: 'Imagine failure', tags: [] });
+    expect(index.search('inversion')).toEqual([]);
+    expect(titles(index.search('premortem'))).toEqual(['Premortem']);
+
+    index.remove('d');
+    expect(index.has('d')).toBe(false);
+    expect(index.search('premortem')).toEqual([]);
+    expect(index.size()).toBe(docs.length);
+  });
+
+  it('returns match ranges for prefix, fuzzy and multi-word hits', () => {
+    const index = createSearchIndex(docs, { fields: ['title', 'body', 'tags'] });
+    const [result] = index.search('feedbak loo');
+    expect(result.item.id).toBe('a');
+    expect(result.ranges).toEqual({
+      body: [
+        { start: 0, end: 8 },
+        { start: 9, end: 14 },
+      ],
+    });
+
+    const second = index.search('second-ord')[0];
+    const text = second.item.title;
+    expect(second.ranges?.title.map(({ start, end }) => text.slice(start, end))).toEqual([
+      'Second',
+      'Order',
+    ]);
+  });
+
+  it('returns everything for an empty query, like fuzzySearch', () => {
+    const index = createSearchIndex(docs, { fields: ['title'] });
+    expect(index.search('  ', { limit: 2 })).toEqual([
+      { item: docs[0], score: 1, matches: [] },
+      { item: docs[1], score: 1, matches: [] },
+    ]);
+  });
+
+  it('searches the bundled catalogue by code and description', () => {
+    const index = createSearchIndex(models, {
+      fields: [{ key: 'code', boost: 3 }, { key: 'name', boost: 2 }, 'description', 'tags'],
+    });
+    expect(index.search('in1')[0].item.code).toBe('IN1');
+    expect(index.search('first principles')[0].item.code).toBe('P1');
+  });
+});
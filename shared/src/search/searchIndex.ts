@@ -0,0 +1,239 @@
+// Using SY8 (Systems) - Inverted index search engine built once and updated incrementally
+
+import type { MatchRange, MatchRanges, SearchResult } from '../utils/fuzzySearch';
+import { getNestedValue } from '../utils/fuzzySearch';
+import { createTermTrie } from './trie';
+
+export interface SearchField {
+  /** Dot path into the item, e.g. `name` or `complexity.cognitive_load` */
+  key: string;
+  /** Relative weight of a match in this field (default 1) */
+  boost?: number;
+}
+
+export interface SearchIndexOptions<T> {
+  fields: Array<string | SearchField>;
+  /** Defaults to the item's `id` property */
+  getId?: (item: T) => string;
+  /** Match terms that start with the query term (default true) */
+  prefix?: boolean;
+  /** Maximum edit distance for fuzzy term matches, or false to disable. Defaults by term length. */
+  fuzzy?: number | false;
+}
+
+export interface SearchQueryOptions {
+  limit?: number;
+  /** Minimum score (0-1) a result needs to be returned */
+  threshold?: number;
+}
+
+export interface SearchIndex<T> {
+  search: (query: string, options?: SearchQueryOptions) => SearchResult<T>[];
+  add: (item: T) => void;
+  update: (item: T) => void;
+  remove: (id: string) => void;
+  has: (id: string) => boolean;
+  size: () => number;
+}
+
+// Prefix expansion stops here so a one-letter query can't touch the whole vocabulary
+const PREFIX_EXPANSION_LIMIT = 64;
+
+const TERM = /[a-z0-9À-ɏ]+/g;
+
+/**
+ * Split text into lowercase index terms
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(TERM) ?? [];
+}
+
+// Offsets of every token of `text` that is one of `terms`
+function termRanges(text: string, terms: Set<string>): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  for (const match of text.toLowerCase().matchAll(TERM)) {
+    if (terms.has(match[0])) {
+      const start = match.index ?? 0;
+      ranges.push({ start, end: start + match[0].length });
+    }
+  }
+  return ranges;
+}
+
+// Using P1 (First Principles) - Short terms must match exactly; longer ones tolerate more typos
+const defaultMaxDistance = (term: string): number =>
+  term.length <= 2 ? 0 : term.length <= 5 ? 1 : 2;
+
+// Exact > prefix > fuzzy, so a typo never outranks what the user actually typed
+const PREFIX_QUALITY = 0.6;
+const FUZZY_QUALITY = 0.5;
+
+interface IndexedDocument<T> {
+  item: T;
+  terms: Set<string>;
+}
+
+/**
+ * Build a search index over items. Queries return the same `SearchResult`
+ * shape as `fuzzySearch`; every query term must match for an item to be
+ * returned, and scores are normalized to 0-1.
+ */
+export function createSearchIndex<T extends object>(
+  items: T[],
+  options: SearchIndexOptions<T>
+): SearchIndex<T> {
+  const { getId = (item: T) => (item as { id: string }).id, prefix = true, fuzzy } = options;
+  const fields = options.fields.map((field) =>
+    typeof field === 'string'
+      ? { key: field, boost: 1 }
+      : { key: field.key, boost: field.boost ?? 1 }
+  );
+  const maxBoost = Math.max(...fields.map((field) => field.boost));
+
+  const documents = new Map<string, IndexedDocument<T>>();
+  // term -> document id -> indexes of the fields containing the term
+  const postings = new Map<string, Map<string, Set<number>>>();
+  const trie = createTermTrie();
+
+  const add = (item: T) => {
+    const id = getId(item);
+    if (documents.has(id)) remove(id);
+
+    const terms = new Set<string>();
+    fields.forEach((field, fieldIndex) => {
+      const text = getNestedValue(item, field.key);
+      for (const term of tokenize(text)) {
+        terms.add(term);
+        let docs = postings.get(term);
+        if (!docs) {
+          docs = new Map();
+          postings.set(term, docs);
+          trie.add(term);
+        }
+        let fieldIndexes = docs.get(id);
+        if (!fieldIndexes) {
+          fieldIndexes = new Set();
+          docs.set(id, fieldIndexes);
+        }
+        fieldIndexes.add(fieldIndex);
+      }
+    });
+    documents.set(id, { item, terms });
+  };
+
+  const remove = (id: string) => {
+    const document = documents.get(id);
+    if (!document) return;
+    for (const term of document.terms) {
+      const docs = postings.get(term);
+      if (!docs) continue;
+      docs.delete(id);
+      if (docs.size === 0) {
+        postings.delete(term);
+        trie.remove(term);
+      }
+    }
+    documents.delete(id);
+  };
+
+  // Using DE3 (Decomposition) - Expand one query term into index terms with a match quality each
+  const expandTerm = (queryTerm: string): Map<string, number> => {
+    const candidates = new Map<string, number>();
+    const offer = (term: string, quality: number) => {
+      if (quality > (candidates.get(term) ?? 0)) candidates.set(term, quality);
+    };
+
+    if (postings.has(queryTerm)) offer(queryTerm, 1);
+    if (prefix) {
+      for (const term of trie.withPrefix(queryTerm, PREFIX_EXPANSION_LIMIT)) {
+        offer(term, PREFIX_QUALITY + (1 - PREFIX_QUALITY) * (queryTerm.length / term.length));
+      }
+    }
+    const maxDistance = fuzzy === false ? 0 : (fuzzy ?? defaultMaxDistance(queryTerm));
+    if (maxDistance > 0) {
+      for (const { term, distance } of trie.withinDistance(queryTerm, maxDistance)) {
+        if (distance > 0) offer(term, FUZZY_QUALITY * (1 - distance / (queryTerm.length + 1)));
+      }
+    }
+    return candidates;
+  };
+
+  const search = (query: string, { limit = 50, threshold = 0 }: SearchQueryOptions = {}) => {
+    const queryTerms = Array.from(new Set(tokenize(query)));
+    if (queryTerms.length === 0) {
+      return Array.from(documents.values())
+        .slice(0, limit)
+        .map(({ item }) => ({ item, score: 1, matches: [] }));
+    }
+
+    // Per query term: best weighted quality for each document, plus the fields that matched
+    const matchedTerms = new Set<string>();
+    const perTerm = queryTerms.map((queryTerm) => {
+      const hits = new Map<string, { score: number; fields: Set<number> }>();
+      for (const [term, quality] of expandTerm(queryTerm)) {
+        matchedTerms.add(term);
+        for (const [id, fieldIndexes] of postings.get(term) ?? []) {
+          let hit = hits.get(id);
+          if (!hit) {
+            hit = { score: 0, fields: new Set() };
+            hits.set(id, hit);
+          }
+          for (const fieldIndex of fieldIndexes) {
+            hit.score = Math.max(hit.score, quality * fields[fieldIndex].boost);
+            hit.fields.add(fieldIndex);
+          }
+        }
+      }
+      return hits;
+    });
+
+    // Using IN1 (Inversion) - Start from the rarest term so the intersection stays small
+    const [smallest, ...others] = [...perTerm].sort((a, b) => a.size - b.size);
+    const results: SearchResult<T>[] = [];
+    for (const [id, hit] of smallest) {
+      if (!others.every((hits) => hits.has(id))) continue;
+
+      let total = hit.score;
+      const matchedFields = new Set(hit.fields);
+      for (const hits of others) {
+        const other = hits.get(id) as { score: number; fields: Set<number> };
+        total += other.score;
+        other.fields.forEach((fieldIndex) => matchedFields.add(fieldIndex));
+      }
+
+      const score = total / (queryTerms.length * maxBoost);
+      if (score > threshold) {
+        results.push({
+          item: (documents.get(id) as IndexedDocument<T>).item,
+          score,
+          matches: fields.filter((_, i) => matchedFields.has(i)).map((field) => field.key),
+        });
+      }
+    }
+
+    results.sort((a, b) => b.score - a.score);
+    const page = results.slice(0, limit);
+
+    // Using SY8 (Systems) - Positions aren't indexed; re-scan only the fields of returned results
+    for (const result of page) {
+      const ranges: MatchRanges = {};
+      for (const key of result.matches) {
+        const text = getNestedValue(result.item, key);
+        ranges[key] = termRanges(text, matchedTerms);
+      }
+      result.ranges = ranges;
+    }
+    return page;
+  };
+
+  items.forEach(add);
+
+  return {
+    search,
+    add,
+    update: add,
+    remove,
+    has: (id) => documents.has(id),
+    size: () => documents.size,
+  };
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { createSimilarityIndex } from './similarity';
+import bundledModels from '../content/data/mental-models.json';
+import bundledNarratives from '../content/data/narratives.json';
+import type { MentalModel, Narrative } from '../types';
+
+const models = bundledModels.models as MentalModel[];
+const narratives = bundledNarratives.narratives as Narrative[];
+
+const base = models[0];
+const model = (id: string, name: string, description: string, tags: string[]): MentalModel => ({
+  ...base,
+  id,
+  code: id.toUpperCase(),
+  name,
+  description,
+  tags,
+  category: 'Test',
+});
+
+describe('createSimilarityIndex', () => {
+  const sample = [
+    model('a', 'Feedback Loops', 'Outputs feed back into a system as inputs', ['systems', 'loops']),
+    model('b', 'Systems Thinking', 'See the system and its feedback, not parts', ['systems']),
+    model('c', 'Premortem', 'Imagine the project failed and ask why', ['risk']),
+  ];
+  const index = createSimilarityIndex({ models: sample, narratives: [] });
+
+  it('ranks items sharing distinctive terms first and never returns the item itself', () => {
+    const similar = index.similarModels({ type: 'model', id: 'a' });
+    expect(similar.map((s) => s.item.id)).toEqual(['b']);
+    expect(similar[0].score).toBeGreaterThan(0);
+    expect(similar[0].score).toBeLessThanOrEqual(1);
+  });
+
+  it('explains the match with shared, stemmed terms', () => {
+    const [top] = index.similarModels({ type: 'model', id: 'b' });
+    expect(top.sharedTerms).toEqual(expect.arrayContaining(['system', 'feedback']));
+    // Words on every item carry no weight
+    expect(top.sharedTerms).not.toContain('test');
+  });
+
+  it('returns nothing for unknown items', () => {
+    expect(index.similarModels({ type: 'narrative', id: 'a' })).toEqual([]);
+  });
+
+  it('relates models and narratives across the bundled catalogue', () => {
+    const catalogue = createSimilarityIndex({ models, narratives });
+    const ref = { type: 'narrative' as const, id: narratives[0].id };
+
+    const related = catalogue.similarNarratives(ref, 3);
+    expect(related.length).toBeGreaterThan(0);
+    expect(related.every((r) => r.item.id !== narratives[0].id)).toBe(true);
+
+    const scores = catalogue.similarModels(ref, 5).map((r) => r.score);
+    expect(scores).toEqual([...scores].sort((x, y) => y - x));
+    expect(scores.length).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,165 @@
+// Using CO5 (Composition) - TF-IDF similarity between models and narratives for "more like this"
+
+import type { MentalModel, Narrative } from '../types';
+import { tokenize } from './searchIndex';
+
+export type ContentItemType = 'model' | 'narrative';
+
+export interface ContentItemRef {
+  type: ContentItemType;
+  id: string;
+}
+
+export interface SimilarItem<T> {
+  item: T;
+  /** Cosine similarity, 0-1 */
+  score: number;
+  /** The terms contributing most to the similarity, strongest first */
+  sharedTerms: string[];
+}
+
+export interface SimilarityContent {
+  models: MentalModel[];
+  narratives: Narrative[];
+}
+
+export interface SimilarityIndex {
+  similarModels: (ref: ContentItemRef, limit?: number) => SimilarItem<MentalModel>[];
+  similarNarratives: (ref: ContentItemRef, limit?: number) => SimilarItem<Narrative>[];
+}
+
+type Vector = Map<string, number>;
+
+// Words too common to say anything about what an item is about
+const STOP_WORDS = new Set(
+  (
+    'the and for are but not you all any can had her was one our out has him his how its may ' +
+    'new now see two way who did get let say she too use from have into more most much only ' +
+    'other over some such than that their them then there these they this those very what ' +
+    'when where which while will with would your about after again also been before being ' +
+    'both could does each every just like make many should through under until'
+  ).split(' ')
+);
+
+// Names and tags say more about an item than a word buried in its description
+const NAME_WEIGHT = 2;
+const TAG_WEIGHT = 2;
+const SHARED_TERMS_SHOWN = 5;
+
+/**
+ * Reduce a word to a shared form so "systems" and "system" count as one term
+ */
+function stem(word: string): string {
+  if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (word.length > 3 && word.endsWith('s') && !/(ss|is|us)$/.test(word)) {
+    return word.slice(0, -1);
+  }
+  return word;
+}
+
+function addTerms(frequencies: Vector, text: string, weight: number) {
+  for (const word of tokenize(text)) {
+    if (word.length < 3 || STOP_WORDS.has(word) || /^\d+$/.test(word)) continue;
+    const term = stem(word);
+    frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+  }
+}
+
+const modelTerms = (model: MentalModel): Vector => {
+  const terms: Vector = new Map();
+  addTerms(terms, model.name, NAME_WEIGHT);
+  addTerms(terms, model.tags.join(' '), TAG_WEIGHT);
+  addTerms(terms, model.description, 1);
+  addTerms(terms, model.category, 1);
+  return terms;
+};
+
+const narrativeTerms = (narrative: Narrative): Vector => {
+  const terms: Vector = new Map();
+  addTerms(terms, narrative.title, NAME_WEIGHT);
+  addTerms(terms, narrative.tags.join(' '), TAG_WEIGHT);
+  addTerms(terms, narrative.summary, 1);
+  addTerms(terms, narrative.domain.join(' '), 1);
+  addTerms(terms, narrative.category, 1);
+  return terms;
+};
+
+/**
+ * Build TF-IDF vectors over every model and narrative. Both kinds share one
+ * vocabulary, so a model can be compared with a narrative.
+ */
+export function createSimilarityIndex({ models, narratives }: SimilarityContent): SimilarityIndex {
+  const documents: Array<{ ref: ContentItemRef; terms: Vector }> = [
+    ...models.map((model) => ({
+      ref: { type: 'model' as const, id: model.id },
+      terms: modelTerms(model),
+    })),
+    ...narratives.map((narrative) => ({
+      ref: { type: 'narrative' as const, id: narrative.id },
+      terms: narrativeTerms(narrative),
+    })),
+  ];
+
+  const documentFrequency = new Map<string, number>();
+  for (const { terms } of documents) {
+    for (const term of terms.keys()) {
+      documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    }
+  }
+
+  // Using P1 (First Principles) - Dampened term frequency times IDF, normalized to unit length;
+  // a term found on every item has no IDF and drops out
+  const vectors = new Map<string, Vector>();
+  for (const { ref, terms } of documents) {
+    const vector: Vector = new Map();
+    let norm = 0;
+    for (const [term, frequency] of terms) {
+      const idf = Math.log(documents.length / (documentFrequency.get(term) as number));
+      if (idf === 0) continue;
+      const weight = (1 + Math.log(frequency)) * idf;
+      vector.set(term, weight);
+      norm += weight * weight;
+    }
+    norm = Math.sqrt(norm);
+    vector.forEach((weight, term) => vector.set(term, weight / norm));
+    vectors.set(`${ref.type}:${ref.id}`, vector);
+  }
+
+  const compare = (a: Vector, b: Vector): { score: number; sharedTerms: string[] } => {
+    // Iterate the smaller vector; only shared terms contribute to the dot product
+    const [small, large] = a.size <= b.size ? [a, b] : [b, a];
+    const contributions: Array<[string, number]> = [];
+    for (const [term, weight] of small) {
+      const other = large.get(term);
+      if (other !== undefined) contributions.push([term, weight * other]);
+    }
+    contributions.sort((x, y) => y[1] - x[1]);
+    return {
+      score: contributions.reduce((sum, [, value]) => sum + value, 0),
+      sharedTerms: contributions.slice(0, SHARED_TERMS_SHOWN).map(([term]) => term),
+    };
+  };
+
+  const rank = <T extends { id: string }>(
+    ref: ContentItemRef,
+    type: ContentItemType,
+    candidates: T[],
+    limit: number
+  ): SimilarItem<T>[] => {
+    const source = vectors.get(`${ref.type}:${ref.id}`);
+    if (!source) return [];
+    const results: SimilarItem<T>[] = [];
+    for (const item of candidates) {
+      if (type === ref.type && item.id === ref.id) continue;
+      const { score, sharedTerms } = compare(source, vectors.get(`${type}:${item.id}`) as Vector);
+      if (score > 0) results.push({ item, score, sharedTerms });
+    }
+    results.sort((a, b) => b.score - a.score);
+    return results.slice(0, limit);
+  };
+
+  return {
+    similarModels: (ref, limit = 5) => rank(ref, 'model', models, limit),
+    similarNarratives: (ref, limit = 5) => rank(ref, 'narrative', narratives, limit),
+  };
+}
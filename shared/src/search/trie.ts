@@ -0,0 +1,109 @@
+// Using DE3 (Decomposition) - Prefix trie over index terms with bounded edit-distance lookup
+
+interface TrieNode {
+  children: Map<string, TrieNode>;
+  /** Set when a term ends at this node */
+  term: string | null;
+}
+
+export interface FuzzyTermMatch {
+  term: string;
+  distance: number;
+}
+
+export interface TermTrie {
+  add: (term: string) => void;
+  remove: (term: string) => void;
+  has: (term: string) => boolean;
+  /** Every stored term starting with `prefix`, up to `limit` */
+  withPrefix: (prefix: string, limit?: number) => string[];
+  /** Every stored term within `maxDistance` Levenshtein edits of `query` */
+  withinDistance: (query: string, maxDistance: number) => FuzzyTermMatch[];
+}
+
+const createNode = (): TrieNode => ({ children: new Map(), term: null });
+
+export function createTermTrie(): TermTrie {
+  const root = createNode();
+
+  const find = (key: string): TrieNode | null => {
+    let node: TrieNode | undefined = root;
+    for (const char of key) {
+      node = node.children.get(char);
+      if (!node) return null;
+    }
+    return node;
+  };
+
+  return {
+    add: (term) => {
+      let node = root;
+      for (const char of term) {
+        let child = node.children.get(char);
+        if (!child) {
+          child = createNode();
+          node.children.set(char, child);
+        }
+        node = child;
+      }
+      node.term = term;
+    },
+
+    remove: (term) => {
+      // Walk down remembering the path, then prune nodes that no longer lead anywhere
+      const path: Array<[TrieNode, string]> = [];
+      let node: TrieNode | undefined = root;
+      for (const char of term) {
+        path.push([node, char]);
+        node = node.children.get(char);
+        if (!node) return;
+      }
+      node.term = null;
+      for (let i = path.length - 1; i >= 0; i--) {
+        const [parent, char] = path[i];
+        const child = parent.children.get(char) as TrieNode;
+        if (child.term !== null || child.children.size > 0) break;
+        parent.children.delete(char);
+      }
+    },
+
+    has: (term) => find(term)?.term != null,
+
+    withPrefix: (prefix, limit = Infinity) => {
+      const start = find(prefix);
+      if (!start) return [];
+      const terms: string[] = [];
+      const stack = [start];
+      while (stack.length > 0 && terms.length < limit) {
+        const node = stack.pop() as TrieNode;
+        if (node.term !== null) terms.push(node.term);
+        for (const child of node.children.values()) stack.push(child);
+      }
+      return terms;
+    },
+
+    // Using RE2 (Feedback Loops) - One Levenshtein row per trie edge; prune branches whose row minimum exceeds the bound
+    withinDistance: (query, maxDistance) => {
+      const matches: FuzzyTermMatch[] = [];
+      const firstRow = Array.from({ length: query.length + 1 }, (_, i) => i);
+
+      const visit = (node: TrieNode, char: string, previousRow: number[]) => {
+        const row = [previousRow[0] + 1];
+        for (let i = 1; i <= query.length; i++) {
+          const cost = query[i - 1] === char ? 0 : 1;
+          row.push(Math.min(row[i - 1] + 1, previousRow[i] + 1, previousRow[i - 1] + cost));
+        }
+        const distance = row[query.length];
+        if (node.term !== null && distance <= maxDistance) {
+          matches.push({ term: node.term, distance });
+        }
+        if (Math.min(...row) <= maxDistance) {
+          for (const [next, child] of node.children) visit(child, next, row);
+        }
+      };
+
+      for (const [char, child] of root.children) visit(child, char, firstRow);
+      return matches;
+    },
+  };
+}
@@ -0,0 +1,443 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { StateStorage } from 'zustand/middleware';
+import {
+  BOOKMARK_HISTORY_LIMIT,
+  createBookmarkStore,
+  selectBookmarkCount,
+  selectIsBookmarked,
+} from './bookmarkStore';
+import { createMemoryStorage } from './memoryStorage';
+import { exportBookmarksJson, previewBookmarkImport } from '../bookmarks';
+import type { Bookmark } from '../types';
+
+const setup = () => {
+  const store = createBookmarkStore(createMemoryStorage());
+  const { addBookmark } = store.getState();
+  const ids = ['p1', 'in2', 'sy3'].map((itemId) =>
+    addBookmark({ type: 'mental-model', itemId, title: itemId.toUpperCase() })
+  );
+  return { store, ids };
+};
+
+const titles = (bookmarks: { title: string }[]) => bookmarks.map((b) => b.title);
+
+describe('bookmark index', () => {
+  it('keeps the type:itemId index in step with the list', () => {
+    const { store, ids } = setup();
+    expect(store.getState().bookmarkIndex).toEqual({
+      'mental-model:p1': ids[0],
+      'mental-model:in2': ids[1],
+      'mental-model:sy3': ids[2],
+    });
+
+    store.getState().removeBookmark(ids[1]);
+    store.getState().relinkBookmark(ids[2], { itemId: 'sy4', title: 'SY4' });
+    expect(Object.keys(store.getState().bookmarkIndex)).toEqual([
+      'mental-model:p1',
+      'mental-model:sy4',
+    ]);
+    expect(store.getState().hasBookmark('sy4', 'mental-model')).toBe(true);
+    expect(store.getState().hasBookmark('sy3', 'mental-model')).toBe(false);
+
+    store.getState().clearBookmarks();
+    expect(store.getState().bookmarkIndex).toEqual({});
+  });
+
+  it('rebuilds the index from saved bookmarks', () => {
+    const storage = createMemoryStorage();
+    createBookmarkStore(storage)
+      .getState()
+      .addBookmark({ type: 'narrative', itemId: 'n1', title: 'N1' });
+    expect(createBookmarkStore(storage).getState().hasBookmark('n1', 'narrative')).toBe(true);
+  });
+
+  it('toggles through the index', () => {
+    const { store } = setup();
+    const data = { type: 'mental-model' as const, itemId: 'p1', title: 'P1' };
+    expect(store.getState().toggleBookmark(data)).toBe(false);
+    expect(store.getState().toggleBookmark(data)).toBe(true);
+    expect(titles(store.getState().bookmarks)).toEqual(['IN2', 'SY3', 'P1']);
+  });
+
+  it('changes a selection only for the item that changed', () => {
+    const { store, ids } = setup();
+    const selectors = ['p1', 'in2', 'sy3'].map((itemId) =>
+      selectIsBookmarked(itemId, 'mental-model')
+    );
+
+    store.getState().updateBookmarkNote(ids[1], 'Edited');
+    store.getState().removeBookmark(ids[0]);
+    expect(selectors.map((select) => select(store.getState()))).toEqual([false, true, true]);
+    expect(selectBookmarkCount('mental-model')(store.getState())).toBe(2);
+    expect(selectBookmarkCount('narrative')(store.getState())).toBe(0);
+  });
+});
+
+describe('bookmark collections', () => {
+  it('creates, renames, reorders and deletes collections', () => {
+    const { store } = setup();
+    const { createCollection, renameCollection, moveCollection, deleteCollection } =
+      store.getState();
+
+    const acme = createCollection('  Acme engagement ') as string;
+    const globex = createCollection('Globex') as string;
+    expect(store.getState().collections.map((c) => c.name)).toEqual(['Acme engagement', 'Globex']);
+
+    renameCollection(acme, 'Acme');
+    moveCollection(globex, 0);
+    expect(store.getState().collections.map((c) => c.name)).toEqual(['Globex', 'Acme']);
+
+    deleteCollection(globex);
+    expect(store.getState().collections.map((c) => c.id)).toEqual([acme]);
+  });
+
+  it('rejects blank and duplicate names', () => {
+    const { store } = setup();
+    const { createCollection, renameCollection } = store.getState();
+    const acme = createCollection('Acme') as string;
+
+    expect(createCollection('   ')).toBeNull();
+    expect(createCollection('acme')).toBeNull();
+    expect(store.getState().collectionError).toMatch(/already exists/);
+
+    createCollection('Globex');
+    expect(renameCollection(acme, 'GLOBEX')).toBe(false);
+    expect(store.getState().collections.map((c) => c.name)).toEqual(['Acme', 'Globex']);
+  });
+
+  it('keeps a manual order per collection and lets a bookmark join several', () => {
+    const { store, ids } = setup();
+    const { createCollection, addToCollection, moveInCollection } = store.getState();
+    const acme = createCollection('Acme') as string;
+    const globex = createCollection('Globex') as string;
+
+    ids.forEach((id) => addToCollection(acme, id));
+    addToCollection(acme, ids[0]);
+    addToCollection(globex, ids[2]);
+    addToCollection(globex, 'no-such-bookmark');
+    moveInCollection(acme, ids[2], 0);
+
+    const { getCollectionBookmarks } = store.getState();
+    expect(titles(getCollectionBookmarks(acme))).toEqual(['SY3', 'P1', 'IN2']);
+    expect(titles(getCollectionBookmarks(globex))).toEqual(['SY3']);
+  });
+
+  it('drops removed bookmarks from every collection', () => {
+    const { store, ids } = setup();
+    const { createCollection, addToCollection, removeFromCollection, removeBookmark } =
+      store.getState();
+    const acme = createCollection('Acme') as string;
+    const globex = createCollection('Globex') as string;
+    ids.forEach((id) => addToCollection(acme, id));
+    addToCollection(globex, ids[1]);
+
+    removeBookmark(ids[1]);
+    removeFromCollection(acme, ids[0]);
+
+    const { collections, getCollectionBookmarks } = store.getState();
+    expect(titles(getCollectionBookmarks(acme))).toEqual(['SY3']);
+    expect(collections.find((c) => c.id === globex)?.bookmarkIds).toEqual([]);
+  });
+});
+
+describe('bookmark tags and notes', () => {
+  it('normalizes tags and replaces them on update', () => {
+    const { store, ids } = setup();
+    const { updateBookmarkTags } = store.getState();
+
+    updateBookmarkTags(ids[0], [' Client A ', 'client a', 'risk', '']);
+    expect(store.getState().bookmarks[0].tags).toEqual(['client-a', 'risk']);
+
+    updateBookmarkTags(ids[0], ['later']);
+    expect(store.getState().bookmarks[0].tags).toEqual(['later']);
+  });
+
+  it('sets a trimmed note and removes it when blank', () => {
+    const { store, ids } = setup();
+    const { updateBookmarkNote } = store.getState();
+
+    updateBookmarkNote(ids[1], '  Use in the Q3 review  ');
+    expect(store.getState().bookmarks[1].note).toBe('Use in the Q3 review');
+
+    updateBookmarkNote(ids[1], '   ');
+    expect(store.getState().bookmarks[1]).not.toHaveProperty('note');
+  });
+});
+
+describe('bookmark relinking', () => {
+  it('points a bookmark at replacement content', () => {
+    const { store, ids } = setup();
+    expect(store.getState().relinkBookmark(ids[0], { itemId: 'p9', title: 'P9' })).toBe(ids[0]);
+    expect(store.getState().bookmarks[0]).toMatchObject({ id: ids[0], itemId: 'p9', title: 'P9' });
+  });
+
+  it('merges into a bookmark that already points at the replacement', () => {
+    const { store, ids } = setup();
+    const { relinkBookmark, updateBookmarkTags, updateBookmarkNote, createCollection } =
+      store.getState();
+    updateBookmarkTags(ids[0], ['old']);
+    updateBookmarkNote(ids[0], 'Why I saved it');
+    updateBookmarkTags(ids[1], ['kept']);
+    const acme = createCollection('Acme') as string;
+    store.getState().addToCollection(acme, ids[0]);
+    store.getState().addToCollection(acme, ids[2]);
+    store.getState().addToCollection(acme, ids[1]);
+
+    expect(relinkBookmark(ids[0], { itemId: 'in2', title: 'IN2' })).toBe(ids[1]);
+    const { bookmarks, collections } = store.getState();
+    expect(titles(bookmarks)).toEqual(['IN2', 'SY3']);
+    expect(bookmarks[0]).toMatchObject({ tags: ['kept', 'old'], note: 'Why I saved it' });
+    expect(collections[0].bookmarkIds).toEqual([ids[1], ids[2]]);
+  });
+});
+
+describe('bookmark import', () => {
+  const preview = (store: ReturnType<typeof setup>['store']) => {
+    const at = '2024-03-01T10:00:00.000Z';
+    const bookmarks: Bookmark[] = [
+      { id: 'x', type: 'mental-model', itemId: 'p1', title: 'P1', createdAt: at, tags: ['new'] },
+      { id: 'y', type: 'narrative', itemId: 'n7', title: 'N7', createdAt: at, note: 'Read' },
+      { id: 'z', type: 'narrative', itemId: 'gone', title: 'Gone', createdAt: at },
+    ];
+    const exported = exportBookmarksJson(bookmarks, {
+      collections: [{ id: 'c', name: 'acme', createdAt: at, bookmarkIds: ['y', 'x', 'z'] }],
+    });
+    const parsed = previewBookmarkImport(exported, {
+      existing: store.getState().bookmarks,
+      isKnownItem: (_type, itemId) => itemId !== 'gone',
+    });
+    if (!parsed.ok) throw new Error(parsed.errors.join('; '));
+    return parsed.preview;
+  };
+
+  it('merges into saved bookmarks and same-named collections', () => {
+    const { store, ids } = setup();
+    const { createCollection, addToCollection, updateBookmarkTags, importBookmarks } =
+      store.getState();
+    const acme = createCollection('Acme') as string;
+    addToCollection(acme, ids[2]);
+    updateBookmarkTags(ids[0], ['old']);
+
+    expect(importBookmarks(preview(store), 'merge')).toEqual({ added: 1, merged: 1, skipped: 1 });
+
+    const { bookmarks, collections, getCollectionBookmarks } = store.getState();
+    expect(titles(bookmarks)).toEqual(['P1', 'IN2', 'SY3', 'N7']);
+    expect(bookmarks[0].tags).toEqual(['old', 'new']);
+    expect(collections).toHaveLength(1);
+    expect(titles(getCollectionBookmarks(acme))).toEqual(['SY3', 'N7', 'P1']);
+  });
+
+  it('replaces everything saved', () => {
+    const { store } = setup();
+    store.getState().createCollection('Globex');
+
+    expect(store.getState().importBookmarks(preview(store), 'replace')).toEqual({
+      added: 2,
+      merged: 0,
+      skipped: 1,
+    });
+
+    const { bookmarks, collections, getCollectionBookmarks } = store.getState();
+    expect(titles(bookmarks)).toEqual(['P1', 'N7']);
+    expect(collections.map((c) => c.name)).toEqual(['acme']);
+    expect(titles(getCollectionBookmarks(collections[0].id))).toEqual(['N7', 'P1']);
+  });
+});
+
+// Memory storage whose reads and writes fail while `failing` is set
+const createFlakyStorage = () => {
+  const memory = createMemoryStorage();
+  const control = { failing: { read: false, write: false } };
+  const storage: StateStorage = {
+    getItem: async (name) => {
+      if (control.failing.read) throw new Error('disk unavailable');
+      return memory.getItem(name);
+    },
+    setItem: async (name, value) => {
+      if (control.failing.write) throw new Error('quota exceeded');
+      return memory.setItem(name, value);
+    },
+    removeItem: async (name) => memory.removeItem(name),
+  };
+  return { storage, memory, control };
+};
+
+describe('bookmark undo and redo', () => {
+  it('undoes and redoes a removal, restoring collections and the index', () => {
+    const { store, ids } = setup();
+    const reading = store.getState().createCollection('Reading')!;
+    store.getState().addToCollection(reading, ids[1]);
+
+    store.getState().removeBookmark(ids[1]);
+    expect(store.getState().undo()).toBe('remove');
+    expect(titles(store.getState().bookmarks)).toEqual(['P1', 'IN2', 'SY3']);
+    expect(store.getState().collections[0].bookmarkIds).toEqual([ids[1]]);
+    expect(store.getState().hasBookmark('in2', 'mental-model')).toBe(true);
+
+    expect(store.getState().redo()).toBe('remove');
+    expect(titles(store.getState().bookmarks)).toEqual(['P1', 'SY3']);
+    expect(store.getState().collections[0].bookmarkIds).toEqual([]);
+    expect(store.getState().redo()).toBeNull();
+  });
+
+  it('steps back through adds, edits and clearing in order', () => {
+    const { store, ids } = setup();
+    store.getState().updateBookmarkNote(ids[0], 'Start here');
+    store.getState().clearBookmarks();
+
+    expect(store.getState().undo()).toBe('clear');
+    expect(store.getState().undo()).toBe('edit');
+    expect(store.getState().bookmarks[0].note).toBeUndefined();
+    expect(store.getState().undo()).toBe('add');
+    expect(titles(store.getState().bookmarks)).toEqual(['P1', 'IN2']);
+  });
+
+  it('drops redo steps on a new change', () => {
+    const { store, ids } = setup();
+    store.getState().removeBookmark(ids[0]);
+    store.getState().undo();
+    store.getState().updateBookmarkTags(ids[0], ['core']);
+    expect(store.getState().future).toEqual([]);
+    expect(store.getState().redo()).toBeNull();
+  });
+
+  it('undoes a tag and note edit in one step', () => {
+    const { store, ids } = setup();
+    store.getState().updateBookmark(ids[0], { tags: ['core'], note: 'Start here' });
+
+    expect(store.getState().undo()).toBe('edit');
+    expect(store.getState().bookmarks[0]).not.toHaveProperty('tags');
+    expect(store.getState().bookmarks[0]).not.toHaveProperty('note');
+    expect(store.getState().undo()).toBe('add');
+  });
+
+  it('records no step for changes that change nothing', () => {
+    const { store, ids } = setup();
+    const acme = store.getState().createCollection('Acme') as string;
+    store.getState().addToCollection(acme, ids[0]);
+    store.getState().updateBookmark(ids[1], { tags: ['Core'], note: ' Why ' });
+    const { past } = store.getState();
+
+    const {
+      updateBookmark,
+      removeBookmark,
+      relinkBookmark,
+      renameCollection,
+      deleteCollection,
+      moveCollection,
+      addToCollection,
+      removeFromCollection,
+      moveInCollection,
+    } = store.getState();
+    updateBookmark(ids[1], { tags: ['core'], note: 'Why' });
+    updateBookmark('missing', { note: 'Lost' });
+    removeBookmark('missing');
+    relinkBookmark(ids[2], { itemId: 'sy3', title: 'SY3' });
+    renameCollection(acme, 'Acme');
+    deleteCollection('missing');
+    moveCollection(acme, 5);
+    addToCollection(acme, ids[0]);
+    addToCollection('missing', ids[0]);
+    removeFromCollection(acme, ids[2]);
+    removeFromCollection('missing', ids[0]);
+    moveInCollection(acme, ids[0], 0);
+    moveInCollection('missing', ids[0], 1);
+
+    expect(store.getState().past).toBe(past);
+  });
+
+  it('keeps a bounded history that is never saved', () => {
+    const memory = createMemoryStorage();
+    const store = createBookmarkStore(memory);
+    for (let i = 0; i < BOOKMARK_HISTORY_LIMIT + 10; i++) {
+      store.getState().addBookmark({ type: 'narrative', itemId: `n${i}`, title: `N${i}` });
+    }
+    expect(store.getState().past).toHaveLength(BOOKMARK_HISTORY_LIMIT);
+
+    const saved = JSON.parse(memory.getItem('hummbl-bookmarks') as string);
+    expect(Object.keys(saved.state)).toEqual(['bookmarks', 'collections']);
+    const reopened = createBookmarkStore(memory).getState();
+    expect(reopened.bookmarks).toHaveLength(BOOKMARK_HISTORY_LIMIT + 10);
+    expect(reopened.past).toEqual([]);
+    expect(reopened.undo()).toBeNull();
+  });
+});
+
+describe('bookmark hydration and storage errors', () => {
+  it('is loading until saved bookmarks are read', async () => {
+    const { storage, memory } = createFlakyStorage();
+    memory.setItem(
+      'hummbl-bookmarks',
+      JSON.stringify({ state: { bookmarks: [], collections: [] }, version: 2 })
+    );
+    const store = createBookmarkStore(storage);
+    expect(store.getState().isLoading).toBe(true);
+    await vi.waitFor(() => expect(store.getState().isLoading).toBe(false));
+
+    expect(createBookmarkStore(createMemoryStorage()).getState().isLoading).toBe(false);
+  });
+
+  it('surfaces a failed read, keeps saved data and retries', async () => {
+    const { storage, memory, control } = createFlakyStorage();
+    createBookmarkStore(memory).getState().addBookmark({
+      type: 'narrative',
+      itemId: 'n1',
+      title: 'Saved earlier',
+    });
+
+    control.failing.read = true;
+    const store = createBookmarkStore(storage);
+    await vi.waitFor(() => expect(store.getState().isLoading).toBe(false));
+    expect(store.getState()).toMatchObject({
+      failedOperation: 'read',
+      error: "Couldn't load saved bookmarks: disk unavailable",
+      bookmarks: [],
+    });
+
+    // Writes are held back so the empty store can't overwrite what is saved
+    store.getState().addBookmark({ type: 'narrative', itemId: 'n2', title: 'Unsaved' });
+    await Promise.resolve();
+    expect(JSON.parse(memory.getItem('hummbl-bookmarks') as string).state.bookmarks).toHaveLength(
+      1
+    );
+
+    control.failing.read = false;
+    await store.getState().retryStorage();
+    expect(store.getState()).toMatchObject({
+      isLoading: false,
+      error: null,
+      failedOperation: null,
+    });
+    expect(titles(store.getState().bookmarks)).toEqual(['Saved earlier']);
+  });
+
+  it('surfaces a failed write until saving succeeds again', async () => {
+    const { storage, memory, control } = createFlakyStorage();
+    const store = createBookmarkStore(storage);
+    await vi.waitFor(() => expect(store.getState().isLoading).toBe(false));
+
+    control.failing.write = true;
+    store.getState().addBookmark({ type: 'narrative', itemId: 'n1', title: 'N1' });
+    await vi.waitFor(() => expect(store.getState().failedOperation).toBe('write'));
+    expect(store.getState().error).toBe("Couldn't save bookmarks: quota exceeded");
+
+    // Naming mistakes are reported apart from the failing save
+    expect(store.getState().createCollection('')).toBeNull();
+    expect(store.getState().collectionError).toBe('Collection name cannot be empty');
+    store.getState().createCollection('Acme');
+    expect(store.getState()).toMatchObject({
+      error: "Couldn't save bookmarks: quota exceeded",
+      failedOperation: 'write',
+      collectionError: null,
+    });
+
+    control.failing.write = false;
+    await store.getState().retryStorage();
+    await vi.waitFor(() =>
+      expect(JSON.parse(memory.getItem('hummbl-bookmarks') as string).state.bookmarks).toHaveLength(
+        1
+      )
+    );
+    expect(store.getState().error).toBeNull();
+  });
+});
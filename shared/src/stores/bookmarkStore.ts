@@ -1,75 +1,551 @@
 // Using CO5 (Composition) - Zustand store for bookmarks with persistence
 
 import { create, StoreApi, UseBoundStore } from 'zustand';
-import { persist, createJSONStorage, StateStorage } from 'zustand/middleware';
-import type { Bookmark, BookmarkState, BookmarkActions } from '../types';
+import { persist, StateStorage } from 'zustand/middleware';
+import type {
+  Bookmark,
+  BookmarkCollection,
+  BookmarkEdit,
+  BookmarkImportResult,
+  BookmarkState,
+  BookmarkActions,
+  BookmarkHistoryAction,
+  BookmarkType,
+} from '../types';
+import { bookmarkKey } from '../bookmarks/serializers';
+import { normalizeBookmarkTags } from '../bookmarks/tags';
+import { createMemoryStorage } from './memoryStorage';
+import { createVersionedPersistence, Migrations, PersistStorageStatus } from './persistence';
+import { syncAcrossTabs } from './webStorage';
 
 // Generate unique ID
 const generateId = () => `${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
 type BookmarkStore = BookmarkState & BookmarkActions;
+type BookmarkPersistedState = Pick<BookmarkState, 'bookmarks' | 'collections'>;
+
+// Move one element to a new index, clamped to the list
+const moveTo = <T>(list: T[], item: T, toIndex: number): T[] => {
+  const from = list.indexOf(item);
+  const to = Math.max(0, Math.min(toIndex, list.length - 1));
+  if (from === -1 || from === to) return list;
+  const next = list.filter((_, i) => i !== from);
+  next.splice(to, 0, item);
+  return next;
+};
+
+// The same array back when the update changes nothing, so no undo step is recorded
+const updateCollection = (
+  collections: BookmarkCollection[],
+  id: string,
+  update: (collection: BookmarkCollection) => BookmarkCollection
+) => {
+  const index = collections.findIndex((c) => c.id === id);
+  const updated = index === -1 ? undefined : update(collections[index]);
+  return updated === undefined || updated === collections[index]
+    ? collections
+    : collections.map((c, i) => (i === index ? updated : c));
+};
+
+// Using IN3 (Avoiding Stupidity) - Two lists both called "Client A" would be impossible to tell apart
+const validateCollectionName = (name: string, existing: BookmarkCollection[]): string | null => {
+  if (!name) return 'Collection name cannot be empty';
+  if (existing.some((c) => c.name.toLowerCase() === name.toLowerCase())) {
+    return `A collection named "${name}" already exists`;
+  }
+  return null;
+};
+
+/**
+ * Bookmark id by `type:itemId`, for constant-time lookups by content
+ */
+export const indexBookmarks = (bookmarks: Bookmark[]): Record<string, string> =>
+  Object.fromEntries(bookmarks.map((b) => [bookmarkKey(b), b.id]));
+
+// Using SY8 (Systems) - Every change to the list carries its rebuilt index
+const withIndex = (bookmarks: Bookmark[]) => ({
+  bookmarks,
+  bookmarkIndex: indexBookmarks(bookmarks),
+});
+
+/** Undo steps kept; history lives in memory only */
+export const BOOKMARK_HISTORY_LIMIT = 50;
+
+// Using RE2 (Feedback Loops) - Snapshot what a change replaces so it can be undone
+const recordHistory = (
+  state: BookmarkState,
+  action: BookmarkHistoryAction
+): Pick<BookmarkState, 'past' | 'future'> => ({
+  past: [
+    ...state.past,
+    { action, bookmarks: state.bookmarks, collections: state.collections },
+  ].slice(-BOOKMARK_HISTORY_LIMIT),
+  future: [],
+});
+
+// Using IN3 (Avoiding Stupidity) - A change that touches nothing leaves no undo step behind
+const withHistory = (
+  state: BookmarkState,
+  action: BookmarkHistoryAction,
+  next: Partial<Pick<BookmarkState, 'bookmarks' | 'bookmarkIndex' | 'collections'>>
+): Partial<BookmarkState> =>
+  (next.bookmarks ?? state.bookmarks) === state.bookmarks &&
+  (next.collections ?? state.collections) === state.collections
+    ? state
+    : { ...recordHistory(state, action), ...next };
+
+const replaceBookmark = (
+  bookmarks: Bookmark[],
+  id: string,
+  update: (bookmark: Bookmark) => Bookmark
+) => {
+  const index = bookmarks.findIndex((b) => b.id === id);
+  const updated = index === -1 ? undefined : update(bookmarks[index]);
+  return updated === undefined || updated === bookmarks[index]
+    ? bookmarks
+    : bookmarks.map((b, i) => (i === index ? updated : b));
+};
+
+const sameList = (a: string[], b: string[]) =>
+  a.length === b.length && a.every((item, i) => item === b[i]);
+
+// The same bookmark back when the edit matches what is saved
+const editBookmark = (bookmark: Bookmark, { tags, note }: BookmarkEdit): Bookmark => {
+  const nextTags = tags === undefined ? bookmark.tags : normalizeBookmarkTags(tags);
+  const nextNote = note === undefined ? bookmark.note : note.trim() || undefined;
+  if (sameList(nextTags ?? [], bookmark.tags ?? []) && nextNote === bookmark.note) {
+    return bookmark;
+  }
+  const { note: _previous, ...rest } = bookmark;
+  return { ...rest, ...(nextTags && { tags: nextTags }), ...(nextNote && { note: nextNote }) };
+};
+
+export const BOOKMARK_MIGRATIONS: Migrations = {
+  // v0 saved the whole state, loading flags included, and predates collections
+  1: ({ bookmarks, collections }) => ({
+    bookmarks: Array.isArray(bookmarks) ? bookmarks : [],
+    collections: Array.isArray(collections) ? collections : [],
+  }),
+  // Tags are normalized and notes trimmed since tag and note editing
+  2: (state) => ({
+    ...state,
+    bookmarks: (state.bookmarks as Bookmark[]).map(({ note, ...bookmark }) => ({
+      ...bookmark,
+      ...(Array.isArray(bookmark.tags) && { tags: normalizeBookmarkTags(bookmark.tags) }),
+      ...(typeof note === 'string' && note.trim() && { note: note.trim() }),
+    })),
+  }),
+};
+
+const STORAGE_ERRORS = {
+  read: "Couldn't load saved bookmarks",
+  write: "Couldn't save bookmarks",
+};
+
+// Using RE2 (Feedback Loops) - A storage failure stays in `error` until the same call succeeds
+const applyStorageStatus = (
+  store: StoreApi<BookmarkStore>,
+  { operation, error }: PersistStorageStatus
+) => {
+  const state = store.getState();
+  if (error) {
+    const message = `${STORAGE_ERRORS[operation]}: ${error}`;
+    // Setting state saves it; only a change may, or a failing write would retry forever
+    if (state.error !== message || state.failedOperation !== operation) {
+      store.setState({ error: message, failedOperation: operation });
+    }
+  } else if (state.failedOperation === operation) {
+    store.setState({ error: null, failedOperation: null });
+  }
+};
 
 // Using DE3 (Decomposition) - Separate store creation for different storage backends
-export const createBookmarkStore = (storage: StateStorage): UseBoundStore<StoreApi<BookmarkStore>> =>
-  create<BookmarkStore>()(
+export const createBookmarkStore = (
+  storage: StateStorage
+): UseBoundStore<StoreApi<BookmarkStore>> => {
+  const store = create<BookmarkStore>()(
     persist(
-      (set, get) => ({
+      (set, get, api) => ({
         // State
         bookmarks: [],
-        isLoading: false,
+        bookmarkIndex: {},
+        collections: [],
+        past: [],
+        future: [],
+        isLoading: true,
         error: null,
+        failedOperation: null,
+        collectionError: null,
 
         // Actions
         addBookmark: (bookmarkData) => {
           const newBookmark: Bookmark = {
             ...bookmarkData,
+            ...(bookmarkData.tags && { tags: normalizeBookmarkTags(bookmarkData.tags) }),
             id: generateId(),
             createdAt: new Date().toISOString(),
           };
           set((state) => ({
+            ...recordHistory(state, 'add'),
             bookmarks: [...state.bookmarks, newBookmark],
+            bookmarkIndex: { ...state.bookmarkIndex, [bookmarkKey(newBookmark)]: newBookmark.id },
           }));
+          return newBookmark.id;
         },
 
         removeBookmark: (id) => {
+          if (!get().bookmarks.some((b) => b.id === id)) return;
           set((state) => ({
-            bookmarks: state.bookmarks.filter((b) => b.id !== id),
+            ...recordHistory(state, 'remove'),
+            ...withIndex(state.bookmarks.filter((b) => b.id !== id)),
+            collections: state.collections.map((c) => ({
+              ...c,
+              bookmarkIds: c.bookmarkIds.filter((bookmarkId) => bookmarkId !== id),
+            })),
           }));
         },
 
-        hasBookmark: (itemId, type) => {
-          return get().bookmarks.some(
-            (b) => b.itemId === itemId && b.type === type
-          );
+        hasBookmark: (itemId, type) => bookmarkKey({ type, itemId }) in get().bookmarkIndex,
+
+        toggleBookmark: (bookmarkData) => {
+          const existing = get().bookmarkIndex[bookmarkKey(bookmarkData)];
+          if (existing) {
+            get().removeBookmark(existing);
+            return false;
+          }
+          get().addBookmark(bookmarkData);
+          return true;
         },
 
         getBookmarksByType: (type) => {
           return get().bookmarks.filter((b) => b.type === type);
         },
 
+        // Collections survive clearing; only their contents go
         clearBookmarks: () => {
-          set({ bookmarks: [] });
+          if (get().bookmarks.length === 0) return;
+          set((state) => ({
+            ...recordHistory(state, 'clear'),
+            ...withIndex([]),
+            collections: state.collections.map((c) => ({ ...c, bookmarkIds: [] })),
+          }));
+        },
+
+        updateBookmark: (id, edit) => {
+          set((state) =>
+            withHistory(state, 'edit', {
+              bookmarks: replaceBookmark(state.bookmarks, id, (b) => editBookmark(b, edit)),
+            })
+          );
+        },
+
+        updateBookmarkTags: (id, tags) => get().updateBookmark(id, { tags }),
+
+        updateBookmarkNote: (id, note) => get().updateBookmark(id, { note }),
+
+        relinkBookmark: (id, { itemId, title }) => {
+          const state = get();
+          const { bookmarks, collections } = state;
+          const bookmark = bookmarks.find((b) => b.id === id);
+          if (!bookmark || (bookmark.itemId === itemId && bookmark.title === title)) return id;
+          const existing = bookmarks.find(
+            (b) => b.id !== id && b.type === bookmark.type && b.itemId === itemId
+          );
+          if (!existing) {
+            set({
+              ...recordHistory(state, 'relink'),
+              ...withIndex(replaceBookmark(bookmarks, id, (b) => ({ ...b, itemId, title }))),
+            });
+            return id;
+          }
+
+          // Already saved: keep that bookmark, taking over this one's tags, note and collections
+          const tags = normalizeBookmarkTags([...(existing.tags ?? []), ...(bookmark.tags ?? [])]);
+          const note = existing.note ?? bookmark.note;
+          set({
+            ...recordHistory(state, 'relink'),
+            ...withIndex(
+              replaceBookmark(
+                bookmarks.filter((b) => b.id !== id),
+                existing.id,
+                (b) => ({ ...b, ...(tags.length > 0 && { tags }), ...(note && { note }) })
+              )
+            ),
+            collections: collections.map((c) =>
+              c.bookmarkIds.includes(id)
+                ? {
+                    ...c,
+                    bookmarkIds: Array.from(
+                      new Set(c.bookmarkIds.map((b) => (b === id ? existing.id : b)))
+                    ),
+                  }
+                : c
+            ),
+          });
+          return existing.id;
+        },
+
+        // Using CO5 (Composition) - Bookmarks are matched by what they point at, collections by name
+        importBookmarks: (preview, mode) => {
+          const state = get();
+          const result: BookmarkImportResult = {
+            added: 0,
+            merged: 0,
+            skipped: preview.counts.unknown,
+          };
+          const bookmarks = mode === 'replace' ? [] : [...state.bookmarks];
+          const byKey = new Map(bookmarks.map((b) => [bookmarkKey(b), b]));
+
+          for (const { bookmark, status } of preview.items) {
+            if (status === 'unknown') continue;
+            const key = bookmarkKey(bookmark);
+            const current = byKey.get(key);
+            if (current) {
+              // Keep the saved bookmark, adding the imported tags and a note if it had none
+              const tags = normalizeBookmarkTags([
+                ...(current.tags ?? []),
+                ...(bookmark.tags ?? []),
+              ]);
+              const merged: Bookmark = {
+                ...current,
+                ...(tags.length > 0 && { tags }),
+                ...(!current.note && bookmark.note && { note: bookmark.note }),
+              };
+              bookmarks[bookmarks.indexOf(current)] = merged;
+              byKey.set(key, merged);
+              result.merged++;
+            } else {
+              const added: Bookmark = { ...bookmark, id: generateId() };
+              bookmarks.push(added);
+              byKey.set(key, added);
+              result.added++;
+            }
+          }
+
+          const collections = mode === 'replace' ? [] : [...state.collections];
+          for (const imported of preview.collections) {
+            const ids = imported.items
+              .map((key) => byKey.get(key)?.id)
+              .filter((id): id is string => id !== undefined);
+            const index = collections.findIndex(
+              (c) => c.name.toLowerCase() === imported.name.toLowerCase()
+            );
+            if (index === -1) {
+              collections.push({
+                id: generateId(),
+                name: imported.name,
+                createdAt: imported.createdAt,
+                bookmarkIds: Array.from(new Set(ids)),
+              });
+            } else {
+              const existing = collections[index];
+              collections[index] = {
+                ...existing,
+                bookmarkIds: Array.from(new Set([...existing.bookmarkIds, ...ids])),
+              };
+            }
+          }
+
+          set({
+            ...recordHistory(state, 'import'),
+            ...withIndex(bookmarks),
+            collections,
+          });
+          return result;
+        },
+
+        createCollection: (name) => {
+          const trimmed = name.trim();
+          const error = validateCollectionName(trimmed, get().collections);
+          if (error) {
+            set({ collectionError: error });
+            return null;
+          }
+          const collection: BookmarkCollection = {
+            id: generateId(),
+            name: trimmed,
+            createdAt: new Date().toISOString(),
+            bookmarkIds: [],
+          };
+          set((state) => ({
+            ...recordHistory(state, 'collection'),
+            collections: [...state.collections, collection],
+            collectionError: null,
+          }));
+          return collection.id;
+        },
+
+        renameCollection: (id, name) => {
+          const trimmed = name.trim();
+          const others = get().collections.filter((c) => c.id !== id);
+          const error = validateCollectionName(trimmed, others);
+          if (error) {
+            set({ collectionError: error });
+            return false;
+          }
+          set((state) => ({
+            ...withHistory(state, 'collection', {
+              collections: updateCollection(state.collections, id, (c) =>
+                c.name === trimmed ? c : { ...c, name: trimmed }
+              ),
+            }),
+            collectionError: null,
+          }));
+          return true;
+        },
+
+        deleteCollection: (id) => {
+          if (!get().collections.some((c) => c.id === id)) return;
+          set((state) => ({
+            ...recordHistory(state, 'collection'),
+            collections: state.collections.filter((c) => c.id !== id),
+          }));
+        },
+
+        moveCollection: (id, toIndex) => {
+          set((state) => {
+            const collection = state.collections.find((c) => c.id === id);
+            if (!collection) return state;
+            return withHistory(state, 'collection', {
+              collections: moveTo(state.collections, collection, toIndex),
+            });
+          });
+        },
+
+        addToCollection: (collectionId, bookmarkId) => {
+          if (!get().bookmarks.some((b) => b.id === bookmarkId)) return;
+          set((state) =>
+            withHistory(state, 'collection', {
+              collections: updateCollection(state.collections, collectionId, (c) =>
+                c.bookmarkIds.includes(bookmarkId)
+                  ? c
+                  : { ...c, bookmarkIds: [...c.bookmarkIds, bookmarkId] }
+              ),
+            })
+          );
+        },
+
+        removeFromCollection: (collectionId, bookmarkId) => {
+          set((state) =>
+            withHistory(state, 'collection', {
+              collections: updateCollection(state.collections, collectionId, (c) =>
+                c.bookmarkIds.includes(bookmarkId)
+                  ? { ...c, bookmarkIds: c.bookmarkIds.filter((id) => id !== bookmarkId) }
+                  : c
+              ),
+            })
+          );
+        },
+
+        moveInCollection: (collectionId, bookmarkId, toIndex) => {
+          set((state) =>
+            withHistory(state, 'collection', {
+              collections: updateCollection(state.collections, collectionId, (c) => {
+                const bookmarkIds = moveTo(c.bookmarkIds, bookmarkId, toIndex);
+                return bookmarkIds === c.bookmarkIds ? c : { ...c, bookmarkIds };
+              }),
+            })
+          );
+        },
+
+        getCollectionBookmarks: (collectionId) => {
+          const { bookmarks, collections } = get();
+          const collection = collections.find((c) => c.id === collectionId);
+          if (!collection) return [];
+          const byId = new Map(bookmarks.map((b) => [b.id, b]));
+          return collection.bookmarkIds
+            .map((id) => byId.get(id))
+            .filter((b): b is Bookmark => b !== undefined);
+        },
+
+        undo: () => {
+          const { past, future, bookmarks, collections } = get();
+          const entry = past[past.length - 1];
+          if (!entry) return null;
+          set({
+            ...withIndex(entry.bookmarks),
+            collections: entry.collections,
+            past: past.slice(0, -1),
+            future: [...future, { action: entry.action, bookmarks, collections }],
+          });
+          return entry.action;
+        },
+
+        redo: () => {
+          const { past, future, bookmarks, collections } = get();
+          const entry = future[future.length - 1];
+          if (!entry) return null;
+          set({
+            ...withIndex(entry.bookmarks),
+            collections: entry.collections,
+            past: [...past, { action: entry.action, bookmarks, collections }],
+            future: future.slice(0, -1),
+          });
+          return entry.action;
+        },
+
+        retryStorage: async () => {
+          const { failedOperation } = get();
+          if (failedOperation === 'read') {
+            set({ isLoading: true });
+            await api.persist.rehydrate();
+          } else if (failedOperation === 'write') {
+            // Any change saves the whole state again
+            set({ error: null, failedOperation: null });
+          }
         },
       }),
       {
-        name: 'hummbl-bookmarks',
-        storage: createJSONStorage(() => storage),
+        ...createVersionedPersistence<BookmarkStore, BookmarkPersistedState>({
+          name: 'hummbl-bookmarks',
+          storage,
+          migrations: BOOKMARK_MIGRATIONS,
+          partialize: (state) => ({ bookmarks: state.bookmarks, collections: state.collections }),
+          onStorageStatus: (status) => applyStorageStatus(store, status),
+        }),
+        // Hydrated below, once `store` exists for the status callbacks
+        skipHydration: true,
+        merge: (persisted, current) => {
+          const saved = persisted as Partial<BookmarkPersistedState>;
+          return {
+            ...current,
+            ...saved,
+            ...withIndex(saved.bookmarks ?? current.bookmarks),
+            // Undoing past a re-read would bring back state that was never saved
+            past: [],
+            future: [],
+            isLoading: false,
+          };
+        },
+        // Merging is skipped when the read fails
+        onRehydrateStorage: () => (_state, error) => {
+          if (error) store.setState({ isLoading: false });
+        },
       }
     )
   );
-
-// Using SY8 (Systems) - Default in-memory storage
-// Platform-specific storage (AsyncStorage for mobile, localStorage for web) should be
-// provided via initializeBookmarkStore() for persistence
-const createMemoryStorage = (): StateStorage => {
-  const memoryStorage = new Map<string, string>();
-  return {
-    getItem: (name) => memoryStorage.get(name) ?? null,
-    setItem: (name, value) => { memoryStorage.set(name, value); },
-    removeItem: (name) => { memoryStorage.delete(name); },
-  };
+  void store.persist.rehydrate();
+  syncAcrossTabs(store, storage);
+  return store;
 };
 
+/**
+ * Selector for whether the content is bookmarked; a primitive, so
+ * subscribers re-render only when this item's answer changes
+ */
+export const selectIsBookmarked =
+  (itemId: string, type: BookmarkType) =>
+  (state: BookmarkState): boolean =>
+    bookmarkKey({ type, itemId }) in state.bookmarkIndex;
+
+/**
+ * Selector for how many bookmarks there are, of one type or in total
+ */
+export const selectBookmarkCount =
+  (type?: BookmarkType) =>
+  (state: BookmarkState): number =>
+    type ? state.bookmarks.filter((b) => b.type === type).length : state.bookmarks.length;
+
 // Store singleton - can be re-initialized for mobile
 let bookmarkStoreInstance: UseBoundStore<StoreApi<BookmarkStore>> | null = null;
 
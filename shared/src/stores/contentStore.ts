@@ -0,0 +1,100 @@
+// Using CO5 (Composition) - Zustand store holding the loaded content repository
+
+import { create, StoreApi, UseBoundStore } from 'zustand';
+import type { ContentState, ContentActions, ContentSource } from '../types';
+import {
+  bundledContentSource,
+  createContentRepository,
+  mergeSnapshots,
+  sanitizeSnapshot,
+  verifyNarratives,
+} from '../content';
+
+type ContentStore = ContentState & ContentActions;
+
+// Using DE3 (Decomposition) - Sources are injected so bundled, cached and remote content can be swapped
+export const createContentStore = (
+  sources: ContentSource[]
+): UseBoundStore<StoreApi<ContentStore>> =>
+  create<ContentStore>()((set) => ({
+    // State
+    repository: createContentRepository(),
+    isLoading: false,
+    error: null,
+    lastLoadedAt: null,
+    validationReports: [],
+    provenance: {},
+
+    // Actions
+    loadContent: async () => {
+      set({ isLoading: true, error: null });
+      try {
+        const loaded = await Promise.all(sources.map((source) => source.load()));
+
+        // Using IN2 (Premortem) - Validate per source so one bad file cannot poison the rest
+        const sanitized = loaded.map((snapshot, i) => sanitizeSnapshot(snapshot, sources[i].name));
+        const validationReports = sanitized.map((s) => s.report);
+        for (const report of validationReports) {
+          if (report.errors.length > 0 || report.quarantined.length > 0) {
+            console.warn(
+              `Content source "${report.source}" rejected ${report.errors.length} document error(s) ` +
+                `and quarantined ${report.quarantined.length} record(s)`
+            );
+          }
+        }
+
+        const repository = createContentRepository(
+          mergeSnapshots(sanitized.map((s) => s.snapshot))
+        );
+
+        // Using IN2 (Premortem) - Flag, don't hide: a mismatched narrative stays visible but untrusted
+        const provenance = verifyNarratives(repository.narratives);
+        const mismatched = Object.values(provenance).filter((c) => c.status === 'mismatch');
+        if (mismatched.length > 0) {
+          console.warn(
+            `Provenance hash mismatch for narrative(s): ${mismatched.map((c) => c.id).join(', ')}`
+          );
+        }
+
+        set({
+          repository,
+          isLoading: false,
+          lastLoadedAt: new Date().toISOString(),
+          validationReports,
+          provenance,
+        });
+      } catch (error) {
+        set({
+          isLoading: false,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    },
+  }));
+
+// Store singleton - can be re-initialized with additional sources
+let contentStoreInstance: UseBoundStore<StoreApi<ContentStore>> | null = null;
+
+/**
+ * Initialize the content store with specific sources and start loading.
+ * Defaults to the bundled JSON content when never called.
+ */
+export const initializeContentStore = (sources: ContentSource[] = [bundledContentSource]): void => {
+  contentStoreInstance = createContentStore(sources);
+  void contentStoreInstance.getState().loadContent();
+};
+
+/**
+ * Get the raw store hook for direct Zustand usage.
+ */
+export const getContentStoreHook = (): UseBoundStore<StoreApi<ContentStore>> => {
+  if (!contentStoreInstance) {
+    initializeContentStore();
+  }
+  return contentStoreInstance as UseBoundStore<StoreApi<ContentStore>>;
+};
+
+/**
+ * Get the content store, loading bundled content if needed.
+ */
+export const useContentStore = (): ContentStore => getContentStoreHook()();
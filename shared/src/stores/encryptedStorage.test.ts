@@ -0,0 +1,140 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createEncryptedStorage, EncryptedStorageError } from './encryptedStorage';
+import type { EncryptedStorageOptions } from './encryptedStorage';
+import { createBookmarkStore } from './bookmarkStore';
+import { createMemoryStorage } from './memoryStorage';
+
+const NAME = 'hummbl-bookmarks';
+
+// Few PBKDF2 rounds keep the tests fast; the default is deliberately slow
+const encrypted = (options: Omit<EncryptedStorageOptions, 'iterations'>) =>
+  createEncryptedStorage({ iterations: 1000, ...options });
+
+const passphraseKey = (id: string, passphrase = `secret ${id}`) => ({ id, passphrase });
+
+const rejection = async (promise: unknown) => {
+  try {
+    await promise;
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected a rejection');
+};
+
+describe('encrypted storage', () => {
+  it('saves ciphertext and reads the original value back', async () => {
+    const memory = createMemoryStorage();
+    const storage = encrypted({ storage: memory, key: passphraseKey('k1') });
+    await storage.setItem(NAME, '{"note":"Why I saved this"}');
+
+    const raw = memory.getItem(NAME) as string;
+    expect(raw).not.toContain('Why I saved this');
+    expect(JSON.parse(raw)).toMatchObject({ encrypted: 1, keyId: 'k1', iterations: 1000 });
+
+    // A new session derives the same key from the saved salt
+    const reopened = encrypted({ storage: memory, key: passphraseKey('k1') });
+    expect(await reopened.getItem(NAME)).toBe('{"note":"Why I saved this"}');
+    expect(await reopened.getItem('missing')).toBeNull();
+  });
+
+  it('accepts a raw key from a keystore hook', async () => {
+    const raw = crypto.getRandomValues(new Uint8Array(32));
+    const loadKey = vi.fn(async () => raw);
+    const storage = encrypted({ storage: createMemoryStorage(), key: { id: 'device', loadKey } });
+    await storage.setItem('a', 'one');
+    await storage.setItem('b', 'two');
+    expect(await storage.getItem('b')).toBe('two');
+    expect(loadKey).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects a wrong passphrase and altered or moved ciphertext', async () => {
+    const memory = createMemoryStorage();
+    await encrypted({ storage: memory, key: passphraseKey('k1') }).setItem(NAME, 'value');
+    const saved = JSON.parse(memory.getItem(NAME) as string);
+
+    const wrong = encrypted({ storage: memory, key: passphraseKey('k1', 'guess') });
+    expect(await rejection(wrong.getItem(NAME))).toMatchObject({ reason: 'tampered', key: NAME });
+
+    const storage = encrypted({ storage: memory, key: passphraseKey('k1') });
+    const flipped = saved.data.startsWith('A')
+      ? 'B' + saved.data.slice(1)
+      : 'A' + saved.data.slice(1);
+    memory.setItem(NAME, JSON.stringify({ ...saved, data: flipped }));
+    expect(await rejection(storage.getItem(NAME))).toMatchObject({ reason: 'tampered' });
+
+    memory.setItem(NAME, JSON.stringify(saved).slice(0, 40));
+    expect(await rejection(storage.getItem(NAME))).toMatchObject({ reason: 'tampered' });
+
+    // Bound to its key: the same ciphertext under another name doesn't decrypt
+    memory.setItem('other', JSON.stringify(saved));
+    expect(await rejection(storage.getItem('other'))).toBeInstanceOf(EncryptedStorageError);
+  });
+
+  it('rejects edited PBKDF2 parameters without deriving a key from them', async () => {
+    const memory = createMemoryStorage();
+    const storage = encrypted({ storage: memory, key: passphraseKey('k1') });
+    await storage.setItem(NAME, 'value');
+    const saved = JSON.parse(memory.getItem(NAME) as string);
+
+    for (const edit of [
+      { iterations: 0 },
+      { iterations: 'abc' },
+      { iterations: 1e12 },
+      { salt: '!!!' },
+      { salt: 42 },
+    ]) {
+      memory.setItem(NAME, JSON.stringify({ ...saved, ...edit }));
+      expect(await rejection(storage.getItem(NAME))).toMatchObject({ reason: 'tampered' });
+    }
+    expect(() =>
+      createEncryptedStorage({ storage: memory, key: passphraseKey('k1'), iterations: 1e12 })
+    ).toThrow(/PBKDF2 iterations/);
+  });
+
+  it('surfaces tampering as a failed bookmark read and keeps the saved value', async () => {
+    const memory = createMemoryStorage();
+    const key = passphraseKey('k1');
+    const storage = encrypted({ storage: memory, key });
+    const first = createBookmarkStore(storage);
+    await vi.waitFor(() => expect(first.getState().isLoading).toBe(false));
+    first.getState().addBookmark({ type: 'mental-model', itemId: 'p1', title: 'P1' });
+    await vi.waitFor(async () => expect(await storage.getItem(NAME)).toContain('"p1"'));
+
+    const tampered = JSON.stringify({ ...JSON.parse(memory.getItem(NAME) as string), iv: 'AAAA' });
+    memory.setItem(NAME, tampered);
+    const second = createBookmarkStore(encrypted({ storage: memory, key }));
+    await vi.waitFor(() => expect(second.getState().failedOperation).toBe('read'));
+    expect(second.getState().error).toBe(
+      "Couldn't load saved bookmarks: Saved data couldn't be decrypted: " +
+        'the passphrase is wrong or it was changed outside the app'
+    );
+
+    second.getState().addBookmark({ type: 'narrative', itemId: 'n1', title: 'N1' });
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(memory.getItem(NAME)).toBe(tampered);
+  });
+
+  it('rotates keys and encrypts values saved before encryption', async () => {
+    const memory = createMemoryStorage();
+    await encrypted({ storage: memory, key: passphraseKey('k1') }).setItem('a', 'first');
+    memory.setItem('b', 'plain');
+
+    const rotating = encrypted({
+      storage: memory,
+      key: passphraseKey('k2'),
+      previousKeys: [passphraseKey('k1')],
+    });
+    expect(await rotating.getItem('a')).toBe('first');
+    expect(await rejection(rotating.getItem('b'))).toMatchObject({ reason: 'plaintext' });
+
+    expect(await rotating.rotate(['a', 'b', 'missing'])).toBe(2);
+    expect(await rotating.rotate(['a', 'b'])).toBe(0);
+
+    const current = encrypted({ storage: memory, key: passphraseKey('k2') });
+    expect(await current.getItem('a')).toBe('first');
+    expect(await current.getItem('b')).toBe('plain');
+
+    const retired = encrypted({ storage: memory, key: passphraseKey('k1') });
+    expect(await rejection(retired.getItem('a'))).toMatchObject({ reason: 'unknown-key' });
+  });
+});
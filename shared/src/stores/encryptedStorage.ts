@@ -0,0 +1,282 @@
+// Using IN2 (Premortem) - Encrypt persisted state at rest and refuse to load altered data
+
+import type { StateStorage } from 'zustand/middleware';
+import { decodeBase64, encodeBase64 } from '../utils/base64';
+import { utf8Encode } from '../utils/sha256';
+import { isSyncedStorage } from './webStorage';
+
+// Using P1 (First Principles) - Just the WebCrypto surface used here, so shared needs no DOM types
+interface AesGcmParams {
+  name: 'AES-GCM';
+  iv: Uint8Array;
+  /** Authenticated but not encrypted; binds each value to its storage key */
+  additionalData: Uint8Array;
+}
+
+export interface SubtleCryptoLike {
+  importKey: (
+    format: 'raw',
+    keyData: Uint8Array,
+    algorithm: 'PBKDF2' | { name: 'AES-GCM' },
+    extractable: boolean,
+    usages: string[]
+  ) => Promise<unknown>;
+  deriveKey: (
+    algorithm: { name: 'PBKDF2'; salt: Uint8Array; iterations: number; hash: 'SHA-256' },
+    baseKey: unknown,
+    derivedKeyType: { name: 'AES-GCM'; length: 256 },
+    extractable: boolean,
+    usages: string[]
+  ) => Promise<unknown>;
+  encrypt: (algorithm: AesGcmParams, key: unknown, data: Uint8Array) => Promise<ArrayBuffer>;
+  decrypt: (algorithm: AesGcmParams, key: unknown, data: Uint8Array) => Promise<ArrayBuffer>;
+}
+
+/** `globalThis.crypto` in browsers and Node satisfies it; Hermes needs a polyfill */
+export interface CryptoLike {
+  subtle: SubtleCryptoLike;
+  getRandomValues: (array: Uint8Array) => Uint8Array;
+}
+
+/**
+ * A key for encrypting saved state. The id is stored with every value, so
+ * after a rotation reads can still find the key a value was written with;
+ * a new passphrase needs a new id.
+ */
+export type EncryptionKey =
+  | {
+      id: string;
+      /** Stretched into an AES key with PBKDF2 */
+      passphrase: string;
+    }
+  | {
+      id: string;
+      /** Platform keystore hook returning a raw 256-bit AES key */
+      loadKey: () => Promise<Uint8Array>;
+    };
+
+export interface EncryptedStorageOptions {
+  /** Where the ciphertext is saved */
+  storage: StateStorage;
+  /** Encrypts every write */
+  key: EncryptionKey;
+  /** Still decrypt values written before a rotation */
+  previousKeys?: EncryptionKey[];
+  /** Defaults to `globalThis.crypto` */
+  crypto?: CryptoLike;
+  /** PBKDF2 rounds for passphrase keys; saved with each value */
+  iterations?: number;
+}
+
+export interface EncryptedStateStorage extends StateStorage {
+  /**
+   * Re-encrypt the named values with the current key, including ones saved
+   * by a previous key or before encryption was turned on. Returns how many
+   * were rewritten.
+   */
+  rotate: (names: string[]) => Promise<number>;
+}
+
+export type EncryptedStorageErrorReason = 'tampered' | 'unknown-key' | 'plaintext';
+
+const ERROR_MESSAGES: Record<EncryptedStorageErrorReason, string> = {
+  tampered:
+    "Saved data couldn't be decrypted: the passphrase is wrong or it was changed outside the app",
+  'unknown-key': 'Saved data was encrypted with a key that is no longer available',
+  plaintext: "Saved data isn't encrypted; it must be re-encrypted before it can be loaded",
+};
+
+/**
+ * Error raised when a saved value can't be trusted. Stores report it as a
+ * failed read, which also stops them saving over the value.
+ */
+export class EncryptedStorageError extends Error {
+  constructor(
+    public readonly reason: EncryptedStorageErrorReason,
+    public readonly key: string
+  ) {
+    super(ERROR_MESSAGES[reason]);
+    this.name = 'EncryptedStorageError';
+  }
+}
+
+/** What is saved in place of the plaintext */
+interface Envelope {
+  encrypted: 1;
+  keyId: string;
+  /** PBKDF2 salt and rounds; absent for keystore keys */
+  salt?: string;
+  iterations?: number;
+  iv: string;
+  data: string;
+}
+
+const DEFAULT_ITERATIONS = 310_000;
+// Rounds are read back from saved values, so an edited count could otherwise stall PBKDF2 for hours
+const MAX_ITERATIONS = 2_000_000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const KEY_USAGES = ['encrypt', 'decrypt'];
+
+const isIterationCount = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 1 && (value as number) <= MAX_ITERATIONS;
+
+const isEnvelope = (value: unknown): value is Envelope => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { encrypted, keyId, salt, iterations, iv, data } = value as Partial<Envelope>;
+  return (
+    encrypted === 1 &&
+    typeof keyId === 'string' &&
+    (salt === undefined || typeof salt === 'string') &&
+    (iterations === undefined || isIterationCount(iterations)) &&
+    typeof iv === 'string' &&
+    typeof data === 'string'
+  );
+};
+
+// undefined for a plain value, null for an envelope that was cut or mangled
+const parseEnvelope = (raw: string): Envelope | null | undefined => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch {
+    return raw.includes('"encrypted"') ? null : undefined;
+  }
+  if (isEnvelope(parsed)) return parsed;
+  return typeof parsed === 'object' && parsed !== null && 'encrypted' in parsed ? null : undefined;
+};
+
+const platformGlobal = globalThis as unknown as {
+  crypto?: CryptoLike;
+  TextDecoder?: new () => { decode: (bytes: Uint8Array) => string };
+};
+
+/**
+ * Wrap a storage adapter so values are encrypted with AES-GCM before they are
+ * saved. Each value is bound to its storage key, so ciphertext that was edited,
+ * truncated or copied from another key fails to load with an
+ * `EncryptedStorageError` instead of being read. Change events from the
+ * wrapped storage pass through.
+ */
+export function createEncryptedStorage({
+  storage,
+  key,
+  previousKeys = [],
+  crypto = platformGlobal.crypto,
+  iterations = DEFAULT_ITERATIONS,
+}: EncryptedStorageOptions): EncryptedStateStorage {
+  if (!crypto?.subtle || !platformGlobal.TextDecoder) {
+    throw new Error('WebCrypto is not available on this platform');
+  }
+  if (!isIterationCount(iterations)) {
+    throw new Error(`PBKDF2 iterations must be a whole number from 1 to ${MAX_ITERATIONS}`);
+  }
+  const { subtle } = crypto;
+  const decoder = new platformGlobal.TextDecoder();
+  const keys = new Map([...previousKeys, key].map((k) => [k.id, k]));
+  // Derived keys by id, salt and rounds, since PBKDF2 is slow on purpose
+  const cryptoKeys = new Map<string, Promise<unknown>>();
+  // One salt per session for the current passphrase, so writes derive once
+  const writeSalt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+
+  const cryptoKeyFor = (source: EncryptionKey, salt?: Uint8Array, rounds = iterations) => {
+    const cacheKey = salt ? `${source.id}:${encodeBase64(salt)}:${rounds}` : source.id;
+    let cached = cryptoKeys.get(cacheKey);
+    if (!cached) {
+      cached =
+        'passphrase' in source
+          ? subtle
+              .importKey('raw', utf8Encode(source.passphrase), 'PBKDF2', false, ['deriveKey'])
+              .then((base) =>
+                subtle.deriveKey(
+                  { name: 'PBKDF2', salt: salt ?? writeSalt, iterations: rounds, hash: 'SHA-256' },
+                  base,
+                  { name: 'AES-GCM', length: 256 },
+                  false,
+                  KEY_USAGES
+                )
+              )
+          : source
+              .loadKey()
+              .then((raw) => subtle.importKey('raw', raw, { name: 'AES-GCM' }, false, KEY_USAGES));
+      // A failed keystore lookup shouldn't stick; let the next read try again
+      cached.catch(() => cryptoKeys.delete(cacheKey));
+      cryptoKeys.set(cacheKey, cached);
+    }
+    return cached;
+  };
+
+  const encrypt = async (name: string, value: string): Promise<string> => {
+    const passphrase = 'passphrase' in key;
+    const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+    const cryptoKey = await cryptoKeyFor(key, passphrase ? writeSalt : undefined);
+    const data = await subtle.encrypt(
+      { name: 'AES-GCM', iv, additionalData: utf8Encode(name) },
+      cryptoKey,
+      utf8Encode(value)
+    );
+    const envelope: Envelope = {
+      encrypted: 1,
+      keyId: key.id,
+      ...(passphrase && { salt: encodeBase64(writeSalt), iterations }),
+      iv: encodeBase64(iv),
+      data: encodeBase64(new Uint8Array(data)),
+    };
+    return JSON.stringify(envelope);
+  };
+
+  const decrypt = async (name: string, envelope: Envelope): Promise<string> => {
+    const source = keys.get(envelope.keyId);
+    if (!source) throw new EncryptedStorageError('unknown-key', name);
+    // A keystore failure says nothing about the saved value, so it rejects as it is
+    const storedKey = 'passphrase' in source ? null : await cryptoKeyFor(source);
+    try {
+      const cryptoKey =
+        storedKey ??
+        (await cryptoKeyFor(
+          source,
+          envelope.salt === undefined ? undefined : decodeBase64(envelope.salt),
+          envelope.iterations
+        ));
+      const plain = await subtle.decrypt(
+        { name: 'AES-GCM', iv: decodeBase64(envelope.iv), additionalData: utf8Encode(name) },
+        cryptoKey,
+        decodeBase64(envelope.data)
+      );
+      return decoder.decode(new Uint8Array(plain));
+    } catch {
+      // GCM can't tell a wrong key from altered data; either way nothing is trusted
+      throw new EncryptedStorageError('tampered', name);
+    }
+  };
+
+  const read = async (name: string): Promise<string | null> => {
+    const raw = await storage.getItem(name);
+    if (raw === null) return null;
+    const envelope = parseEnvelope(raw);
+    if (envelope === undefined) throw new EncryptedStorageError('plaintext', name);
+    if (envelope === null) throw new EncryptedStorageError('tampered', name);
+    return decrypt(name, envelope);
+  };
+
+  return {
+    getItem: read,
+    setItem: async (name, value) => storage.setItem(name, await encrypt(name, value)),
+    removeItem: (name) => storage.removeItem(name),
+    rotate: async (names) => {
+      let rotated = 0;
+      for (const name of names) {
+        const raw = await storage.getItem(name);
+        if (raw === null) continue;
+        const envelope = parseEnvelope(raw);
+        if (envelope?.keyId === key.id) continue;
+        if (envelope === null) throw new EncryptedStorageError('tampered', name);
+        const value = envelope === undefined ? raw : await decrypt(name, envelope);
+        await storage.setItem(name, await encrypt(name, value));
+        rotated++;
+      }
+      return rotated;
+    },
+    ...(isSyncedStorage(storage) && { subscribe: storage.subscribe }),
+  };
+}
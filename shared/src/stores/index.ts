@@ -5,4 +5,75 @@ export {
   createBookmarkStore,
   initializeBookmarkStore,
   getBookmarkStoreHook,
+  indexBookmarks,
+  selectIsBookmarked,
+  selectBookmarkCount,
+  BOOKMARK_HISTORY_LIMIT,
 } from './bookmarkStore';
+
+export {
+  useContentStore,
+  createContentStore,
+  initializeContentStore,
+  getContentStoreHook,
+} from './contentStore';
+
+export {
+  useOfflineStore,
+  createOfflineStore,
+  initializeOfflineStore,
+  getOfflineStoreHook,
+} from './offlineStore';
+export type { OfflineStoreDependencies } from './offlineStore';
+
+export {
+  useSearchHistoryStore,
+  createSearchHistoryStore,
+  initializeSearchHistoryStore,
+  getSearchHistoryStoreHook,
+  normalizeSearchQuery,
+  SEARCH_HISTORY_LIMIT,
+} from './searchHistoryStore';
+
+export {
+  createVersionedPersistence,
+  runMigrations,
+  getPersistVersion,
+  getBackupKey,
+} from './persistence';
+export type {
+  Migrations,
+  PersistedRecord,
+  PersistRecovery,
+  VersionedPersistenceOptions,
+} from './persistence';
+
+export {
+  createLocalStorageAdapter,
+  createIndexedDBStorage,
+  createWebStorage,
+  isQuotaExceededError,
+  isSyncedStorage,
+  syncAcrossTabs,
+  StorageQuotaError,
+} from './webStorage';
+export type {
+  BroadcastChannelLike,
+  IndexedDBLike,
+  IndexedDBStorageOptions,
+  LocalStorageAdapterOptions,
+  StorageChangeListener,
+  StorageEventTargetLike,
+  SyncedStateStorage,
+  WebStorageLike,
+} from './webStorage';
+
+export { createEncryptedStorage, EncryptedStorageError } from './encryptedStorage';
+export type {
+  CryptoLike,
+  EncryptedStateStorage,
+  EncryptedStorageErrorReason,
+  EncryptedStorageOptions,
+  EncryptionKey,
+  SubtleCryptoLike,
+} from './encryptedStorage';
@@ -0,0 +1,14 @@
+// Using SY8 (Systems) - Default in-memory storage
+// Platform-specific storage (AsyncStorage for mobile, localStorage for web) should be
+// provided via the stores' initialize functions for persistence
+
+import type { StateStorage } from 'zustand/middleware';
+
+export const createMemoryStorage = (): StateStorage => {
+  const memoryStorage = new Map<string, string>();
+  return {
+    getItem: (name) => memoryStorage.get(name) ?? null,
+    setItem: (name, value) => { memoryStorage.set(name, value); },
+    removeItem: (name) => { memoryStorage.delete(name); },
+  };
+};
@@ -0,0 +1,118 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createOfflineStore } from './offlineStore';
+import { createMemoryStorage } from './memoryStorage';
+import { createContentApiClient } from '../api/contentApi';
+import { createContentCache, ContentCache } from '../api/contentCache';
+import { startMockContentServer, MockContentServer } from '../api/mockServer';
+import type { ContentApiClient } from '../api/contentApi';
+
+describe('offline store', () => {
+  let server: MockContentServer;
+  let cache: ContentCache;
+  let offlineMode: boolean;
+  let client: ContentApiClient;
+
+  beforeEach(async () => {
+    server = await startMockContentServer();
+    cache = createContentCache(createMemoryStorage());
+    offlineMode = false;
+    client = createContentApiClient({
+      baseUrl: server.url,
+      pageSize: 4,
+      isOffline: () => offlineMode,
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  it('downloads everything into the cache and reports progress and size', async () => {
+    const onContentChanged = vi.fn();
+    const store = createOfflineStore({
+      storage: createMemoryStorage(),
+      cache,
+      client,
+      onContentChanged,
+    });
+    const fractions: number[] = [];
+    store.subscribe((state) => fractions.push(state.progress.fraction));
+
+    await store.getState().downloadAll();
+
+    const state = store.getState();
+    expect(state.status).toBe('complete');
+    expect(state.cachedModels).toBeGreaterThan(0);
+    expect(state.cachedNarratives).toBeGreaterThan(0);
+    expect(state.storageBytes).toBe(await cache.size());
+    expect(state.downloadedAt).not.toBeNull();
+    expect(fractions).toEqual([...fractions].sort((a, b) => a - b));
+    expect(fractions.at(-1)).toBe(1);
+    expect(onContentChanged).toHaveBeenCalledOnce();
+  });
+
+  it('never touches the network in offline mode', async () => {
+    const store = createOfflineStore({ storage: createMemoryStorage(), cache, client });
+    store.getState().setOfflineMode(true);
+    offlineMode = true;
+
+    await store.getState().downloadAll();
+    await expect(client.fetchModels()).rejects.toMatchObject({ name: 'ContentApiError' });
+
+    expect(store.getState().status).toBe('error');
+    expect(server.requests).toHaveLength(0);
+  });
+
+  it('clears the cache and resets the numbers', async () => {
+    const store = createOfflineStore({ storage: createMemoryStorage(), cache, client });
+    await store.getState().downloadAll();
+
+    await store.getState().clearCache();
+
+    expect(await cache.read()).toEqual({});
+    expect(store.getState()).toMatchObject({
+      storageBytes: 0,
+      cachedModels: 0,
+      cachedNarratives: 0,
+      downloadedAt: null,
+    });
+  });
+
+  it('reports a cache that fails to clear and keeps its numbers', async () => {
+    const store = createOfflineStore({ storage: createMemoryStorage(), cache, client });
+    await store.getState().downloadAll();
+    const { cachedModels, downloadedAt } = store.getState();
+    cache.clear = () => Promise.reject(new Error('disk unavailable'));
+
+    await store.getState().clearCache();
+
+    expect(store.getState()).toMatchObject({
+      status: 'error',
+      error: 'disk unavailable',
+      cachedModels,
+      downloadedAt,
+    });
+  });
+
+  it('persists only the offline preference and last download time', async () => {
+    const storage = createMemoryStorage();
+    const store = createOfflineStore({ storage, cache, client });
+    store.getState().setOfflineMode(true);
+
+    const persisted = JSON.parse((await storage.getItem('hummbl-offline')) as string);
+    expect(persisted.state).toEqual({ offlineMode: true, downloadedAt: null });
+  });
+
+  it('stops loading when the saved preference cannot be read', async () => {
+    const storage = {
+      ...createMemoryStorage(),
+      getItem: () => Promise.reject(new Error('disk unavailable')),
+    };
+    const store = createOfflineStore({ storage, cache, client });
+    expect(store.getState().isLoading).toBe(true);
+
+    await vi.waitFor(() => expect(store.getState().isLoading).toBe(false));
+    expect(store.getState().offlineMode).toBe(false);
+    expect(store.persist.hasHydrated()).toBe(false);
+  });
+});
@@ -0,0 +1,222 @@
+// Using SY8 (Systems) - Zustand store managing the offline content download
+
+import { create, Mutate, StoreApi, UseBoundStore } from 'zustand';
+import { persist, StateStorage } from 'zustand/middleware';
+import type { OfflineState, OfflineActions, OfflineProgress } from '../types';
+import type { ContentApiClient } from '../api/contentApi';
+import { createContentCache, ContentCache } from '../api/contentCache';
+import { createMemoryStorage } from './memoryStorage';
+import { createVersionedPersistence, Migrations } from './persistence';
+import { syncAcrossTabs } from './webStorage';
+
+type OfflineStore = OfflineState & OfflineActions;
+
+type OfflinePersistedState = Pick<OfflineState, 'offlineMode' | 'downloadedAt'>;
+
+// Keeps the persist API visible so callers can wait for the saved offline preference
+type OfflineStoreHook = UseBoundStore<
+  Mutate<StoreApi<OfflineStore>, [['zustand/persist', OfflinePersistedState]]>
+>;
+
+export interface OfflineStoreDependencies {
+  /** Where the offline-mode preference is persisted */
+  storage: StateStorage;
+  cache: ContentCache;
+  /** Null when no content API is configured; downloads then fail with an error */
+  client: ContentApiClient | null;
+  /** Called after the cache changes so the content store can reload */
+  onContentChanged?: () => void | Promise<void>;
+}
+
+export const OFFLINE_MIGRATIONS: Migrations = {
+  // v0 saves already had this shape; coerce anything malformed to the defaults
+  1: ({ offlineMode, downloadedAt }) => ({
+    offlineMode: offlineMode === true,
+    downloadedAt: typeof downloadedAt === 'string' ? downloadedAt : null,
+  }),
+};
+
+const IDLE_PROGRESS: OfflineProgress = { phase: null, fraction: 0 };
+
+// Using DE3 (Decomposition) - Dependencies injected so any storage backend and API client can be used
+export const createOfflineStore = ({
+  storage,
+  cache,
+  client,
+  onContentChanged,
+}: OfflineStoreDependencies): OfflineStoreHook => {
+  const store = create<OfflineStore>()(
+    persist(
+      (set, get) => ({
+        // State
+        offlineMode: false,
+        isLoading: true,
+        status: 'idle',
+        progress: IDLE_PROGRESS,
+        storageBytes: 0,
+        cachedModels: 0,
+        cachedNarratives: 0,
+        downloadedAt: null,
+        error: null,
+
+        // Actions
+        setOfflineMode: (enabled) => {
+          set({ offlineMode: enabled });
+        },
+
+        downloadAll: async () => {
+          if (get().status === 'downloading') return;
+
+          // Using IN1 (Inversion) - Offline mode is a promise never to touch the network
+          if (get().offlineMode) {
+            set({ status: 'error', error: 'Turn off offline mode to download content' });
+            return;
+          }
+          if (!client) {
+            set({ status: 'error', error: 'No content API is configured' });
+            return;
+          }
+
+          set({ status: 'downloading', progress: { phase: 'models', fraction: 0 }, error: null });
+          try {
+            // Models and narratives each account for half of the progress bar
+            const models = await client.fetchModels({}, (page, totalPages) =>
+              set({ progress: { phase: 'models', fraction: (page / totalPages) * 0.5 } })
+            );
+            set({ progress: { phase: 'narratives', fraction: 0.5 } });
+            const narratives = await client.fetchNarratives({}, (page, totalPages) =>
+              set({ progress: { phase: 'narratives', fraction: 0.5 + (page / totalPages) * 0.5 } })
+            );
+
+            // Unconditional requests never come back not-modified
+            if (models.status !== 'ok' || narratives.status !== 'ok') {
+              throw new Error('Content API returned no content');
+            }
+
+            const now = new Date().toISOString();
+            await cache.write({
+              models: {
+                data: models.data,
+                etag: models.etag,
+                lastModified: models.lastModified,
+                fetchedAt: now,
+              },
+              narratives: {
+                data: narratives.data,
+                etag: narratives.etag,
+                lastModified: narratives.lastModified,
+                fetchedAt: now,
+              },
+            });
+
+            set({
+              status: 'complete',
+              progress: { phase: null, fraction: 1 },
+              downloadedAt: now,
+            });
+            await get().refreshStorageInfo();
+            await onContentChanged?.();
+          } catch (error) {
+            set({
+              status: 'error',
+              progress: IDLE_PROGRESS,
+              error: error instanceof Error ? error.message : String(error),
+            });
+          }
+        },
+
+        clearCache: async () => {
+          try {
+            await cache.clear();
+          } catch (error) {
+            // Callers don't await this, so a rejection would go unhandled
+            set({ status: 'error', error: error instanceof Error ? error.message : String(error) });
+            return;
+          }
+          set({
+            status: 'idle',
+            progress: IDLE_PROGRESS,
+            storageBytes: 0,
+            cachedModels: 0,
+            cachedNarratives: 0,
+            downloadedAt: null,
+            error: null,
+          });
+          await onContentChanged?.();
+        },
+
+        refreshStorageInfo: async () => {
+          const [cached, storageBytes] = await Promise.all([cache.read(), cache.size()]);
+          set({
+            storageBytes,
+            cachedModels: cached.models?.data.models.length ?? 0,
+            cachedNarratives: cached.narratives?.data.narratives.length ?? 0,
+          });
+        },
+      }),
+      {
+        ...createVersionedPersistence<OfflineStore, OfflinePersistedState>({
+          name: 'hummbl-offline',
+          storage,
+          migrations: OFFLINE_MIGRATIONS,
+          // Download progress is per-session; only the preference and last download survive restarts
+          partialize: (state) => ({
+            offlineMode: state.offlineMode,
+            downloadedAt: state.downloadedAt,
+          }),
+        }),
+        // Hydrated below, once `store` exists for the failure callback
+        skipHydration: true,
+        merge: (persisted, current) => ({
+          ...current,
+          ...(persisted as Partial<OfflinePersistedState>),
+          isLoading: false,
+        }),
+        // Merging is skipped when the read fails; the default preference stands
+        onRehydrateStorage: () => (_state, error) => {
+          if (error) store.setState({ isLoading: false });
+        },
+      }
+    )
+  );
+  void store.persist.rehydrate();
+  syncAcrossTabs(store, storage);
+  return store;
+};
+
+// Store singleton - can be re-initialized for mobile
+let offlineStoreInstance: OfflineStoreHook | null = null;
+
+const createDefaultOfflineStore = () => {
+  const storage = createMemoryStorage();
+  return createOfflineStore({ storage, cache: createContentCache(storage), client: null });
+};
+
+/**
+ * Initialize the offline store with platform storage and a content API client.
+ * Reads the current cache size straight away so settings screens show real numbers.
+ */
+export const initializeOfflineStore = (dependencies: OfflineStoreDependencies): void => {
+  offlineStoreInstance = createOfflineStore(dependencies);
+  void offlineStoreInstance.getState().refreshStorageInfo();
+};
+
+/**
+ * Get the offline store, initializing with in-memory storage and no API if needed.
+ */
+export const useOfflineStore = (): OfflineStore => {
+  if (!offlineStoreInstance) {
+    offlineStoreInstance = createDefaultOfflineStore();
+  }
+  return offlineStoreInstance();
+};
+
+/**
+ * Get the raw store hook for direct Zustand usage.
+ */
+export const getOfflineStoreHook = (): OfflineStoreHook => {
+  if (!offlineStoreInstance) {
+    offlineStoreInstance = createDefaultOfflineStore();
+  }
+  return offlineStoreInstance;
+};
@@ -0,0 +1,150 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import type { StateStorage } from 'zustand/middleware';
+import { runMigrations, getPersistVersion } from './persistence';
+import { createBookmarkStore, BOOKMARK_MIGRATIONS } from './bookmarkStore';
+import { createSearchHistoryStore } from './searchHistoryStore';
+import { createOfflineStore } from './offlineStore';
+import { createMemoryStorage } from './memoryStorage';
+import { createContentCache } from '../api/contentCache';
+
+// Blobs exactly as earlier releases saved them
+const FIXTURES = {
+  // Before versioning: the whole bookmark state, loading flags included
+  bookmarksV0:
+    '{"state":{"bookmarks":[{"type":"mental-model","itemId":"p1","title":"First Principles",' +
+    '"tags":["Strategy"],"id":"1714550000000-abc123def","createdAt":"2024-05-01T09:00:00.000Z"}],' +
+    '"isLoading":false,"error":null},"version":0}',
+  // Unversioned builds that already had collections and notes
+  bookmarksV0WithCollections:
+    '{"state":{"bookmarks":[{"type":"narrative","itemId":"n7","title":"Premortem",' +
+    '"id":"b1","createdAt":"2024-06-01T09:00:00.000Z","note":"  Q3 review  "}],' +
+    '"collections":[{"id":"c1","name":"Acme","createdAt":"2024-06-02T09:00:00.000Z",' +
+    '"bookmarkIds":["b1"]}],"isLoading":false,"error":null},"version":0}',
+  bookmarksV1:
+    '{"state":{"bookmarks":[{"type":"mental-model","itemId":"in2","title":"Inversion",' +
+    '"id":"b2","createdAt":"2024-07-01T09:00:00.000Z","tags":["Client A","client a"],"note":" "}],' +
+    '"collections":[]},"version":1}',
+  searchHistoryV0:
+    '{"state":{"entries":[{"query":"systems","count":3,"lastSearchedAt":"2024-05-01T09:00:00.000Z"},' +
+    '{"query":42}]},"version":0}',
+  offlineV0: '{"state":{"offlineMode":true,"downloadedAt":"2024-05-01T09:00:00.000Z"},"version":0}',
+};
+
+// A storage whose keys can be listed, to find backups
+const createInspectableStorage = (initial: Record<string, string> = {}) => {
+  const items = new Map(Object.entries(initial));
+  const storage: StateStorage = {
+    getItem: (name) => items.get(name) ?? null,
+    setItem: (name, value) => {
+      items.set(name, value);
+    },
+    removeItem: (name) => {
+      items.delete(name);
+    },
+  };
+  return { storage, items };
+};
+
+const saved = (items: Map<string, string>, name: string) => JSON.parse(items.get(name) as string);
+
+describe('persistence migrations', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('loads every historical bookmark blob and re-saves it at the current version', () => {
+    const version = getPersistVersion(BOOKMARK_MIGRATIONS);
+
+    const v0 = createInspectableStorage({ 'hummbl-bookmarks': FIXTURES.bookmarksV0 });
+    const fromV0 = createBookmarkStore(v0.storage).getState();
+    expect(fromV0.bookmarks.map((b) => [b.id, b.tags])).toEqual([
+      ['1714550000000-abc123def', ['strategy']],
+    ]);
+    expect(fromV0.collections).toEqual([]);
+    expect(saved(v0.items, 'hummbl-bookmarks')).toMatchObject({ version });
+    expect(saved(v0.items, 'hummbl-bookmarks').state).not.toHaveProperty('isLoading');
+
+    const withCollections = createInspectableStorage({
+      'hummbl-bookmarks': FIXTURES.bookmarksV0WithCollections,
+    });
+    const fromCollections = createBookmarkStore(withCollections.storage).getState();
+    expect(fromCollections.bookmarks[0].note).toBe('Q3 review');
+    expect(fromCollections.getCollectionBookmarks('c1').map((b) => b.title)).toEqual(['Premortem']);
+
+    const v1 = createInspectableStorage({ 'hummbl-bookmarks': FIXTURES.bookmarksV1 });
+    const fromV1 = createBookmarkStore(v1.storage).getState();
+    expect(fromV1.bookmarks[0].tags).toEqual(['client-a']);
+    expect(fromV1.bookmarks[0]).not.toHaveProperty('note');
+  });
+
+  it('loads search history and offline preferences saved before versioning', () => {
+    const history = createInspectableStorage({
+      'hummbl-search-history': FIXTURES.searchHistoryV0,
+    });
+    expect(createSearchHistoryStore(history.storage).getState().entries).toEqual([
+      { query: 'systems', count: 3, lastSearchedAt: '2024-05-01T09:00:00.000Z' },
+    ]);
+
+    const offline = createInspectableStorage({ 'hummbl-offline': FIXTURES.offlineV0 });
+    const state = createOfflineStore({
+      storage: offline.storage,
+      cache: createContentCache(createMemoryStorage()),
+      client: null,
+    }).getState();
+    expect([state.offlineMode, state.downloadedAt]).toEqual([true, '2024-05-01T09:00:00.000Z']);
+  });
+
+  it('backs up unparseable state instead of discarding it', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const { storage, items } = createInspectableStorage({ 'hummbl-bookmarks': '{"state":{"book' });
+
+    const store = createBookmarkStore(storage);
+    expect(store.getState().bookmarks).toEqual([]);
+
+    const backups = Array.from(items.keys()).filter((key) =>
+      key.startsWith('hummbl-bookmarks.backup.')
+    );
+    expect(backups).toHaveLength(1);
+    expect(items.get(backups[0])).toBe('{"state":{"book');
+
+    store.getState().addBookmark({ type: 'narrative', itemId: 'n1', title: 'N1' });
+    expect(saved(items, 'hummbl-bookmarks').state.bookmarks).toHaveLength(1);
+    expect(items.get(backups[0])).toBe('{"state":{"book');
+  });
+
+  it('backs up state saved by a newer version', () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const blob = '{"state":{"bookmarks":[],"collections":[],"folders":[]},"version":99}';
+    const { storage, items } = createInspectableStorage({ 'hummbl-bookmarks': blob });
+
+    createBookmarkStore(storage);
+    const backup = Array.from(items.entries()).find(([key]) => key.includes('.backup.'));
+    expect(backup?.[1]).toBe(blob);
+  });
+
+  it('hydrates from asynchronous storage', async () => {
+    const { storage } = createInspectableStorage({ 'hummbl-bookmarks': FIXTURES.bookmarksV0 });
+    const asyncStorage: StateStorage = {
+      getItem: async (name) => storage.getItem(name),
+      setItem: async (name, value) => storage.setItem(name, value),
+      removeItem: async (name) => storage.removeItem(name),
+    };
+
+    const store = createBookmarkStore(asyncStorage);
+    await vi.waitFor(() => expect(store.getState().bookmarks).toHaveLength(1));
+  });
+
+  it('runs numbered migrations in order and refuses gaps', () => {
+    const migrations = {
+      1: (state: Record<string, unknown>) => ({ ...state, steps: ['one'] }),
+      2: (state: Record<string, unknown>) => ({
+        ...state,
+        steps: [...(state.steps as string[]), 'two'],
+      }),
+    };
+    expect(runMigrations({}, 0, migrations)).toEqual({ steps: ['one', 'two'] });
+    expect(runMigrations({ steps: ['one'] }, 1, migrations)).toEqual({ steps: ['one', 'two'] });
+    expect(() => runMigrations({}, 0, { 2: migrations[2] })).toThrow(/No migration to v1/);
+    expect(() => runMigrations([], 0, migrations)).toThrow(/not an object/);
+  });
+});
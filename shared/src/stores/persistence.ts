@@ -0,0 +1,203 @@
+// Using IN2 (Premortem) - Versioned persistence that migrates old saves and backs up ones it can't read
+
+import { StateStorage, PersistOptions, PersistStorage, StorageValue } from 'zustand/middleware';
+
+export type PersistedRecord = Record<string, unknown>;
+
+/**
+ * Numbered migrations: the function at key `n` upgrades state saved at
+ * version `n - 1` to version `n`. The highest key is the current version.
+ * State saved before versioning was added counts as version 0.
+ */
+export type Migrations = Record<number, (state: PersistedRecord) => PersistedRecord>;
+
+export interface PersistRecovery {
+  /** The store's storage key */
+  name: string;
+  /** Where the unreadable value was copied */
+  backupKey: string;
+  reason: string;
+}
+
+export type PersistOperation = 'read' | 'write';
+
+export interface PersistStorageStatus {
+  operation: PersistOperation;
+  /** Why the storage adapter failed, or null when it succeeded */
+  error: string | null;
+}
+
+export interface VersionedPersistenceOptions<S, P> {
+  name: string;
+  storage: StateStorage;
+  migrations: Migrations;
+  /** The part of the state that is saved */
+  partialize: (state: S) => P;
+  /** Called after an unreadable value was backed up and the store started fresh */
+  onRecover?: (recovery: PersistRecovery) => void;
+  /** Called after every adapter read and write; failed writes are only logged without it */
+  onStorageStatus?: (status: PersistStorageStatus) => void;
+}
+
+const isRecord = (value: unknown): value is PersistedRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const reasonOf = (error: unknown) => (error instanceof Error ? error.message : String(error));
+
+const rethrow = (error: unknown): never => {
+  throw error;
+};
+
+// Stay synchronous for synchronous storage so in-memory stores hydrate before first use
+const after = <T, R>(value: T | Promise<T>, next: (value: T) => R | Promise<R>): R | Promise<R> =>
+  value instanceof Promise ? value.then(next) : next(value);
+
+/**
+ * The version state is saved at: the highest numbered migration
+ */
+export const getPersistVersion = (migrations: Migrations): number =>
+  Math.max(0, ...Object.keys(migrations).map(Number));
+
+/**
+ * Key an unreadable value is copied to, e.g. `hummbl-bookmarks.backup.2024-05-01T09:30:00.000Z`
+ */
+export const getBackupKey = (name: string, at: Date = new Date()): string =>
+  `${name}.backup.${at.toISOString()}`;
+
+/**
+ * Run every migration after `fromVersion` in order. Throws when the state
+ * isn't an object, was saved by a newer version, or a migration is missing.
+ */
+export function runMigrations(
+  state: unknown,
+  fromVersion: number,
+  migrations: Migrations
+): PersistedRecord {
+  const version = getPersistVersion(migrations);
+  if (fromVersion > version) {
+    throw new Error(
+      `Saved by a newer version (v${fromVersion}); this version reads up to v${version}`
+    );
+  }
+  if (!isRecord(state)) throw new Error('Saved state is not an object');
+
+  let migrated = state;
+  for (let next = fromVersion + 1; next <= version; next++) {
+    const migration = migrations[next];
+    if (!migration) throw new Error(`No migration to v${next}`);
+    migrated = migration(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Persist options with a version, numbered migrations and a partialized
+ * state. Anything that can't be parsed or migrated is copied to a backup key
+ * before the store starts fresh, so a bad release never silently loses data.
+ * A failed adapter read fails hydration and holds back writes until a read
+ * succeeds, so an empty store never overwrites state it couldn't load.
+ */
+export function createVersionedPersistence<S, P>({
+  name,
+  storage,
+  migrations,
+  partialize,
+  onRecover,
+  onStorageStatus,
+}: VersionedPersistenceOptions<S, P>): PersistOptions<S, P> {
+  const version = getPersistVersion(migrations);
+  // The raw value last read, so a failed migration can back it up as it was saved
+  let lastRead: string | null = null;
+  let readFailed = false;
+
+  const report = (status: PersistStorageStatus) => {
+    if (status.operation === 'read') readFailed = status.error !== null;
+    if (onStorageStatus) onStorageStatus(status);
+    else if (status.error) console.warn(`Failed to ${status.operation} ${name}: ${status.error}`);
+  };
+
+  // Run an adapter call and report how it went, passing failures to `onError`
+  const track = <T>(
+    operation: PersistOperation,
+    run: () => T | Promise<T>,
+    onError: (error: unknown) => T
+  ): T | Promise<T> => {
+    const succeed = (value: T) => {
+      report({ operation, error: null });
+      return value;
+    };
+    const fail = (error: unknown) => {
+      report({ operation, error: reasonOf(error) });
+      return onError(error);
+    };
+    try {
+      const result = run();
+      return result instanceof Promise ? result.then(succeed, fail) : succeed(result);
+    } catch (error) {
+      return fail(error);
+    }
+  };
+
+  const backUp = (raw: string, reason: string) => {
+    const backupKey = getBackupKey(name);
+    console.warn(`Backed up unreadable ${name} to ${backupKey}: ${reason}`);
+    return after(storage.setItem(backupKey, raw), () =>
+      after(storage.removeItem(name), () => onRecover?.({ name, backupKey, reason }))
+    );
+  };
+
+  const persistStorage: PersistStorage<P> = {
+    getItem: (key) =>
+      after<string | null, StorageValue<P> | null>(
+        // Rethrown so persist leaves the store unhydrated
+        track('read', () => storage.getItem(key), rethrow),
+        (raw) => {
+          lastRead = raw;
+          if (raw === null) return null;
+          try {
+            const parsed: unknown = JSON.parse(raw);
+            if (!isRecord(parsed) || !isRecord(parsed.state)) {
+              throw new Error('Missing saved state');
+            }
+            return {
+              state: parsed.state as P,
+              version: typeof parsed.version === 'number' ? parsed.version : 0,
+            };
+          } catch (error) {
+            return after(backUp(raw, reasonOf(error)), () => null);
+          }
+        }
+      ),
+    setItem: (key, value) => {
+      // Saving over state that couldn't be read would lose it for good
+      if (readFailed) return;
+      // Persist doesn't handle rejected writes; they are reported instead
+      return track(
+        'write',
+        () => storage.setItem(key, JSON.stringify(value)),
+        () => undefined
+      );
+    },
+    removeItem: (key) => storage.removeItem(key),
+  };
+
+  return {
+    name,
+    version,
+    storage: persistStorage,
+    partialize,
+    migrate: (persistedState, fromVersion) => {
+      try {
+        return runMigrations(persistedState, fromVersion, migrations) as P;
+      } catch (error) {
+        if (lastRead !== null) {
+          Promise.resolve(backUp(lastRead, reasonOf(error))).catch((backupError) =>
+            console.warn(`Failed to back up ${name}: ${reasonOf(backupError)}`)
+          );
+        }
+        // Nothing to restore; merging an empty object keeps the initial state
+        return {} as P;
+      }
+    },
+  };
+}
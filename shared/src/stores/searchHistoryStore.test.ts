@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { createSearchHistoryStore } from './searchHistoryStore';
+import { createMemoryStorage } from './memoryStorage';
+
+describe('search history store', () => {
+  it('de-duplicates case and spacing variants and moves repeats to the front', () => {
+    const store = createSearchHistoryStore(createMemoryStorage());
+    const { recordSearch } = store.getState();
+    recordSearch('systems');
+    recordSearch('risk');
+    recordSearch('  Systems ');
+    recordSearch('   ');
+
+    const entries = store.getState().entries;
+    expect(entries.map((e) => [e.query, e.count])).toEqual([
+      ['Systems', 2],
+      ['risk', 1],
+    ]);
+  });
+
+  it('caps the history by dropping the least recent search', () => {
+    const store = createSearchHistoryStore(createMemoryStorage(), 3);
+    ['a', 'b', 'c', 'd'].forEach(store.getState().recordSearch);
+    expect(store.getState().entries.map((e) => e.query)).toEqual(['d', 'c', 'b']);
+  });
+
+  it('removes one search or clears them all', () => {
+    const store = createSearchHistoryStore(createMemoryStorage());
+    ['first principles', 'inversion'].forEach(store.getState().recordSearch);
+
+    store.getState().removeSearch('First  Principles');
+    expect(store.getState().entries.map((e) => e.query)).toEqual(['inversion']);
+
+    store.getState().clearHistory();
+    expect(store.getState().entries).toEqual([]);
+  });
+
+  it('restores history from storage', () => {
+    const storage = createMemoryStorage();
+    createSearchHistoryStore(storage).getState().recordSearch('feedback');
+
+    // Memory storage is synchronous, so the new store hydrates on creation
+    const restored = createSearchHistoryStore(storage);
+    expect(restored.getState().entries[0]).toMatchObject({ query: 'feedback', count: 1 });
+  });
+});
@@ -0,0 +1,113 @@
+// Using RE2 (Feedback Loops) - Zustand store remembering what the user searched for
+
+import { create, StoreApi, UseBoundStore } from 'zustand';
+import { persist, StateStorage } from 'zustand/middleware';
+import type { SearchHistoryState, SearchHistoryActions } from '../types';
+import { createMemoryStorage } from './memoryStorage';
+import { createVersionedPersistence, Migrations } from './persistence';
+import { syncAcrossTabs } from './webStorage';
+
+type SearchHistoryStore = SearchHistoryState & SearchHistoryActions;
+
+/** Entries kept before the least recent is dropped */
+export const SEARCH_HISTORY_LIMIT = 20;
+
+/**
+ * The key history entries are de-duplicated on: trimmed, lowercased, single-spaced
+ */
+export const normalizeSearchQuery = (query: string): string =>
+  query.trim().replace(/\s+/g, ' ').toLowerCase();
+
+export const SEARCH_HISTORY_MIGRATIONS: Migrations = {
+  // v0 saves already had this shape; drop anything that isn't an entry
+  1: ({ entries }) => ({
+    entries: Array.isArray(entries)
+      ? entries.filter(
+          (entry) =>
+            typeof entry?.query === 'string' &&
+            typeof entry.count === 'number' &&
+            typeof entry.lastSearchedAt === 'string'
+        )
+      : [],
+  }),
+};
+
+export const createSearchHistoryStore = (
+  storage: StateStorage,
+  limit = SEARCH_HISTORY_LIMIT
+): UseBoundStore<StoreApi<SearchHistoryStore>> => {
+  const store = create<SearchHistoryStore>()(
+    persist(
+      (set) => ({
+        // State
+        entries: [],
+
+        // Actions
+        recordSearch: (query) => {
+          const key = normalizeSearchQuery(query);
+          if (!key) return;
+          set((state) => {
+            const previous = state.entries.find((e) => normalizeSearchQuery(e.query) === key);
+            const entry = {
+              query: query.trim(),
+              count: (previous?.count ?? 0) + 1,
+              lastSearchedAt: new Date().toISOString(),
+            };
+            // Using IN1 (Inversion) - Move repeats to the front instead of storing them twice
+            const others = state.entries.filter((e) => e !== previous);
+            return { entries: [entry, ...others].slice(0, limit) };
+          });
+        },
+
+        removeSearch: (query) => {
+          const key = normalizeSearchQuery(query);
+          set((state) => ({
+            entries: state.entries.filter((e) => normalizeSearchQuery(e.query) !== key),
+          }));
+        },
+
+        clearHistory: () => {
+          set({ entries: [] });
+        },
+      }),
+      createVersionedPersistence({
+        name: 'hummbl-search-history',
+        storage,
+        migrations: SEARCH_HISTORY_MIGRATIONS,
+        partialize: (state) => ({ entries: state.entries }),
+      })
+    )
+  );
+  syncAcrossTabs(store, storage);
+  return store;
+};
+
+// Store singleton - can be re-initialized for mobile
+let searchHistoryStoreInstance: UseBoundStore<StoreApi<SearchHistoryStore>> | null = null;
+
+/**
+ * Initialize the search history store with a specific storage adapter.
+ */
+export const initializeSearchHistoryStore = (storage: StateStorage): void => {
+  searchHistoryStoreInstance = createSearchHistoryStore(storage);
+};
+
+/**
+ * Get the search history store, initializing with in-memory storage if needed.
+ */
+export const useSearchHistoryStore = (): SearchHistoryStore => {
+  if (!searchHistoryStoreInstance) {
+    searchHistoryStoreInstance = createSearchHistoryStore(createMemoryStorage());
+  }
+  return searchHistoryStoreInstance();
+};
+
+/**
+ * Get the raw store hook for direct Zustand usage.
+ */
+export const getSearchHistoryStoreHook = (): UseBoundStore<StoreApi<SearchHistoryStore>> => {
+  if (!searchHistoryStoreInstance) {
+    searchHistoryStoreInstance = createSearchHistoryStore(createMemoryStorage());
+  }
+  return searchHistoryStoreInstance;
+};
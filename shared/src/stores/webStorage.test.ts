@@ -0,0 +1,276 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  createIndexedDBStorage,
+  createLocalStorageAdapter,
+  createWebStorage,
+  isQuotaExceededError,
+  StorageQuotaError,
+} from './webStorage';
+import type { BroadcastChannelLike, IndexedDBLike, StorageEventTargetLike } from './webStorage';
+import { createBookmarkStore } from './bookmarkStore';
+import { createSearchHistoryStore } from './searchHistoryStore';
+
+const quotaError = () =>
+  Object.assign(new Error('The quota has been exceeded.'), {
+    name: 'QuotaExceededError',
+  });
+
+type StorageListener = Parameters<StorageEventTargetLike['addEventListener']>[1];
+
+// Tabs share one localStorage; a write fires `storage` in every other tab, as browsers do
+const createBrowser = (quota = Infinity) => {
+  const data = new Map<string, string>();
+  const tabs: { storage: object; listeners: Set<StorageListener> }[] = [];
+
+  const openTab = () => {
+    const listeners = new Set<StorageListener>();
+    const notifyOthers = (key: string) =>
+      tabs
+        .filter((tab) => tab.listeners !== listeners)
+        .forEach((tab) => tab.listeners.forEach((l) => l({ key, storageArea: tab.storage })));
+    const storage = {
+      getItem: (key: string) => data.get(key) ?? null,
+      setItem: (key: string, value: string) => {
+        if (value.length > quota) throw quotaError();
+        data.set(key, value);
+        notifyOthers(key);
+      },
+      removeItem: (key: string) => {
+        data.delete(key);
+        notifyOthers(key);
+      },
+    };
+    const events = {
+      addEventListener: (_type: 'storage', listener: StorageListener) => listeners.add(listener),
+      removeEventListener: (_type: 'storage', listener: StorageListener) =>
+        listeners.delete(listener),
+    };
+    tabs.push({ storage, listeners });
+    return createLocalStorageAdapter({ storage, events });
+  };
+
+  return { data, openTab };
+};
+
+// Messages reach every other channel on the same bus, like BroadcastChannel
+const createChannelBus = () => {
+  const channels = new Set<Set<(event: { data: unknown }) => void>>();
+  return (): BroadcastChannelLike => {
+    const listeners = new Set<(event: { data: unknown }) => void>();
+    channels.add(listeners);
+    return {
+      postMessage: (data) =>
+        channels.forEach((other) => {
+          if (other !== listeners) other.forEach((l) => setTimeout(() => l({ data })));
+        }),
+      addEventListener: (_type, listener) => listeners.add(listener),
+      removeEventListener: (_type, listener) => listeners.delete(listener),
+    };
+  };
+};
+
+// Just enough IndexedDB to run the adapter: one database of key-value object stores
+const createFakeIndexedDB = ({ quota = Infinity } = {}) => {
+  const stores = new Map<string, Map<string, unknown>>();
+  const later = (run: () => void) => setTimeout(run);
+
+  const database = {
+    objectStoreNames: { contains: (name: string) => stores.has(name) },
+    createObjectStore: (name: string) => stores.set(name, new Map()),
+    transaction: (name: string) => {
+      const transaction = {
+        error: null as unknown,
+        oncomplete: null as (() => void) | null,
+        onerror: null as (() => void) | null,
+        onabort: null as (() => void) | null,
+        objectStore: () => {
+          const data = stores.get(name) as Map<string, unknown>;
+          const request = (run: () => unknown) => {
+            const req = {
+              result: undefined as unknown,
+              error: null as unknown,
+              onsuccess: null as (() => void) | null,
+              onerror: null as (() => void) | null,
+            };
+            later(() => {
+              try {
+                req.result = run();
+                req.onsuccess?.();
+                later(() => transaction.oncomplete?.());
+              } catch (error) {
+                req.error = error;
+                transaction.error = error;
+                req.onerror?.();
+                transaction.onabort?.();
+              }
+            });
+            return req;
+          };
+          return {
+            get: (key: string) => request(() => data.get(key)),
+            put: (value: string, key: string) =>
+              request(() => {
+                if (value.length > quota) throw quotaError();
+                data.set(key, value);
+              }),
+            delete: (key: string) => request(() => data.delete(key)),
+          };
+        },
+      };
+      return transaction;
+    },
+  };
+
+  const indexedDB: IndexedDBLike = {
+    open: () => {
+      const request = {
+        result: database,
+        error: null,
+        onsuccess: null as (() => void) | null,
+        onerror: null as (() => void) | null,
+        onupgradeneeded: null as (() => void) | null,
+      };
+      later(() => {
+        request.onupgradeneeded?.();
+        request.onsuccess?.();
+      });
+      return request;
+    },
+  };
+  return { indexedDB, stores };
+};
+
+describe('localStorage adapter', () => {
+  it('reads, writes and removes values', () => {
+    const { data, openTab } = createBrowser();
+    const storage = openTab();
+    storage.setItem('key', 'value');
+    expect(storage.getItem('key')).toBe('value');
+    storage.removeItem('key');
+    expect(data.has('key')).toBe(false);
+  });
+
+  it('reports a full quota as a failed bookmark save', () => {
+    const { openTab } = createBrowser(200);
+    const storage = openTab();
+    expect(() => storage.setItem('big', 'x'.repeat(500))).toThrow(StorageQuotaError);
+
+    const store = createBookmarkStore(storage);
+    store.getState().addBookmark({ type: 'narrative', itemId: 'n1', title: 'x'.repeat(300) });
+    expect(store.getState().failedOperation).toBe('write');
+    expect(store.getState().error).toBe(
+      "Couldn't save bookmarks: Browser storage is full; free up space for this site to keep saving"
+    );
+  });
+
+  it('re-reads bookmarks another tab saved', () => {
+    const { openTab } = createBrowser();
+    const first = createBookmarkStore(openTab());
+    const second = createBookmarkStore(openTab());
+
+    first.getState().addBookmark({ type: 'mental-model', itemId: 'p1', title: 'P1' });
+    expect(second.getState().hasBookmark('p1', 'mental-model')).toBe(true);
+    second.getState().clearBookmarks();
+    expect(first.getState().bookmarks).toEqual([]);
+  });
+});
+
+describe('IndexedDB adapter', () => {
+  it('creates its object store and round-trips values', async () => {
+    const { indexedDB, stores } = createFakeIndexedDB();
+    const storage = createIndexedDBStorage({ indexedDB, channel: null });
+
+    expect(await storage.getItem('key')).toBeNull();
+    await storage.setItem('key', 'value');
+    expect(await storage.getItem('key')).toBe('value');
+    expect(stores.get('state')?.get('key')).toBe('value');
+    await storage.removeItem('key');
+    expect(await storage.getItem('key')).toBeNull();
+  });
+
+  it('rejects writes over the quota', async () => {
+    const { indexedDB } = createFakeIndexedDB({ quota: 10 });
+    const storage = createIndexedDBStorage({ indexedDB, channel: null });
+    await expect(storage.setItem('key', 'x'.repeat(20))).rejects.toBeInstanceOf(StorageQuotaError);
+  });
+
+  it('moves values saved in localStorage over on first read', async () => {
+    const { indexedDB, stores } = createFakeIndexedDB();
+    const legacy = new Map([
+      ['hummbl-bookmarks', '{"state":{"bookmarks":[]},"version":2}'],
+      ['hummbl-offline', '{"state":{"offlineMode":true},"version":1}'],
+    ]);
+    const migrateFrom = {
+      getItem: (key: string) => legacy.get(key) ?? null,
+      setItem: (key: string, value: string) => legacy.set(key, value),
+      removeItem: (key: string) => legacy.delete(key),
+    };
+    const storage = createIndexedDBStorage({ indexedDB, channel: null, migrateFrom });
+
+    expect(await storage.getItem('hummbl-bookmarks')).toBe(
+      '{"state":{"bookmarks":[]},"version":2}'
+    );
+    expect(stores.get('state')?.get('hummbl-bookmarks')).toBe(
+      '{"state":{"bookmarks":[]},"version":2}'
+    );
+    expect(legacy.has('hummbl-bookmarks')).toBe(false);
+
+    // IndexedDB wins once it has a value, and removing clears both
+    legacy.set('hummbl-bookmarks', 'stale');
+    expect(await storage.getItem('hummbl-bookmarks')).toBe(
+      '{"state":{"bookmarks":[]},"version":2}'
+    );
+    await storage.removeItem('hummbl-offline');
+    expect(await storage.getItem('hummbl-offline')).toBeNull();
+    expect(legacy.has('hummbl-offline')).toBe(false);
+  });
+
+  it('announces writes so other tabs re-read them', async () => {
+    const { indexedDB } = createFakeIndexedDB();
+    const openChannel = createChannelBus();
+    const open = () =>
+      createSearchHistoryStore(createIndexedDBStorage({ indexedDB, channel: openChannel() }));
+    const first = open();
+    const second = open();
+
+    first.getState().recordSearch('feedback loops');
+    await vi.waitFor(() =>
+      expect(second.getState().entries.map((e) => e.query)).toEqual(['feedback loops'])
+    );
+  });
+});
+
+describe('web storage selection', () => {
+  it('recognizes quota errors across browsers', () => {
+    expect(isQuotaExceededError(quotaError())).toBe(true);
+    expect(isQuotaExceededError({ name: 'NS_ERROR_DOM_QUOTA_REACHED' })).toBe(true);
+    expect(isQuotaExceededError({ code: 22 })).toBe(true);
+    expect(isQuotaExceededError(new Error('Disk I/O'))).toBe(false);
+  });
+
+  it('prefers IndexedDB, then usable localStorage, then nothing', () => {
+    const { indexedDB } = createFakeIndexedDB();
+    const localStorage = { getItem: () => 'saved', setItem: () => {}, removeItem: () => {} };
+    const blocked = {
+      ...localStorage,
+      setItem: () => {
+        throw new Error('The operation is insecure.');
+      },
+    };
+    const select = (globals: Record<string, unknown>) => {
+      Object.entries(globals).forEach(([name, value]) => vi.stubGlobal(name, value));
+      try {
+        return createWebStorage();
+      } finally {
+        vi.unstubAllGlobals();
+      }
+    };
+
+    // IndexedDB reads are async, localStorage reads are not
+    const both = select({ indexedDB, localStorage, BroadcastChannel: undefined });
+    expect(both?.getItem('key')).toBeInstanceOf(Promise);
+    expect(select({ localStorage })?.getItem('key')).toBe('saved');
+    expect(select({ localStorage: blocked })).toBeNull();
+    expect(createWebStorage()).toBeNull();
+  });
+});
@@ -0,0 +1,332 @@
+// Using DE3 (Decomposition) - localStorage and IndexedDB adapters for the Expo web build
+
+import type { StateStorage } from 'zustand/middleware';
+
+/** Called with the key another tab changed, or null when it cleared everything */
+export type StorageChangeListener = (name: string | null) => void;
+
+/**
+ * Storage that also reports changes made in other tabs, so persisted stores
+ * can re-read them
+ */
+export interface SyncedStateStorage extends StateStorage {
+  /** Returns a function that stops listening */
+  subscribe: (listener: StorageChangeListener) => () => void;
+}
+
+/** The Web Storage calls the adapter uses; `window.localStorage` satisfies it */
+export interface WebStorageLike {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+}
+
+interface StorageEventLike {
+  key: string | null;
+  storageArea?: unknown;
+}
+
+interface MessageEventLike {
+  data: unknown;
+}
+
+/** Where `storage` events are dispatched; `window` in a browser */
+export interface StorageEventTargetLike {
+  addEventListener: (type: 'storage', listener: (event: StorageEventLike) => void) => void;
+  removeEventListener: (type: 'storage', listener: (event: StorageEventLike) => void) => void;
+}
+
+export interface BroadcastChannelLike {
+  postMessage: (message: unknown) => void;
+  addEventListener: (type: 'message', listener: (event: MessageEventLike) => void) => void;
+  removeEventListener: (type: 'message', listener: (event: MessageEventLike) => void) => void;
+}
+
+// Using P1 (First Principles) - Just the IndexedDB surface used here, so shared needs no DOM types
+interface IDBRequestLike<T> {
+  result: T;
+  error: unknown;
+  onsuccess: (() => void) | null;
+  onerror: (() => void) | null;
+}
+
+interface IDBOpenRequestLike extends IDBRequestLike<IDBDatabaseLike> {
+  onupgradeneeded: (() => void) | null;
+}
+
+interface IDBObjectStoreLike {
+  get: (key: string) => IDBRequestLike<unknown>;
+  put: (value: string, key: string) => IDBRequestLike<unknown>;
+  delete: (key: string) => IDBRequestLike<unknown>;
+}
+
+interface IDBTransactionLike {
+  error: unknown;
+  objectStore: (name: string) => IDBObjectStoreLike;
+  oncomplete: (() => void) | null;
+  onerror: (() => void) | null;
+  onabort: (() => void) | null;
+}
+
+interface IDBDatabaseLike {
+  objectStoreNames: { contains: (name: string) => boolean };
+  createObjectStore: (name: string) => unknown;
+  transaction: (storeName: string, mode: 'readonly' | 'readwrite') => IDBTransactionLike;
+}
+
+/** The IndexedDB calls the adapter uses; `window.indexedDB` satisfies it */
+export interface IndexedDBLike {
+  open: (name: string, version?: number) => IDBOpenRequestLike;
+}
+
+/**
+ * Error raised when the browser refuses a write because this site's storage is full
+ */
+export class StorageQuotaError extends Error {
+  constructor(public readonly key: string) {
+    super('Browser storage is full; free up space for this site to keep saving');
+    this.name = 'StorageQuotaError';
+  }
+}
+
+/**
+ * Whether a storage error means the quota was exceeded. Browsers disagree on
+ * the name and code, and Firefox uses its own.
+ */
+export function isQuotaExceededError(error: unknown): boolean {
+  if (typeof error !== 'object' || error === null) return false;
+  const { name, code } = error as { name?: unknown; code?: unknown };
+  return (
+    name === 'QuotaExceededError' ||
+    name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    code === 22 ||
+    code === 1014
+  );
+}
+
+const toStorageError = (key: string, error: unknown) =>
+  isQuotaExceededError(error) ? new StorageQuotaError(key) : error;
+
+const platformGlobal = globalThis as unknown as {
+  localStorage?: WebStorageLike;
+  indexedDB?: IndexedDBLike;
+  BroadcastChannel?: new (name: string) => BroadcastChannelLike;
+  addEventListener?: StorageEventTargetLike['addEventListener'];
+  removeEventListener?: StorageEventTargetLike['removeEventListener'];
+};
+
+export interface LocalStorageAdapterOptions {
+  /** Defaults to `globalThis.localStorage` */
+  storage?: WebStorageLike;
+  /** Where other tabs' changes arrive; defaults to `globalThis` */
+  events?: StorageEventTargetLike | null;
+}
+
+/**
+ * localStorage adapter for Zustand's persist middleware. Failures reject so
+ * stores can report them, with a full quota as a `StorageQuotaError`. Other
+ * tabs' writes arrive through the browser's `storage` event.
+ */
+export function createLocalStorageAdapter({
+  storage = platformGlobal.localStorage,
+  events = platformGlobal.addEventListener ? (platformGlobal as StorageEventTargetLike) : null,
+}: LocalStorageAdapterOptions = {}): SyncedStateStorage {
+  if (!storage) throw new Error('localStorage is not available on this platform');
+  const local = storage;
+
+  return {
+    getItem: (name) => local.getItem(name),
+    setItem: (name, value) => {
+      try {
+        local.setItem(name, value);
+      } catch (error) {
+        throw toStorageError(name, error);
+      }
+    },
+    removeItem: (name) => local.removeItem(name),
+    subscribe: (listener) => {
+      if (!events) return () => {};
+      const onStorage = (event: StorageEventLike) => {
+        // sessionStorage changes fire the same event
+        if (event.storageArea === undefined || event.storageArea === local) listener(event.key);
+      };
+      events.addEventListener('storage', onStorage);
+      return () => events.removeEventListener('storage', onStorage);
+    },
+  };
+}
+
+export interface IndexedDBStorageOptions {
+  /** Defaults to `globalThis.indexedDB` */
+  indexedDB?: IndexedDBLike;
+  databaseName?: string;
+  storeName?: string;
+  /** Tells other tabs about writes; defaults to a BroadcastChannel named after the store */
+  channel?: BroadcastChannelLike | null;
+  /**
+   * Where values were saved before, e.g. localStorage by AsyncStorage's web
+   * build. A value found only there moves into IndexedDB the first time it
+   * is read.
+   */
+  migrateFrom?: WebStorageLike | null;
+}
+
+const DATABASE_VERSION = 1;
+
+// Settle once the request succeeds, or the whole transaction for writes
+const settle = <T>(
+  transaction: IDBTransactionLike,
+  request: IDBRequestLike<T>,
+  waitForCommit: boolean
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const fail = () => reject(request.error ?? transaction.error);
+    request.onerror = fail;
+    transaction.onabort = fail;
+    if (waitForCommit) {
+      transaction.oncomplete = () => resolve(request.result);
+    } else {
+      request.onsuccess = () => resolve(request.result);
+    }
+  });
+
+/**
+ * IndexedDB adapter for Zustand's persist middleware, for saves too large
+ * for localStorage. Values live in one object store keyed by storage name.
+ * Writes are announced on a BroadcastChannel so other tabs can re-read them.
+ */
+export function createIndexedDBStorage({
+  indexedDB = platformGlobal.indexedDB,
+  databaseName = 'hummbl',
+  storeName = 'state',
+  channel = platformGlobal.BroadcastChannel
+    ? new platformGlobal.BroadcastChannel(`${databaseName}:${storeName}`)
+    : null,
+  migrateFrom = null,
+}: IndexedDBStorageOptions = {}): SyncedStateStorage {
+  if (!indexedDB) throw new Error('IndexedDB is not available on this platform');
+  const factory = indexedDB;
+  let database: Promise<IDBDatabaseLike> | null = null;
+
+  const open = () => {
+    if (database) return database;
+    database = new Promise<IDBDatabaseLike>((resolve, reject) => {
+      const request = factory.open(databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(storeName)) {
+          request.result.createObjectStore(storeName);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    }).catch((error) => {
+      // Let the next call, e.g. a store's retry, try opening again
+      database = null;
+      throw error;
+    });
+    return database;
+  };
+
+  const write = async (
+    name: string,
+    run: (store: IDBObjectStoreLike) => IDBRequestLike<unknown>
+  ) => {
+    const db = await open();
+    const transaction = db.transaction(storeName, 'readwrite');
+    try {
+      await settle(transaction, run(transaction.objectStore(storeName)), true);
+    } catch (error) {
+      throw toStorageError(name, error);
+    }
+    channel?.postMessage({ name });
+  };
+
+  const read = async (name: string) => {
+    const db = await open();
+    const transaction = db.transaction(storeName, 'readonly');
+    const value = await settle(transaction, transaction.objectStore(storeName).get(name), false);
+    return typeof value === 'string' ? value : null;
+  };
+
+  // Using IN2 (Premortem) - Copied before it is removed, so a failed write leaves the old value
+  const migrate = async (name: string) => {
+    const legacy = migrateFrom?.getItem(name) ?? null;
+    if (legacy === null) return null;
+    await write(name, (store) => store.put(legacy, name));
+    migrateFrom?.removeItem(name);
+    return legacy;
+  };
+
+  return {
+    getItem: async (name) => (await read(name)) ?? migrate(name),
+    setItem: (name, value) => write(name, (store) => store.put(value, name)),
+    removeItem: async (name) => {
+      await write(name, (store) => store.delete(name));
+      // Otherwise the next read would bring the old value back
+      migrateFrom?.removeItem(name);
+    },
+    subscribe: (listener) => {
+      if (!channel) return () => {};
+      const onMessage = ({ data }: MessageEventLike) => {
+        const name = (data as { name?: unknown } | null)?.name;
+        if (typeof name === 'string') listener(name);
+      };
+      channel.addEventListener('message', onMessage);
+      return () => channel.removeEventListener('message', onMessage);
+    },
+  };
+}
+
+// localStorage if it can be written, which it can't when site data is blocked
+const usableLocalStorage = (): WebStorageLike | null => {
+  try {
+    // Reading the property throws when site data is blocked
+    const storage = platformGlobal.localStorage;
+    if (!storage) return null;
+    const probe = 'hummbl.storage-probe';
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+    return storage;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * The best web storage available: IndexedDB, then localStorage. Returns
+ * null outside a browser or when both are blocked, e.g. by privacy settings.
+ * With IndexedDB, values saved in localStorage by earlier versions move over
+ * as they are read.
+ */
+export function createWebStorage(): SyncedStateStorage | null {
+  const localStorage = usableLocalStorage();
+  try {
+    if (platformGlobal.indexedDB) return createIndexedDBStorage({ migrateFrom: localStorage });
+  } catch {
+    // Fall through to localStorage
+  }
+  return localStorage && createLocalStorageAdapter({ storage: localStorage });
+}
+
+export const isSyncedStorage = (storage: StateStorage): storage is SyncedStateStorage =>
+  typeof (storage as Partial<SyncedStateStorage>).subscribe === 'function';
+
+interface PersistedStoreLike {
+  persist: {
+    getOptions: () => { name?: string };
+    rehydrate: () => Promise<void> | void;
+  };
+}
+
+/**
+ * Re-read a persisted store whenever another tab saves it. Does nothing for
+ * storage without change events, such as AsyncStorage or memory.
+ */
+export function syncAcrossTabs(store: PersistedStoreLike, storage: StateStorage): () => void {
+  if (!isSyncedStorage(storage)) return () => {};
+  return storage.subscribe((changed) => {
+    if (changed === null || changed === store.persist.getOptions().name) {
+      void store.persist.rehydrate();
+    }
+  });
+}
@@ -0,0 +1,101 @@
+// Using DE12 (Interface Segregation) - Wire and cache types for remote content sync
+
+import type { MentalModel, MentalModelsData } from './mental-model';
+import type { Narrative, NarrativesData } from './narrative';
+import type { ValidationIssue } from './validation';
+
+/**
+ * Minimal fetch signature so the client works with the platform fetch on
+ * React Native, browsers and Node without depending on DOM typings
+ */
+export type FetchLike = (
+  url: string,
+  init?: { method?: string; headers?: Record<string, string> }
+) => Promise<{
+  status: number;
+  ok: boolean;
+  headers: { get: (name: string) => string | null };
+  json: () => Promise<unknown>;
+}>;
+
+/**
+ * One page of a paginated collection response
+ */
+export interface ContentPage<T, M> {
+  items: T[];
+  page: number;
+  pageSize: number;
+  totalItems: number;
+  totalPages: number;
+  metadata: M;
+}
+
+export type ModelsPageMetadata = Omit<MentalModelsData, 'models' | 'totalModels'>;
+export type NarrativesPageMetadata = NarrativesData['metadata'];
+export type ModelsPage = ContentPage<MentalModel, ModelsPageMetadata>;
+export type NarrativesPage = ContentPage<Narrative, NarrativesPageMetadata>;
+
+/** Called after each page of a collection arrives */
+export type PageProgressListener = (page: number, totalPages: number) => void;
+
+/** HTTP validators remembered from the last successful response */
+export interface CacheValidators {
+  etag?: string | null;
+  lastModified?: string | null;
+}
+
+export type FetchResult<T> =
+  | { status: 'not-modified' }
+  | { status: 'ok'; data: T; etag: string | null; lastModified: string | null };
+
+export interface CachedDocument<T> {
+  data: T;
+  etag: string | null;
+  lastModified: string | null;
+  fetchedAt: string;
+}
+
+export interface CachedContent {
+  models?: CachedDocument<MentalModelsData>;
+  narratives?: CachedDocument<NarrativesData>;
+}
+
+/**
+ * Records added, changed or removed between two versions of a collection
+ */
+export interface CollectionDelta<T> {
+  /** Version the delta was computed against; must match the local document */
+  baseVersion: string;
+  version: string;
+  lastUpdated: string;
+  upserted: T[];
+  removed: string[];
+}
+
+export type ModelsDelta = CollectionDelta<MentalModel>;
+export type NarrativesDelta = CollectionDelta<Narrative>;
+
+/**
+ * `reset` means the server cannot diff from the requested version and the
+ * full collection has to be downloaded again
+ */
+export type DeltaFetchResult<T> =
+  | { status: 'not-modified' }
+  | { status: 'delta'; delta: CollectionDelta<T> }
+  | { status: 'reset' };
+
+export type DeltaApplyResult<T> = { ok: true; data: T } | { ok: false; errors: ValidationIssue[] };
+
+/**
+ * `updated` - full download, `patched` - delta applied,
+ * `rolled-back` - delta rejected and the cached document left untouched
+ */
+export type DocumentSyncStatus = 'updated' | 'patched' | 'not-modified' | 'rolled-back';
+
+export interface ContentSyncResult {
+  models: DocumentSyncStatus;
+  narratives: DocumentSyncStatus;
+  syncedAt: string;
+  /** Why a delta was rolled back; empty when the sync applied cleanly */
+  errors: ValidationIssue[];
+}
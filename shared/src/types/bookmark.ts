@@ -1,5 +1,11 @@
 // Using DE12 (Interface Segregation) - Bookmark types for cross-platform use
 
+import type {
+  BookmarkImportMode,
+  BookmarkImportPreview,
+  BookmarkImportResult,
+} from './bookmarkTransfer';
+
 export type BookmarkType = 'mental-model' | 'narrative';
 
 export interface Bookmark {
@@ -9,19 +15,149 @@ export interface Bookmark {
   title: string;
   description?: string;
   createdAt: string;
+  /** Lowercase, de-duplicated, in the order they were added */
+  tags?: string[];
+  /** Why it was saved, in the user's words */
+  note?: string;
+}
+
+/**
+ * Screen showing a bookmarked item, as an expo-router href object
+ */
+export type ContentRoute =
+  | { pathname: '/mental-models/[id]'; params: { id: string } }
+  | { pathname: '/narratives/[id]'; params: { id: string } };
+
+/**
+ * Content a bookmark can point at
+ */
+export interface BookmarkTarget {
+  type: BookmarkType;
+  itemId: string;
+  title: string;
+}
+
+/**
+ * `renamed`: the content still exists under another id or title;
+ * `removed`: nothing obviously replaces it
+ */
+export type UnavailableReason = 'renamed' | 'removed';
+
+export interface UnavailableBookmark {
+  bookmark: Bookmark;
+  reason: UnavailableReason;
+  /** Content that could replace it, most likely first */
+  candidates: BookmarkTarget[];
+}
+
+export interface BookmarkTagCount {
+  tag: string;
+  count: number;
+}
+
+/**
+ * A named reading list. A bookmark can be in any number of collections.
+ */
+export interface BookmarkCollection {
+  id: string;
+  name: string;
+  createdAt: string;
+  /** Member bookmark ids, in display order */
+  bookmarkIds: string[];
+}
+
+/** Fields changed together by one bookmark edit; omitted ones are kept */
+export interface BookmarkEdit {
   tags?: string[];
+  /** A blank note removes it */
+  note?: string;
+}
+
+/** The kind of change an undo step reverses */
+export type BookmarkHistoryAction =
+  | 'add'
+  | 'remove'
+  | 'clear'
+  | 'edit'
+  | 'relink'
+  | 'import'
+  | 'collection';
+
+/**
+ * Bookmarks and collections as they were on the other side of one change
+ */
+export interface BookmarkHistoryEntry {
+  action: BookmarkHistoryAction;
+  bookmarks: Bookmark[];
+  collections: BookmarkCollection[];
 }
 
 export interface BookmarkState {
   bookmarks: Bookmark[];
+  /** Bookmark id by `type:itemId`, kept in step with `bookmarks` */
+  bookmarkIndex: Record<string, string>;
+  /** In display order */
+  collections: BookmarkCollection[];
+  /** Undo steps, oldest first; bounded and never saved */
+  past: BookmarkHistoryEntry[];
+  /** Redo steps, cleared by any new change */
+  future: BookmarkHistoryEntry[];
+  /** True while saved bookmarks are being read from storage */
   isLoading: boolean;
   error: string | null;
+  /** Which storage call failed, when `error` came from the storage adapter */
+  failedOperation: 'read' | 'write' | null;
+  /** Why the last collection create or rename was rejected; storage failures stay in `error` */
+  collectionError: string | null;
 }
 
 export interface BookmarkActions {
-  addBookmark: (bookmark: Omit<Bookmark, 'id' | 'createdAt'>) => void;
+  /** Returns the new bookmark's id */
+  addBookmark: (bookmark: Omit<Bookmark, 'id' | 'createdAt'>) => string;
   removeBookmark: (id: string) => void;
   hasBookmark: (itemId: string, type: BookmarkType) => boolean;
+  /** Add the bookmark or remove the one for the same content; returns whether it is now saved */
+  toggleBookmark: (bookmark: Omit<Bookmark, 'id' | 'createdAt'>) => boolean;
   getBookmarksByType: (type: BookmarkType) => Bookmark[];
   clearBookmarks: () => void;
+  /** Change tags and note as one undo step; an edit that changes nothing records none */
+  updateBookmark: (id: string, edit: BookmarkEdit) => void;
+  updateBookmarkTags: (id: string, tags: string[]) => void;
+  /** A blank note removes it */
+  updateBookmarkNote: (id: string, note: string) => void;
+  /**
+   * Point a bookmark at other content of the same type. If that content is
+   * already bookmarked the two are merged; returns the surviving bookmark's id.
+   */
+  relinkBookmark: (id: string, target: Omit<BookmarkTarget, 'type'>) => string;
+  /** Apply a previewed import; unknown content is always skipped */
+  importBookmarks: (
+    preview: BookmarkImportPreview,
+    mode: BookmarkImportMode
+  ) => BookmarkImportResult;
+
+  // Collections
+  /**
+   * Returns the new collection's id, or null (with `collectionError` set) if
+   * the name is blank or taken
+   */
+  createCollection: (name: string) => string | null;
+  /** Returns false (with `collectionError` set) under the same rules as `createCollection` */
+  renameCollection: (id: string, name: string) => boolean;
+  deleteCollection: (id: string) => void;
+  moveCollection: (id: string, toIndex: number) => void;
+  addToCollection: (collectionId: string, bookmarkId: string) => void;
+  removeFromCollection: (collectionId: string, bookmarkId: string) => void;
+  moveInCollection: (collectionId: string, bookmarkId: string, toIndex: number) => void;
+  getCollectionBookmarks: (collectionId: string) => Bookmark[];
+
+  // History
+  /** Reverse the last change; returns what it was, or null if there is nothing to undo */
+  undo: () => BookmarkHistoryAction | null;
+  /** Re-apply the last undone change; returns what it was, or null */
+  redo: () => BookmarkHistoryAction | null;
+
+  // Storage
+  /** Repeat the storage call in `failedOperation`: re-read saved bookmarks or save again */
+  retryStorage: () => Promise<void>;
 }
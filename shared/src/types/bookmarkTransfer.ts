@@ -0,0 +1,62 @@
+// Using DE12 (Interface Segregation) - Portable bookmark export and import types
+
+import type { Bookmark } from './bookmark';
+
+export type BookmarkExportFormat = 'json' | 'markdown' | 'csv';
+
+/** A bookmark as exported; ids are local to a device and get reassigned on import */
+export type BookmarkExportItem = Omit<Bookmark, 'id'>;
+
+export interface BookmarkExportCollection {
+  name: string;
+  createdAt: string;
+  /** Member bookmarks as `type:itemId` keys, in display order */
+  items: string[];
+}
+
+/**
+ * The versioned JSON export, the only format that can be imported back
+ */
+export interface BookmarkExport {
+  format: 'hummbl-bookmarks';
+  version: number;
+  exportedAt: string;
+  bookmarks: BookmarkExportItem[];
+  collections: BookmarkExportCollection[];
+}
+
+/**
+ * new: not saved yet; duplicate: already saved (or repeated in the file);
+ * unknown: references a model or narrative this app doesn't have
+ */
+export type BookmarkImportStatus = 'new' | 'duplicate' | 'unknown';
+
+export interface BookmarkImportItem {
+  bookmark: BookmarkExportItem;
+  status: BookmarkImportStatus;
+}
+
+/**
+ * What an import would do, computed without touching the store
+ */
+export interface BookmarkImportPreview {
+  exportedAt: string;
+  items: BookmarkImportItem[];
+  collections: BookmarkExportCollection[];
+  counts: Record<BookmarkImportStatus, number>;
+}
+
+export type ParsedBookmarkImport =
+  | { ok: true; preview: BookmarkImportPreview }
+  | { ok: false; errors: string[] };
+
+/** merge: add to what is saved; replace: the import becomes everything saved */
+export type BookmarkImportMode = 'merge' | 'replace';
+
+export interface BookmarkImportResult {
+  added: number;
+  /** Duplicates whose tags and note were merged into the saved bookmark */
+  merged: number;
+  /** Unknown content, never imported */
+  skipped: number;
+}
@@ -0,0 +1,55 @@
+// Using DE12 (Interface Segregation) - Content repository types for cross-platform use
+
+import type { MentalModel, MentalModelsData, TransformationKey } from './mental-model';
+import type { Narrative, NarrativesData } from './narrative';
+import type { ContentValidationReport } from './validation';
+import type { ProvenanceCheck } from './provenance';
+
+export type ContentKind = 'mental-model' | 'narrative';
+
+/**
+ * Raw documents produced by a content source. Either document may be omitted
+ * when a source only provides one kind of content.
+ */
+export interface ContentSnapshot {
+  models?: MentalModelsData;
+  narratives?: NarrativesData;
+}
+
+/**
+ * A pluggable provider of content documents (bundled JSON, cache, remote API)
+ */
+export interface ContentSource {
+  name: string;
+  load: () => Promise<ContentSnapshot>;
+}
+
+export interface ContentRepository {
+  models: MentalModel[];
+  narratives: Narrative[];
+  modelsVersion: string | null;
+  narrativesVersion: string | null;
+  narrativesLastUpdated: string | null;
+  getModelById: (id: string) => MentalModel | undefined;
+  getModelByCode: (code: string) => MentalModel | undefined;
+  getModelsByTransformation: (transformation: TransformationKey) => MentalModel[];
+  getModelsByCategory: (category: string) => MentalModel[];
+  getNarrativeById: (id: string) => Narrative | undefined;
+  getNarrativesByCategory: (category: string) => Narrative[];
+  getModelCategories: () => string[];
+  getNarrativeCategories: () => string[];
+}
+
+export interface ContentState {
+  repository: ContentRepository;
+  isLoading: boolean;
+  error: string | null;
+  lastLoadedAt: string | null;
+  validationReports: ContentValidationReport[];
+  /** Provenance hash checks for every loaded narrative, keyed by id */
+  provenance: Record<string, ProvenanceCheck>;
+}
+
+export interface ContentActions {
+  loadContent: () => Promise<void>;
+}
@@ -0,0 +1,31 @@
+// Using DE12 (Interface Segregation) - Filter result and facet types
+
+import type { ComplexityLevel, TransformationKey } from './mental-model';
+import type { EvidenceQuality } from './narrative';
+
+/**
+ * How many items would match if this value were toggled on, given every
+ * other active filter
+ */
+export interface FacetCount<V extends string = string> {
+  value: V;
+  count: number;
+  selected: boolean;
+}
+
+export interface ModelFacets {
+  transformations: FacetCount<TransformationKey>[];
+  complexity: FacetCount<ComplexityLevel>[];
+  tags: FacetCount[];
+}
+
+export interface NarrativeFacets {
+  categories: FacetCount[];
+  evidenceQuality: FacetCount<EvidenceQuality>[];
+  domains: FacetCount[];
+}
+
+export interface FilterResult<T, F> {
+  items: T[];
+  facets: F;
+}
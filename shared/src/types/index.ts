@@ -3,3 +3,12 @@
 export * from './mental-model';
 export * from './narrative';
 export * from './bookmark';
+export * from './content';
+export * from './validation';
+export * from './legacy';
+export * from './api';
+export * from './provenance';
+export * from './offline';
+export * from './filters';
+export * from './searchHistory';
+export * from './bookmarkTransfer';
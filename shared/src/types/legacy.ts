@@ -0,0 +1,43 @@
+// Using DE12 (Interface Segregation) - Flat content shapes from the original sample data
+
+import type { TransformationKey } from './mental-model';
+import type { Difficulty, EvidenceQuality } from './narrative';
+
+/**
+ * Flat mental model shape used by the original mobile sample data and older
+ * web builds. Convert with fromLegacyModel/toLegacyModel; never render it directly.
+ */
+export interface LegacyMentalModel {
+  id: string;
+  code: string;
+  name: string;
+  description: string;
+  category: string;
+  transformation: TransformationKey;
+  difficulty: number;
+  tags: string[];
+  example?: string;
+  sources?: { name: string; reference: string }[];
+  relatedModels?: string[];
+}
+
+/**
+ * camelCase narrative shape used by the original mobile sample data
+ */
+export interface LegacyNarrative {
+  id: string;
+  title: string;
+  summary: string;
+  content?: string;
+  category: string;
+  evidenceQuality: EvidenceQuality;
+  confidence: number;
+  tags: string[];
+  domain: string[];
+  complexity?: {
+    cognitiveLoad: string;
+    timeToElicit: string;
+    expertiseRequired: Difficulty | string;
+  };
+  citations?: { author: string; year: number | string; title: string; source: string }[];
+}
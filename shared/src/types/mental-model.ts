@@ -2,6 +2,9 @@
 
 export type TransformationKey = 'P' | 'IN' | 'CO' | 'DE' | 'RE' | 'SY';
 
+/**
+ * Canonical mental model shape shared by every client
+ */
 export interface MentalModel {
   id: string;
   name: string;
@@ -15,6 +18,7 @@ export interface MentalModel {
     name: string;
     reference: string;
   }>;
+  relatedModels?: string[];
   meta?: {
     added?: string;
     updated?: string;
@@ -31,11 +35,14 @@ export interface MentalModelsData {
   models: MentalModel[];
 }
 
+/** Coarse bucket over `meta.difficulty`: 1-2 low, 3 medium, 4-5 high */
+export type ComplexityLevel = 'low' | 'medium' | 'high';
+
 export interface ModelFilterOptions {
   searchTerm?: string;
   transformations?: TransformationKey[];
   tags?: string[];
-  complexity?: ('low' | 'medium' | 'high')[];
+  complexity?: ComplexityLevel[];
   sortBy?: 'name' | 'complexity' | 'code';
   sortOrder?: 'asc' | 'desc';
 }
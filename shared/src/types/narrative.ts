@@ -3,6 +3,9 @@
 export type EvidenceQuality = 'A' | 'B' | 'C';
 export type Difficulty = 'Beginner' | 'Intermediate' | 'Advanced';
 
+/**
+ * Canonical narrative shape shared by every client
+ */
 export interface Narrative {
   id: string;
   narrative_id: string;
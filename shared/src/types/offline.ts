@@ -0,0 +1,32 @@
+// Using DE12 (Interface Segregation) - Offline content manager types
+
+export type OfflineDownloadStatus = 'idle' | 'downloading' | 'complete' | 'error';
+
+export interface OfflineProgress {
+  /** Collection currently being downloaded */
+  phase: 'models' | 'narratives' | null;
+  /** Overall completion from 0 to 1 */
+  fraction: number;
+}
+
+export interface OfflineState {
+  /** When on, no content request ever reaches the network */
+  offlineMode: boolean;
+  /** True while the saved preference is being read; false once it loads or the read fails */
+  isLoading: boolean;
+  status: OfflineDownloadStatus;
+  progress: OfflineProgress;
+  /** UTF-8 size of the cached content documents */
+  storageBytes: number;
+  cachedModels: number;
+  cachedNarratives: number;
+  downloadedAt: string | null;
+  error: string | null;
+}
+
+export interface OfflineActions {
+  setOfflineMode: (enabled: boolean) => void;
+  downloadAll: () => Promise<void>;
+  clearCache: () => Promise<void>;
+  refreshStorageInfo: () => Promise<void>;
+}
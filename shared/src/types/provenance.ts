@@ -0,0 +1,16 @@
+// Using DE12 (Interface Segregation) - Provenance verification result types
+
+/**
+ * `verified` - stored hash matches the content, `unsigned` - no hash stored,
+ * `mismatch` - content changed after it was hashed (tampered or corrupted)
+ */
+export type ProvenanceStatus = 'verified' | 'unsigned' | 'mismatch';
+
+export interface ProvenanceCheck {
+  id: string;
+  status: ProvenanceStatus;
+  /** Hash stored on the record */
+  expected: string;
+  /** Hash recomputed from the record's canonical form */
+  actual: string;
+}
@@ -0,0 +1,28 @@
+// Using DE12 (Interface Segregation) - Search history and autocomplete types
+
+export interface SearchHistoryEntry {
+  /** The query as the user last typed it */
+  query: string;
+  /** How many times it has been searched */
+  count: number;
+  lastSearchedAt: string;
+}
+
+export interface SearchHistoryState {
+  /** Most recent first, at most one entry per normalized query */
+  entries: SearchHistoryEntry[];
+}
+
+export interface SearchHistoryActions {
+  recordSearch: (query: string) => void;
+  removeSearch: (query: string) => void;
+  clearHistory: () => void;
+}
+
+export type SuggestionKind = 'code' | 'name' | 'tag' | 'category' | 'history';
+
+export interface SearchSuggestion {
+  text: string;
+  kind: SuggestionKind;
+  score: number;
+}
@@ -0,0 +1,36 @@
+// Using DE12 (Interface Segregation) - Runtime validation result types for content documents
+
+import type { ContentKind } from './content';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  /** Location of the offending value, e.g. `models[3].transformations[0]` */
+  path: string;
+  message: string;
+  severity: ValidationSeverity;
+}
+
+export interface ValidationResult {
+  valid: boolean;
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+/**
+ * A record that failed validation and was kept out of the repository
+ */
+export interface QuarantinedRecord {
+  source: string;
+  kind: ContentKind;
+  id: string | null;
+  errors: ValidationIssue[];
+}
+
+export interface ContentValidationReport {
+  source: string;
+  /** Document-level errors; a document with errors is rejected entirely */
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+  quarantined: QuarantinedRecord[];
+}
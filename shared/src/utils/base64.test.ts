@@ -0,0 +1,17 @@
+import { describe, it, expect } from 'vitest';
+import { decodeBase64, encodeBase64 } from './base64';
+
+describe('base64', () => {
+  it('agrees with Buffer for every padding length', () => {
+    for (const length of [0, 1, 2, 3, 4, 5, 31, 32, 33]) {
+      const bytes = Uint8Array.from({ length }, (_, i) => (i * 97 + 13) & 0xff);
+      const encoded = encodeBase64(bytes);
+      expect(encoded).toBe(Buffer.from(bytes).toString('base64'));
+      expect(Array.from(decodeBase64(encoded))).toEqual(Array.from(bytes));
+    }
+  });
+
+  it('rejects characters outside the alphabet', () => {
+    expect(() => decodeBase64('ab$d')).toThrow('Invalid base64 character: $');
+  });
+});
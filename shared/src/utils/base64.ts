@@ -0,0 +1,41 @@
+// Using P1 (First Principles) - Base64 for bytes without btoa, which Hermes lacks
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+const LOOKUP = new Map([...ALPHABET].map((char, i) => [char, i]));
+
+/**
+ * Encode bytes as padded standard base64
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+  let output = '';
+  for (let i = 0; i < bytes.length; i += 3) {
+    const chunk = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+    output += ALPHABET[(chunk >> 18) & 63] + ALPHABET[(chunk >> 12) & 63];
+    output += i + 1 < bytes.length ? ALPHABET[(chunk >> 6) & 63] : '=';
+    output += i + 2 < bytes.length ? ALPHABET[chunk & 63] : '=';
+  }
+  return output;
+}
+
+/**
+ * Decode padded or unpadded standard base64. Throws on any other character.
+ */
+export function decodeBase64(text: string): Uint8Array {
+  const trimmed = text.replace(/=+$/, '');
+  const bytes = new Uint8Array(Math.floor((trimmed.length * 3) / 4));
+  let buffer = 0;
+  let bits = 0;
+  let index = 0;
+  for (const char of trimmed) {
+    const value = LOOKUP.get(char);
+    if (value === undefined) throw new Error(`Invalid base64 character: ${char}`);
+    buffer = (buffer << 6) | value;
+    bits += 6;
+    if (bits >= 8) {
+      bits -= 8;
+      bytes[index++] = (buffer >> bits) & 0xff;
+    }
+  }
+  return bytes;
+}
@@ -0,0 +1,17 @@
+// Using P1 (First Principles) - Human-readable storage sizes
+
+const UNITS = ['B', 'KB', 'MB', 'GB'];
+
+/**
+ * Format a byte count for display, e.g. 1536 -> "1.5 KB"
+ */
+export function formatBytes(bytes: number): string {
+  let value = Math.max(0, bytes);
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  const rounded = unit === 0 || value >= 10 ? Math.round(value) : Math.round(value * 10) / 10;
+  return `${rounded} ${UNITS[unit]}`;
+}
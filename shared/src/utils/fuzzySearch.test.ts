@@ -24,12 +24,98 @@ describe('fuzzySearch', () => {
     expect(results.length).toBeGreaterThan(0);
   });
 
+  it('reports match ranges for the matched keys', () => {
+    const [result] = fuzzySearch(items, 'inversoin', { keys: ['name'] });
+    expect(result.ranges).toEqual({ name: [{ start: 0, end: 9 }] });
+  });
+
   it('respects limit option', () => {
     const results = fuzzySearch(items, 'i', { keys: ['name'], limit: 1 });
     expect(results.length).toBeLessThanOrEqual(1);
   });
 });
 
+describe('fuzzySearch with multi-word queries', () => {
+  const models = [
+    {
+      id: 'ie3',
+      name: 'Second-Order Effects',
+      description: 'Think past the immediate consequences of a decision',
+      tags: ['consequences', 'systems'],
+    },
+    {
+      id: 'in2',
+      name: 'Premortem Analysis',
+      description: 'Imagine the project failed and work backwards',
+      tags: ['risk', 'planning'],
+    },
+    {
+      id: 'x1',
+      name: 'Order of Operations',
+      description: 'The second step depends on the first; effects compound',
+      tags: ['sequencing'],
+    },
+    {
+      id: 'x2',
+      name: 'Risk Register',
+      description: 'Track known risks',
+      tags: ['risk'],
+    },
+  ];
+  const ids = (results: { item: { id: string } }[]) => results.map((r) => r.item.id);
+
+  it('finds a multi-word name that never matches as a whole', () => {
+    const results = fuzzySearch(models, 'second order effects', { keys: ['name', 'description'] });
+    expect(results[0].item.id).toBe('ie3');
+    expect(results[0].score).toBe(1);
+  });
+
+  it('ranks an exact phrase above the same words scattered', () => {
+    const results = fuzzySearch(models, 'second order effects', { keys: ['name', 'description'] });
+    expect(ids(results)).toEqual(['ie3', 'x1']);
+    expect(results[1].score).toBeLessThan(results[0].score);
+  });
+
+  it('matches terms across different keys', () => {
+    const results = fuzzySearch(models, 'premortem risk', { keys: ['name', 'tags'] });
+    expect(ids(results)).toEqual(['in2']);
+    expect(results[0].matches).toEqual(['name', 'tags']);
+  });
+
+  it('tolerates a typo in one of several terms', () => {
+    const results = fuzzySearch(models, 'premortm analysis', { keys: ['name'] });
+    expect(ids(results)).toEqual(['in2']);
+  });
+
+  it('requires every term by default and any term with OR', () => {
+    expect(ids(fuzzySearch(models, 'premortem register', { keys: ['name'] }))).toEqual([]);
+
+    const either = fuzzySearch(models, 'premortem register', { keys: ['name'], operator: 'or' });
+    expect(ids(either).sort()).toEqual(['in2', 'x2']);
+    // Half the terms matched, so neither scores as a full match
+    expect(either.every((r) => r.score < 1)).toBe(true);
+  });
+
+  it('weights keys', () => {
+    const keys = [
+      { key: 'name', weight: 1 },
+      { key: 'tags', weight: 3 },
+    ];
+    const results = fuzzySearch(models, 'risk', { keys });
+    // Both carry the tag; the name match adds nothing over the heavier tag match
+    expect(ids(results).sort()).toEqual(['in2', 'x2']);
+
+    const byName = fuzzySearch(models, 'risk', { keys: [{ key: 'name', weight: 3 }, 'tags'] });
+    expect(byName[0].item.id).toBe('x2');
+    expect(byName[1].score).toBeLessThan(byName[0].score);
+  });
+
+  it('returns ranges covering each term and the phrase', () => {
+    const [result] = fuzzySearch(models, 'second order', { keys: ['name'] });
+    expect(result.ranges).toEqual({ name: [{ start: 0, end: 12 }] });
+  });
+});
+
 describe('highlightMatches', () => {
   it('highlights matching substring', () => {
     const parts = highlightMatches('hello world', 'world');
@@ -41,6 +127,16 @@ describe('highlightMatches', () => {
     expect(parts.every(p => !p.highlight)).toBe(true);
   });
 
+  it('highlights every word of a multi-word query', () => {
+    const parts = highlightMatches('Feedback loops drive systems', 'systems feedback');
+    expect(parts.filter((p) => p.highlight).map((p) => p.text)).toEqual(['Feedback', 'systems']);
+  });
+
+  it('highlights close misspellings', () => {
+    const parts = highlightMatches('Decision making under uncertainty', 'decsion');
+    expect(parts.filter((p) => p.highlight).map((p) => p.text)).toEqual(['Decision']);
+  });
+
   it('handles empty query', () => {
     const parts = highlightMatches('hello', '');
     expect(parts.length).toBe(1);
@@ -1,17 +1,51 @@
 // Using SY8 (Systems) - Fuzzy search algorithm for mental models and narratives
 
+/**
+ * A highlighted span of text: `start` inclusive, `end` exclusive
+ */
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+/** Ranges per key, as offsets into `getNestedValue(item, key)` */
+export type MatchRanges = Record<string, MatchRange[]>;
+
 export interface SearchResult<T> {
   item: T;
   score: number;
   matches: string[];
+  ranges?: MatchRanges;
+}
+
+export interface FuzzySearchKey {
+  key: string;
+  /** Relative weight of matches in this key (default 1) */
+  weight?: number;
 }
 
 export interface FuzzySearchOptions {
-  keys: string[];
-  threshold?: number; // 0-1, lower = stricter
+  keys: Array<string | FuzzySearchKey>;
+  threshold?: number; // 0-1, higher = stricter
   limit?: number;
+  /** Whether every query term must match ('and', the default) or any of them ('or') */
+  operator?: 'and' | 'or';
 }
 
+// Same word characters as the search index tokenizer, applied to lowercased text
+const WORD = /[a-z0-9À-ɏ]+/g;
+
+// Term-to-word match qualities: exact > prefix > inside a word > typo
+const PREFIX_QUALITY = 0.7;
+const SUBSTRING_QUALITY = 0.6;
+const FUZZY_QUALITY = 0.8;
+// A typo'd word must still share most of its letters with the term
+const MIN_TYPO_SIMILARITY = 0.6;
+// Multi-word queries reserve this share of the score for terms appearing in order, or
+// close together, in one key
+const PHRASE_BONUS = 0.2;
+const PROXIMITY_BONUS = 0.1;
+
 // Using DE3 (Decomposition) - Break search into composable parts
 
 /**
@@ -55,7 +89,7 @@ function levenshteinDistance(s1: string, s2: string): number {
 /**
  * Get nested value from object using dot notation
  */
-function getNestedValue(obj: Record<string, unknown>, path: string): string {
+export function getNestedValue(obj: object, path: string): string {
   const value = path.split('.').reduce((acc: unknown, part) => {
     if (acc && typeof acc === 'object') {
       return (acc as Record<string, unknown>)[part];
@@ -70,18 +104,101 @@ function getNestedValue(obj: Record<string, unknown>, path: string): string {
   return String(value ?? '');
 }
 
+interface Word {
+  text: string;
+  start: number;
+}
+
+const splitWords = (text: string): Word[] =>
+  Array.from(text.toLowerCase().matchAll(WORD), (m) => ({ text: m[0], start: m.index ?? 0 }));
+
 /**
- * Fuzzy search through array of items
+ * How well one query term matches one word (0 when it doesn't), and the part to highlight
  */
-export function fuzzySearch<T extends Record<string, unknown>>(
+function matchTerm(term: string, word: Word, threshold: number): [number, MatchRange | null] {
+  const minSimilarity = Math.max(threshold, MIN_TYPO_SIMILARITY);
+  if (word.text === term) return [1, { start: word.start, end: word.start + term.length }];
+  if (word.text.startsWith(term)) {
+    // Longer prefixes score closer to an exact match
+    const coverage = term.length / word.text.length;
+    return [PREFIX_QUALITY + 0.2 * coverage, { start: word.start, end: word.start + term.length }];
+  }
+  const inside = word.text.indexOf(term);
+  if (inside !== -1) {
+    const start = word.start + inside;
+    return [SUBSTRING_QUALITY, { start, end: start + term.length }];
+  }
+  // Similarity can't beat the length difference, so skip the edit distance when it can't pass
+  const lengthRatio =
+    Math.min(term.length, word.text.length) / Math.max(term.length, word.text.length);
+  if (lengthRatio < minSimilarity) return [0, null];
+  const score = similarity(term, word.text);
+  if (score >= minSimilarity) {
+    return [score * FUZZY_QUALITY, { start: word.start, end: word.start + word.text.length }];
+  }
+  return [0, null];
+}
+
+interface KeyMatch {
+  /** Best quality per query term, 0 for terms that didn't match */
+  termScores: number[];
+  ranges: MatchRange[];
+  bonus: number;
+}
+
+// Using DE3 (Decomposition) - Score every term against one key, then look for phrase and proximity
+function matchKey(text: string, terms: string[], threshold: number): KeyMatch {
+  const words = splitWords(text);
+  const termScores = terms.map(() => 0);
+  const positions: number[] = terms.map(() => -1);
+  const ranges: MatchRange[] = [];
+
+  terms.forEach((term, t) => {
+    words.forEach((word, w) => {
+      const [quality, range] = matchTerm(term, word, threshold);
+      if (!range) return;
+      ranges.push(range);
+      if (quality > termScores[t]) {
+        termScores[t] = quality;
+        positions[t] = w;
+      }
+    });
+  });
+
+  let bonus = 0;
+  if (terms.length > 1 && positions.every((p) => p !== -1)) {
+    const at = words.findIndex((_, w) => terms.every((term, t) => words[w + t]?.text === term));
+    if (at !== -1) {
+      const last = words[at + terms.length - 1];
+      ranges.push({ start: words[at].start, end: last.start + last.text.length });
+      bonus = PHRASE_BONUS;
+    } else {
+      const span = Math.max(...positions) - Math.min(...positions) + 1;
+      bonus = PROXIMITY_BONUS * (terms.length / span);
+    }
+  }
+  return { termScores, ranges, bonus };
+}
+
+/**
+ * Fuzzy search through array of items. The query is split into terms that
+ * are scored independently against every key (exact, prefix, substring or
+ * typo), weighted per key, with bonuses when the terms appear as a phrase or
+ * close together.
+ */
+export function fuzzySearch<T extends object>(
   items: T[],
   query: string,
   options: FuzzySearchOptions
 ): SearchResult<T>[] {
-  const { keys, threshold = 0.3, limit = 50 } = options;
-  const normalizedQuery = query.toLowerCase().trim();
+  const { threshold = 0.3, limit = 50, operator = 'and' } = options;
+  const keys = options.keys.map((key) =>
+    typeof key === 'string' ? { key, weight: 1 } : { key: key.key, weight: key.weight ?? 1 }
+  );
+  const maxWeight = Math.max(...keys.map((k) => k.weight));
+  const terms = Array.from(new Set(query.toLowerCase().match(WORD) ?? []));
 
-  if (!normalizedQuery) {
+  if (terms.length === 0) {
     return items.slice(0, limit).map((item) => ({
       item,
       score: 1,
@@ -92,37 +209,31 @@ export function fuzzySearch<T extends Record<string, unknown>>(
   const results: SearchResult<T>[] = [];
 
   for (const item of items) {
-    let bestScore = 0;
+    const termScores = terms.map(() => 0);
     const matches: string[] = [];
+    const ranges: MatchRanges = {};
+    let bonus = 0;
 
-    for (const key of keys) {
-      const value = getNestedValue(item, key).toLowerCase();
+    for (const { key, weight } of keys) {
+      const keyMatch = matchKey(getNestedValue(item, key), terms, threshold);
+      if (keyMatch.ranges.length === 0) continue;
 
-      // Exact match
-      if (value.includes(normalizedQuery)) {
-        const exactScore = normalizedQuery.length / value.length;
-        if (exactScore > bestScore) {
-          bestScore = Math.min(1, exactScore + 0.5); // Boost exact matches
-          matches.push(key);
-        }
-        continue;
-      }
-
-      // Fuzzy match
-      const words = value.split(/\s+/);
-      for (const word of words) {
-        const score = similarity(normalizedQuery, word);
-        if (score > threshold && score > bestScore) {
-          bestScore = score;
-          if (!matches.includes(key)) {
-            matches.push(key);
-          }
-        }
-      }
+      const scale = weight / maxWeight;
+      keyMatch.termScores.forEach((score, t) => {
+        termScores[t] = Math.max(termScores[t], score * scale);
+      });
+      bonus = Math.max(bonus, keyMatch.bonus * scale);
+      matches.push(key);
+      ranges[key] = mergeRanges(keyMatch.ranges);
     }
 
-    if (bestScore > threshold) {
-      results.push({ item, score: bestScore, matches });
+    const matched = termScores.filter((score) => score > 0).length;
+    if (matched === 0 || (operator === 'and' && matched < terms.length)) continue;
+
+    const average = termScores.reduce((sum, score) => sum + score, 0) / terms.length;
+    const score = terms.length > 1 ? average * (1 - PHRASE_BONUS) + bonus : average;
+    if (score > threshold) {
+      results.push({ item, score, matches, ranges });
     }
   }
 
@@ -132,50 +243,96 @@ export function fuzzySearch<T extends Record<string, unknown>>(
   return results.slice(0, limit);
 }
 
+export interface MatchRangeOptions {
+  /** Minimum similarity (0-1) for a word to count as a fuzzy hit (default 0.6) */
+  threshold?: number;
+}
+
 /**
- * Highlight matching text in a string
+ * Sort ranges and merge any that overlap or touch
  */
-export function highlightMatches(
-  text: string,
-  query: string
-): { text: string; highlight: boolean }[] {
-  if (!query.trim()) {
-    return [{ text, highlight: false }];
+export function mergeRanges(ranges: MatchRange[]): MatchRange[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start || a.end - b.end);
+  const merged: MatchRange[] = [];
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
   }
+  return merged;
+}
 
-  const normalizedQuery = query.toLowerCase();
+// Using DE3 (Decomposition) - Each query word is matched on its own, exactly first, then fuzzily
+/**
+ * Find where each word of `query` occurs in `text`. Words without an exact
+ * hit fall back to highlighting similar words, so typos still highlight.
+ */
+export function findMatchRanges(
+  text: string,
+  query: string,
+  { threshold = 0.6 }: MatchRangeOptions = {}
+): MatchRange[] {
   const normalizedText = text.toLowerCase();
-  const result: { text: string; highlight: boolean }[] = [];
+  const ranges: MatchRange[] = [];
 
-  let lastIndex = 0;
-  let index = normalizedText.indexOf(normalizedQuery, lastIndex);
-
-  while (index !== -1) {
-    // Add non-matching text before match
-    if (index > lastIndex) {
-      result.push({
-        text: text.slice(lastIndex, index),
-        highlight: false,
-      });
+  for (const word of query.toLowerCase().split(/\s+/).filter(Boolean)) {
+    let found = false;
+    let index = normalizedText.indexOf(word);
+    while (index !== -1) {
+      ranges.push({ start: index, end: index + word.length });
+      found = true;
+      index = normalizedText.indexOf(word, index + word.length);
     }
+    if (found) continue;
 
-    // Add matching text
-    result.push({
-      text: text.slice(index, index + query.length),
-      highlight: true,
-    });
-
-    lastIndex = index + query.length;
-    index = normalizedText.indexOf(normalizedQuery, lastIndex);
+    for (const match of normalizedText.matchAll(WORD)) {
+      if (similarity(word, match[0]) > threshold) {
+        const start = match.index ?? 0;
+        ranges.push({ start, end: start + match[0].length });
+      }
+    }
   }
+  return mergeRanges(ranges);
+}
+
+/**
+ * Split text into highlighted and plain segments from match ranges
+ */
+export function highlightRanges(
+  text: string,
+  ranges: MatchRange[]
+): { text: string; highlight: boolean }[] {
+  const result: { text: string; highlight: boolean }[] = [];
+  let lastIndex = 0;
 
-  // Add remaining text
+  for (const { start, end } of mergeRanges(ranges)) {
+    const from = Math.max(start, lastIndex);
+    const to = Math.min(end, text.length);
+    if (from >= to) continue;
+    if (from > lastIndex) result.push({ text: text.slice(lastIndex, from), highlight: false });
+    result.push({ text: text.slice(from, to), highlight: true });
+    lastIndex = to;
+  }
   if (lastIndex < text.length) {
-    result.push({
-      text: text.slice(lastIndex),
-      highlight: false,
-    });
+    result.push({ text: text.slice(lastIndex), highlight: false });
   }
 
   return result.length > 0 ? result : [{ text, highlight: false }];
 }
+
+/**
+ * Highlight the words of `query` in a string, tolerating typos
+ */
+export function highlightMatches(
+  text: string,
+  query: string,
+  options?: MatchRangeOptions
+): { text: string; highlight: boolean }[] {
+  if (!query.trim()) {
+    return [{ text, highlight: false }];
+  }
+  return highlightRanges(text, findMatchRanges(text, query, options));
+}
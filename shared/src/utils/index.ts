@@ -1,4 +1,23 @@
 // Using CO5 (Composition) - Export all utilities
 
-export { fuzzySearch, highlightMatches } from './fuzzySearch';
-export type { SearchResult, FuzzySearchOptions } from './fuzzySearch';
+export {
+  fuzzySearch,
+  highlightMatches,
+  highlightRanges,
+  findMatchRanges,
+  mergeRanges,
+  getNestedValue,
+} from './fuzzySearch';
+export type {
+  SearchResult,
+  FuzzySearchOptions,
+  MatchRange,
+  MatchRanges,
+  MatchRangeOptions,
+} from './fuzzySearch';
+export { extractSnippet } from './snippet';
+export type { Snippet, SnippetOptions } from './snippet';
+export { sha256, utf8Encode } from './sha256';
+export { encodeBase64, decodeBase64 } from './base64';
+export { formatBytes } from './formatBytes';
+export { naturalCompare } from './naturalCompare';
@@ -0,0 +1,29 @@
+// Using DE3 (Decomposition) - Compare strings with embedded numbers the way people read them
+
+const CHUNK = /(\d+)|(\D+)/g;
+
+/**
+ * Case-insensitive comparison that orders digit runs numerically,
+ * so "P2" sorts before "P10"
+ */
+export function naturalCompare(a: string, b: string): number {
+  const left = a.toLowerCase().match(CHUNK) ?? [];
+  const right = b.toLowerCase().match(CHUNK) ?? [];
+
+  for (let i = 0; i < Math.min(left.length, right.length); i++) {
+    const x = left[i];
+    const y = right[i];
+    if (x === y) continue;
+
+    const xIsNumber = /^\d/.test(x);
+    const yIsNumber = /^\d/.test(y);
+    if (xIsNumber && yIsNumber) {
+      const difference = Number(x) - Number(y);
+      if (difference !== 0) return difference;
+      // Same value, different zero padding: shorter first
+      return x.length - y.length;
+    }
+    return x < y ? -1 : 1;
+  }
+  return left.length - right.length;
+}
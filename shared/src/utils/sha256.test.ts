@@ -0,0 +1,28 @@
+import { describe, it, expect } from 'vitest';
+import { createHash } from 'node:crypto';
+import { sha256, utf8Encode } from './sha256';
+
+const nodeSha256 = (input: string) => createHash('sha256').update(input, 'utf8').digest('hex');
+
+describe('sha256', () => {
+  it('matches the standard test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq')).toBe(
+      '248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1'
+    );
+  });
+
+  it('agrees with node:crypto across block boundaries', () => {
+    for (const length of [55, 56, 63, 64, 65, 119, 120, 1000]) {
+      const input = 'x'.repeat(length);
+      expect(sha256(input)).toBe(nodeSha256(input));
+    }
+  });
+
+  it('hashes non-ASCII text as UTF-8', () => {
+    const input = 'Kahneman – “Thinking, Fast and Slow” 🧠 é';
+    expect(Array.from(utf8Encode(input))).toEqual(Array.from(Buffer.from(input, 'utf8')));
+    expect(sha256(input)).toBe(nodeSha256(input));
+  });
+});
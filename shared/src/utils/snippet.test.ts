@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { extractSnippet } from './snippet';
+import { findMatchRanges } from './fuzzySearch';
+
+const highlighted = ({
+  text,
+  ranges,
+}: {
+  text: string;
+  ranges: { start: number; end: number }[];
+}) => ranges.map((r) => text.slice(r.start, r.end));
+
+const long =
+  'Mental models help. ' +
+  'Filler sentence number one goes here. '.repeat(5) +
+  'The key idea is the feedback loop, where feedback changes the system. ' +
+  'More filler follows at the end of the text.';
+
+describe('extractSnippet', () => {
+  it('returns short text untouched', () => {
+    const snippet = extractSnippet('Feedback loops', [{ start: 0, end: 8 }]);
+    expect(snippet).toEqual({ text: 'Feedback loops', ranges: [{ start: 0, end: 8 }] });
+  });
+
+  it('centres on the densest hits, cuts at word boundaries and shifts ranges', () => {
+    const snippet = extractSnippet(long, findMatchRanges(long, 'feedback'), { maxLength: 80 });
+    expect(snippet.text.startsWith('…')).toBe(true);
+    expect(snippet.text.endsWith('…')).toBe(true);
+    expect(snippet.text.length).toBeLessThanOrEqual(82);
+    expect(highlighted(snippet)).toEqual(['feedback', 'feedback']);
+    expect(snippet.text).not.toMatch(/^… /);
+  });
+
+  it('starts at the beginning when nothing matched', () => {
+    const snippet = extractSnippet(long, [], { maxLength: 40 });
+    expect(snippet.text).toBe('Mental models help. Filler sentence…');
+    expect(snippet.ranges).toEqual([]);
+  });
+});
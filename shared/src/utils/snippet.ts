@@ -0,0 +1,77 @@
+// Using DE3 (Decomposition) - Cut a window of context around the best hit in long text
+
+import type { MatchRange } from './fuzzySearch';
+import { mergeRanges } from './fuzzySearch';
+
+export interface Snippet {
+  /** The window, with an ellipsis where text was cut */
+  text: string;
+  /** Match ranges shifted into the snippet text */
+  ranges: MatchRange[];
+}
+
+export interface SnippetOptions {
+  /** Maximum characters kept from the source, ellipses excluded (default 140) */
+  maxLength?: number;
+  ellipsis?: string;
+}
+
+// Context shown before the first hit; the rest of the window follows it
+const LEADING_CONTEXT = 0.25;
+
+/**
+ * Extract the part of `text` that holds the most match ranges, trimmed to
+ * whole words. Short text is returned as is.
+ */
+export function extractSnippet(
+  text: string,
+  ranges: MatchRange[],
+  { maxLength = 140, ellipsis = '…' }: SnippetOptions = {}
+): Snippet {
+  const merged = mergeRanges(ranges);
+  if (text.length <= maxLength) return { text, ranges: merged };
+
+  // Using SY8 (Systems) - Try a window anchored at each hit and keep the one covering most hits
+  let start = 0;
+  let bestCovered = -1;
+  for (const anchor of merged) {
+    const candidate = Math.min(
+      Math.max(0, anchor.start - Math.floor(maxLength * LEADING_CONTEXT)),
+      text.length - maxLength
+    );
+    const covered = merged.filter(
+      (range) => range.start >= candidate && range.end <= candidate + maxLength
+    ).length;
+    if (covered > bestCovered) {
+      bestCovered = covered;
+      start = candidate;
+    }
+  }
+  let end = Math.min(text.length, start + maxLength);
+
+  // Snap to word boundaries without cutting into a hit
+  const firstHit = merged.find((range) => range.start >= start)?.start ?? end;
+  const lastHit = merged.filter((range) => range.end <= end).pop()?.end ?? start;
+  if (start > 0) {
+    const space = text.indexOf(' ', start);
+    if (space !== -1 && space < firstHit) start = space + 1;
+  }
+  if (end < text.length) {
+    const space = text.lastIndexOf(' ', end);
+    if (space > lastHit && space > start) end = space;
+  }
+
+  const prefix = start > 0 ? ellipsis : '';
+  const suffix = end < text.length ? ellipsis : '';
+  const shift = prefix.length - start;
+
+  return {
+    text: `${prefix}${text.slice(start, end).trimEnd()}${suffix}`,
+    ranges: merged
+      .filter((range) => range.end > start && range.start < end)
+      .map((range) => ({
+        start: Math.max(range.start, start) + shift,
+        end: Math.min(range.end, end) + shift,
+      })),
+  };
+}